@@ -1,8 +1,8 @@
 import { useEffect, useMemo, useState } from 'react';
-import { View, Platform } from 'react-native';
-import { Tabs } from 'expo-router';
+import { View, Platform, Pressable } from 'react-native';
+import { Href, Tabs, useRouter } from 'expo-router';
 import Ionicons from '@expo/vector-icons/Ionicons';
-import dayjs from 'dayjs';
+import { prayerDayClock } from '../../services/prayerDay';
 import { supabase } from '../../lib/supabase';
 
 type BuddyLink = {
@@ -15,9 +15,10 @@ type BuddyLink = {
 };
 
 export default function TabsLayout() {
+  const router = useRouter();
   const [userId, setUserId] = useState<string | null>(null);
   const [showBuddyBadge, setShowBuddyBadge] = useState(false);
-  const [today, setToday] = useState(dayjs().format('YYYY-MM-DD'));
+  const [today, setToday] = useState(prayerDayClock.today());
 
   // Auth session tracking
   useEffect(() => {
@@ -28,10 +29,10 @@ export default function TabsLayout() {
     return () => sub.subscription.unsubscribe();
   }, []);
 
-  // Midnight rollover: tick every 15s to update "today"
+  // Prayer day rollover at Fajr: tick every 15s to update "today"
   useEffect(() => {
     const tick = () => {
-      const d = dayjs().format('YYYY-MM-DD');
+      const d = prayerDayClock.today();
       if (d !== today) setToday(d);
     };
     tick();
@@ -143,6 +144,16 @@ export default function TabsLayout() {
         </View>
       );
 
+  // Back button for screens hidden from the tab bar, which have no stack to pop
+  const backHeader = (route: Href) =>
+    function BackHeader() {
+      return (
+        <Pressable onPress={() => router.navigate(route)} style={{ paddingHorizontal: 16 }}>
+          <Ionicons name="chevron-back" size={24} color="#0077ff" />
+        </Pressable>
+      );
+    };
+
   return (
     <Tabs
       initialRouteName="index"
@@ -174,6 +185,15 @@ export default function TabsLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: 'History',
+          tabBarIcon: ({ color, size, focused }) => (
+            <Ionicons name={focused ? 'calendar' : 'calendar-outline'} size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="buddy"
         options={{
@@ -190,6 +210,56 @@ export default function TabsLayout() {
           ),
         }}
       />
+      {/* Opened from Profile; not shown in the tab bar */}
+      <Tabs.Screen
+        name="qada"
+        options={{
+          title: 'Qada Ledger',
+          href: null,
+          headerLeft: backHeader('/profile'),
+        }}
+      />
+      <Tabs.Screen
+        name="privacy"
+        options={{
+          title: 'Privacy Settings',
+          href: null,
+          headerLeft: backHeader('/profile'),
+        }}
+      />
+      <Tabs.Screen
+        name="stats"
+        options={{
+          title: 'Statistics',
+          href: null,
+          headerLeft: backHeader('/profile'),
+        }}
+      />
+      {/* Opened from Prayer Buddy; not shown in the tab bar */}
+      <Tabs.Screen
+        name="circles"
+        options={{
+          title: 'Circles',
+          href: null,
+          headerLeft: backHeader('/buddy'),
+        }}
+      />
+      <Tabs.Screen
+        name="circle/[id]"
+        options={{
+          title: 'Circle',
+          href: null,
+          headerLeft: backHeader('/circles'),
+        }}
+      />
+      <Tabs.Screen
+        name="nudges"
+        options={{
+          title: 'Nudges',
+          href: null,
+          headerLeft: backHeader('/buddy'),
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
@@ -1,12 +1,19 @@
 import { useEffect, useMemo, useState, useCallback, memo } from 'react';
-import { SafeAreaView, ScrollView, View, Text, StyleSheet, TextInput, Button, Alert, ActivityIndicator, Pressable, AppState, ViewStyle, FlatList, TouchableOpacity, Modal } from 'react-native';
+import { SafeAreaView, ScrollView, View, Text, StyleSheet, TextInput, Button, Alert, ActivityIndicator, Pressable, AppState, ViewStyle, FlatList, TouchableOpacity, Modal, Share } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import dayjs from 'dayjs';
 import { supabase } from '../../lib/supabase';
 
-import { pushNotificationService } from '../../notifications/pushService';
-import { streakService } from '../../services/streakService';
+import { streakService, PrayerStreaks } from '../../services/streakService';
+import type { CheckinStatus } from '../../services/prayerTimes';
+import { syncQueue } from '../../services/syncQueue';
+import { prayerDayClock } from '../../services/prayerDay';
+import { badgeService, BadgeId } from '../../services/badgeService';
+import { inviteService, describeRedeemResult, MIN_USERNAME_QUERY, UsernameMatch } from '../../services/inviteService';
+import type { SharedVisibility } from '../../services/privacyService';
+import { blockService, ReportReason, REPORT_REASONS } from '../../services/blockService';
+import { nudgeService, describeNudgeResult, NUDGE_MESSAGE_MAX, NUDGE_TEMPLATES } from '../../services/nudgeService';
 
 
 type SessionT = { user: { id: string; email?: string | null } | null } | null;
@@ -21,7 +28,7 @@ type BuddyLink = {
   receiver_seen_at: string | null;
 };
 
-type ProfileLite = { id: string; email: string | null; username: string | null };
+type ProfileLite = { id: string; displayName: string | null; visibility: SharedVisibility | null };
 type PrayerKey = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
 const PRAYERS: PrayerKey[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
 
@@ -30,27 +37,119 @@ type TabType = 'buddies' | 'requests';
 interface BuddyData {
   id: string;
   name: string;
-  email: string;
   avatar: string;
+  /** What the buddy shares with you; null until their profile loads */
+  visibility: SharedVisibility | null;
   streak: number;
   todayPrayers: string;
+  // e.g. "2 on time · 1 late"; empty when nothing prayed yet
+  todayBreakdown: string;
   status: 'online' | 'offline';
   lastActive: string;
   link: BuddyLink;
   todayMap: Record<string, boolean>;
+  badges: BadgeId[];
+  prayerStreaks: PrayerStreaks | null;
 }
 
 interface AddBuddyModalProps {
   visible: boolean;
-  inviteEmail: string;
-  inviting: boolean;
+  inviteCode: string | null;
+  friendCode: string;
+  redeeming: boolean;
   onClose: () => void;
-  onEmailChange: (email: string) => void;
-  onSendInvite: () => void;
+  onFriendCodeChange: (code: string) => void;
+  onRedeem: () => void;
+  onShare: () => void;
+  onNewCode: () => void;
+  onBuddyRequested: () => void;
+}
+
+// Search-as-you-type over discoverable usernames
+function UsernameSearch({ onRequested }: { onRequested: () => void }) {
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<UsernameMatch[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [requestingId, setRequestingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (query.trim().length < MIN_USERNAME_QUERY) {
+      setMatches([]);
+      setSearching(false);
+      return;
+    }
+    setSearching(true);
+    let cancelled = false;
+    // Wait for a pause in typing before searching
+    const timer = setTimeout(async () => {
+      const results = await inviteService.searchUsernames(query);
+      if (cancelled) return;
+      setMatches(results);
+      setSearching(false);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const request = async (match: UsernameMatch) => {
+    setRequestingId(match.userId);
+    try {
+      const { result, error } = await inviteService.requestBuddy(match.userId);
+      if (!result) return Alert.alert('Request failed', error ?? 'Unknown error');
+      const { title, message } = describeRedeemResult(result);
+      Alert.alert(title, message);
+      setQuery('');
+      onRequested();
+    } finally {
+      setRequestingId(null);
+    }
+  };
+
+  const tooShort = query.trim().length < MIN_USERNAME_QUERY;
+
+  return (
+    <View style={styles.modalCard}>
+      <Text style={styles.modalSectionTitle}>Find by Username</Text>
+      <TextInput
+        style={styles.modalInput}
+        placeholder="Search usernames"
+        placeholderTextColor="#9CA3AF"
+        value={query}
+        onChangeText={setQuery}
+        autoCapitalize="none"
+        autoCorrect={false}
+        maxLength={30}
+      />
+      {searching ? (
+        <ActivityIndicator size="small" color="#4F46E5" />
+      ) : !tooShort && matches.length === 0 ? (
+        <Text style={styles.searchEmpty}>No users found</Text>
+      ) : (
+        matches.map((match) => (
+          <View key={match.userId} style={styles.searchResult}>
+            <Text style={styles.searchResultName}>@{match.username}</Text>
+            <TouchableOpacity
+              style={styles.searchAddButton}
+              onPress={() => request(match)}
+              disabled={requestingId !== null}
+            >
+              {requestingId === match.userId ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.searchAddText}>Add</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+    </View>
+  );
 }
 
 // Memoized AddBuddyModal component to prevent re-renders
-const AddBuddyModal = memo(({ visible, inviteEmail, inviting, onClose, onEmailChange, onSendInvite }: AddBuddyModalProps) => (
+const AddBuddyModal = memo(({ visible, inviteCode, friendCode, redeeming, onClose, onFriendCodeChange, onRedeem, onShare, onNewCode, onBuddyRequested }: AddBuddyModalProps) => (
   <Modal
     visible={visible}
     animationType="slide"
@@ -66,33 +165,51 @@ const AddBuddyModal = memo(({ visible, inviteEmail, inviting, onClose, onEmailCh
         <View style={{ width: 60 }} />
       </View>
       
-      <View style={styles.modalContent}>
+      <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+        <UsernameSearch onRequested={onBuddyRequested} />
+
         <View style={styles.modalCard}>
-          <Text style={styles.modalSectionTitle}>Invite by Email</Text>
+          <Text style={styles.modalSectionTitle}>Your Invite Code</Text>
           <Text style={styles.modalDescription}>
-            Enter your friend's email address to send them a prayer buddy invitation.
+            Share your link or code with a friend. Opening the link sends you a buddy request.
           </Text>
           
+          <Text style={styles.inviteCode}>{inviteCode ?? '······'}</Text>
+          
+          <TouchableOpacity 
+            style={[styles.modalSendButton, !inviteCode && styles.modalSendButtonDisabled]}
+            onPress={onShare}
+            disabled={!inviteCode}
+          >
+            <Text style={styles.modalSendButtonText}>Share Invite Link</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.newCodeButton} onPress={onNewCode} disabled={!inviteCode}>
+            <Text style={styles.newCodeText}>Get a new code</Text>
+          </TouchableOpacity>
+        </View>
+        
+        <View style={styles.modalCard}>
+          <Text style={styles.modalSectionTitle}>Have a Code?</Text>
           <TextInput
             style={styles.modalInput}
-            placeholder="Enter email address"
+            placeholder="Enter your friend's code"
             placeholderTextColor="#9CA3AF"
-            value={inviteEmail}
-            onChangeText={onEmailChange}
-            keyboardType="email-address"
-            autoCapitalize="none"
+            value={friendCode}
+            onChangeText={onFriendCodeChange}
+            autoCapitalize="characters"
             autoCorrect={false}
+            maxLength={12}
           />
           
           <TouchableOpacity 
-            style={[styles.modalSendButton, (!inviteEmail.trim() || inviting) && styles.modalSendButtonDisabled]}
-            onPress={onSendInvite}
-            disabled={!inviteEmail.trim() || inviting}
+            style={[styles.modalSendButton, (!friendCode.trim() || redeeming) && styles.modalSendButtonDisabled]}
+            onPress={onRedeem}
+            disabled={!friendCode.trim() || redeeming}
           >
-            {inviting ? (
+            {redeeming ? (
               <ActivityIndicator size="small" color="#ffffff" />
             ) : (
-              <Text style={styles.modalSendButtonText}>Send Invitation</Text>
+              <Text style={styles.modalSendButtonText}>Add Buddy</Text>
             )}
           </TouchableOpacity>
         </View>
@@ -104,13 +221,13 @@ const AddBuddyModal = memo(({ visible, inviteEmail, inviting, onClose, onEmailCh
               <View style={styles.modalStepNumber}>
                 <Text style={styles.modalStepNumberText}>1</Text>
               </View>
-              <Text style={styles.modalStepText}>Enter your friend's email address</Text>
+              <Text style={styles.modalStepText}>Search a username, share your invite link, or enter a friend's code</Text>
             </View>
             <View style={styles.modalStep}>
               <View style={styles.modalStepNumber}>
                 <Text style={styles.modalStepNumberText}>2</Text>
               </View>
-              <Text style={styles.modalStepText}>They'll receive an invitation to be your prayer buddy</Text>
+              <Text style={styles.modalStepText}>They get a prayer buddy request</Text>
             </View>
             <View style={styles.modalStep}>
               <View style={styles.modalStepNumber}>
@@ -120,18 +237,183 @@ const AddBuddyModal = memo(({ visible, inviteEmail, inviting, onClose, onEmailCh
             </View>
           </View>
         </View>
-      </View>
+      </ScrollView>
     </SafeAreaView>
   </Modal>
 ));
 
+// Reports a user for review and blocks them
+function ReportModal({ target, onClose, onReported }: {
+  target: { id: string; name: string } | null;
+  onClose: () => void;
+  onReported: () => void;
+}) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason(null);
+    setDetails('');
+  }, [target]);
+
+  const submit = async () => {
+    if (!target || !reason) return;
+    setSubmitting(true);
+    try {
+      const { error } = await blockService.block(target.id, { reason, details });
+      if (error) return Alert.alert('Report failed', error);
+      Alert.alert('Thanks for reporting', `${target.name} is blocked. We will review your report.`);
+      onReported();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!target} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Report {target?.name}</Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.modalCard}>
+            <Text style={styles.modalSectionTitle}>What is wrong?</Text>
+            <View style={styles.reasonChips}>
+              {REPORT_REASONS.map((r) => (
+                <Pressable
+                  key={r.key}
+                  onPress={() => setReason(r.key)}
+                  style={[styles.reasonChip, reason === r.key && styles.reasonChipActive]}
+                >
+                  <Text style={[styles.reasonChipText, reason === r.key && styles.reasonChipTextActive]}>{r.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <TextInput
+              style={[styles.modalInput, styles.reportDetails]}
+              placeholder="Anything else we should know? (optional)"
+              placeholderTextColor="#9CA3AF"
+              value={details}
+              onChangeText={setDetails}
+              multiline
+              maxLength={1000}
+            />
+            <Text style={styles.modalDescription}>
+              Reporting also blocks them. They will not be told.
+            </Text>
+            <TouchableOpacity
+              style={[styles.modalSendButton, (!reason || submitting) && styles.modalSendButtonDisabled]}
+              onPress={submit}
+              disabled={!reason || submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.modalSendButtonText}>Report and Block</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+// Nudges a buddy, with an optional message of their own or from a template
+function NudgeModal({ target, onClose, onSend }: {
+  target: { id: string; name: string; prayer: PrayerKey } | null;
+  onClose: () => void;
+  onSend: (message: string) => Promise<void>;
+}) {
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    setMessage('');
+  }, [target]);
+
+  const send = async () => {
+    setSending(true);
+    try {
+      await onSend(message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!target} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Nudge {target?.name}</Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.modalCard}>
+            <Text style={styles.modalSectionTitle}>{target ? `${prettyPrayer(target.prayer)} prayer` : ''}</Text>
+            <Text style={styles.modalDescription}>Add a message, or send the nudge on its own.</Text>
+            <View style={styles.reasonChips}>
+              {NUDGE_TEMPLATES.map((template) => (
+                <Pressable
+                  key={template.id}
+                  onPress={() => setMessage(template.text)}
+                  style={[styles.reasonChip, message === template.text && styles.reasonChipActive]}
+                >
+                  <Text style={[styles.reasonChipText, message === template.text && styles.reasonChipTextActive]}>
+                    {template.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <TextInput
+              style={[styles.modalInput, styles.reportDetails, { marginBottom: 4 }]}
+              placeholder="Write a message (optional)"
+              placeholderTextColor="#9CA3AF"
+              value={message}
+              onChangeText={setMessage}
+              multiline
+              maxLength={NUDGE_MESSAGE_MAX}
+            />
+            <Text style={styles.messageCount}>
+              {message.length}/{NUDGE_MESSAGE_MAX}
+            </Text>
+            <TouchableOpacity
+              style={[styles.modalSendButton, sending && styles.modalSendButtonDisabled]}
+              onPress={send}
+              disabled={sending}
+            >
+              {sending ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.modalSendButtonText}>Send Nudge</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
 export default function Buddy() {
+  const router = useRouter();
   const [session, setSession] = useState<SessionT>(null);
   const me = session?.user?.id || null;
-  const today = useMemo(() => dayjs().format('YYYY-MM-DD'), []);
+  const today = useMemo(() => prayerDayClock.today(), []);
 
-  const [inviteEmail, setInviteEmail] = useState('');
-  const [inviting, setInviting] = useState(false);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [friendCode, setFriendCode] = useState('');
+  const [redeeming, setRedeeming] = useState(false);
 
   const [links, setLinks] = useState<BuddyLink[]>([]);
   const [profiles, setProfiles] = useState<Record<string, ProfileLite>>({});
@@ -139,17 +421,27 @@ export default function Buddy() {
 
   // buddies' check-ins for today: userId -> prayer -> boolean
   const [feed, setFeed] = useState<Record<string, Partial<Record<PrayerKey, boolean>>>>({});
+  // on time / late / qada for each completed check-in
+  const [feedStatus, setFeedStatus] = useState<Record<string, Partial<Record<PrayerKey, CheckinStatus | null>>>>({});
+  // Prayers completed today, for buddies who share a daily summary instead of each prayer
+  const [summaries, setSummaries] = useState<Record<string, number>>({});
   const [refreshing, setRefreshing] = useState(false);
 
-  // Outgoing nudges today (kept for display/logic if needed; unlimited nudges still allowed)
+  // Prayers nudged about today, per buddy; the server allows one nudge per prayer
   const [nudgedFromMe, setNudgedFromMe] = useState<Record<string, Partial<Record<PrayerKey, boolean>>>>({});
+  // Nudges left before the server's daily cap; null until loaded
+  const [nudgesLeft, setNudgesLeft] = useState<number | null>(null);
 
   // Temporary cooldown to prevent accidental rapid-fire nudges: userId -> expiresAt ms
   const [cooldown, setCooldown] = useState<Record<string, number>>({});
   const [activeTab, setActiveTab] = useState<TabType>('buddies');
   const [searchText, setSearchText] = useState('');
   const [streakData, setStreakData] = useState<Record<string, { currentStreak: number; longestStreak: number; lastActive: string | null }>>({});
+  const [buddyBadges, setBuddyBadges] = useState<Record<string, BadgeId[]>>({});
+  const [prayerStreaks, setPrayerStreaks] = useState<Record<string, PrayerStreaks>>({});
   const [showAddBuddyModal, setShowAddBuddyModal] = useState(false);
+  const [reportTarget, setReportTarget] = useState<{ id: string; name: string } | null>(null);
+  const [nudgeTarget, setNudgeTarget] = useState<{ id: string; name: string; prayer: PrayerKey } | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data }) => setSession(data.session ?? null));
@@ -172,7 +464,7 @@ export default function Buddy() {
     if (!me) return;
     const boot = async () => {
       await updateLastActive(); // Update last active on component mount
-      await Promise.all([loadLinks(), loadFeed(), loadOutgoingNudges(), loadStreakData()]);
+      await Promise.all([loadLinks(), loadFeed(), loadOutgoingNudges(), loadStreakData(), loadPrayerStreaks()]);
       setLoading(false);
     };
     boot();
@@ -186,6 +478,7 @@ export default function Buddy() {
     // Less frequent polling for streak data since it changes less often
     const streakPollId = setInterval(() => {
       loadStreakData();
+      loadPrayerStreaks();
     }, 30000); // 30 seconds instead of 8 seconds
 
     // Also refresh on app resume and update last active
@@ -195,6 +488,7 @@ export default function Buddy() {
         loadFeed();
         loadOutgoingNudges();
         loadStreakData();
+        loadPrayerStreaks();
       }
     });
 
@@ -229,6 +523,7 @@ export default function Buddy() {
     const ch = supabase
       .channel(`buddy_live_${me}`)
       .on('postgres_changes', { event: '*', schema: 'public', table: 'prayer_checkins' }, loadFeed)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'prayer_checkins' }, loadPrayerStreaks)
       .on('postgres_changes', { event: '*', schema: 'public', table: 'buddy_links', filter: `user_a=eq.${me}` }, loadLinks)
       .on('postgres_changes', { event: '*', schema: 'public', table: 'buddy_links', filter: `user_b=eq.${me}` }, loadLinks)
       .on('postgres_changes', { event: '*', schema: 'public', table: 'nudges', filter: `from_user=eq.${me}` }, loadOutgoingNudges)
@@ -260,9 +555,10 @@ export default function Buddy() {
       ids.add(bl.user_b);
     });
     if (ids.size) {
+      // Other users' profiles are only readable through buddy_profiles, which leaves out emails
       const { data: profs, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id,email,username')
+        .from('buddy_profiles')
+        .select('id,display_name,visibility')
         .in('id', Array.from(ids));
       
       if (profilesError) {
@@ -271,7 +567,7 @@ export default function Buddy() {
       }
       
       const map: Record<string, ProfileLite> = {};
-      (profs || []).forEach((p) => (map[p.id] = { id: p.id, email: p.email ?? null, username: p.username ?? null }));
+      (profs || []).forEach((p) => (map[p.id] = { id: p.id, displayName: p.display_name ?? null, visibility: p.visibility ?? null }));
       setProfiles(map);
     }
   };
@@ -285,23 +581,40 @@ export default function Buddy() {
     if (!me) return;
     const ids = acceptedBuddies();
     if (!ids.length) return setFeed({});
-    const { data, error } = await supabase
-      .from('prayer_checkins')
-      .select('user_id,prayer,completed')
-      .eq('day', today)
-      .in('user_id', ids);
+    // Check-ins are only readable for buddies sharing full detail; summaries cover the rest
+    const [{ data, error }, { data: summaryRows, error: summaryError }] = await Promise.all([
+      supabase
+        .from('prayer_checkins')
+        .select('user_id,prayer,completed,status')
+        .eq('day', today)
+        .in('user_id', ids),
+      supabase
+        .from('buddy_daily_summaries')
+        .select('user_id,prayers_completed')
+        .eq('day', today)
+        .in('user_id', ids),
+    ]);
     if (error) {
       console.warn('Error loading prayer feed:', error.message);
       return;
     }
+    if (summaryError) {
+      console.warn('Error loading prayer summaries:', summaryError.message);
+    } else {
+      setSummaries(Object.fromEntries((summaryRows || []).map((row) => [row.user_id as string, row.prayers_completed as number])));
+    }
     const map: Record<string, Partial<Record<PrayerKey, boolean>>> = {};
+    const statusMap: Record<string, Partial<Record<PrayerKey, CheckinStatus | null>>> = {};
     (data || []).forEach((row: any) => {
       const u = row.user_id as string;
       const p = row.prayer as PrayerKey;
       if (!map[u]) map[u] = {};
+      if (!statusMap[u]) statusMap[u] = {};
       map[u][p] = !!row.completed;
+      statusMap[u][p] = row.completed ? row.status : null;
     });
     setFeed(map);
+    setFeedStatus(statusMap);
   };
 
   const loadStreakData = async () => {
@@ -310,7 +623,11 @@ export default function Buddy() {
     if (!ids.length) return setStreakData({});
     
     try {
-      const streakResults = await streakService.getMultipleUsersStreakData(ids);
+      const [streakResults, badges] = await Promise.all([
+        streakService.getMultipleUsersStreakData(ids),
+        badgeService.getEarnedForUsers(ids),
+      ]);
+      setBuddyBadges(badges);
       
       // Only update if we got valid data, preserve existing data on errors
       if (streakResults && Object.keys(streakResults).length > 0) {
@@ -338,21 +655,20 @@ export default function Buddy() {
     }
   };
 
+  // Per-prayer streaks; buddies whose data can't be read are left without
+  const loadPrayerStreaks = async () => {
+    if (!me) return;
+    const ids = acceptedBuddies();
+    if (!ids.length) return setPrayerStreaks({});
+    const result = await streakService.getMultipleUsersPrayerStreaks(ids);
+    if (Object.keys(result).length > 0) setPrayerStreaks(result);
+  };
+
   const loadOutgoingNudges = async () => {
     if (!me) return;
-    const { data } = await supabase
-      .from('nudges')
-      .select('to_user,prayer')
-      .eq('from_user', me)
-      .eq('day', today);
-    const map: Record<string, Partial<Record<PrayerKey, boolean>>> = {};
-    (data || []).forEach((r: any) => {
-      const u = r.to_user as string;
-      const p = r.prayer as PrayerKey;
-      if (!map[u]) map[u] = {};
-      map[u][p] = true;
-    });
-    setNudgedFromMe(map);
+    const [sent, remaining] = await Promise.all([nudgeService.getSentToday(), nudgeService.getRemaining()]);
+    setNudgedFromMe(sent);
+    setNudgesLeft(remaining);
   };
 
   const nextDuePrayer = (userId: string): PrayerKey | null => {
@@ -369,48 +685,47 @@ export default function Buddy() {
     return PRAYERS.some((p) => todayMap[p] !== true);
   };
 
-  // Unlimited nudges: no duplicate restriction (ensure DB unique index is dropped)
-  const nudge = async (toUser: string) => {
+  // The server enforces the nudge limits, quiet hours and do-not-disturb, and says why it refused
+  const nudge = async (toUser: string, message: string) => {
     if (!me) return;
     const prayer = nextDuePrayer(toUser);
     if (!prayer) {
       Alert.alert('All set', 'Your buddy has completed all prayers today.');
       return;
     }
-    const { error } = await supabase.from('nudges').insert({
-      from_user: me,
-      to_user: toUser,
-      day: today,
-      prayer
-    });
-    if (error) {
-      Alert.alert('Nudge failed', error.message);
-    } else {
-      // Send push notification to buddy
-      const fromUserEmail = session?.user?.email || 'Your buddy';
-      await pushNotificationService.sendNudgeNotification(
-        toUser,
-        fromUserEmail,
-        prayer
-      );
-      
-      Alert.alert('Nudge sent!', `${profiles[toUser]?.email || 'Your buddy'} has been nudged about ${prayer} prayer.`);
-      
-      // Optional refresh
-      await loadOutgoingNudges();
+    const { result, error } = await nudgeService.send(toUser, prayer, message);
+    if (!result) {
+      Alert.alert('Nudge failed', error ?? 'Unknown error');
+      return;
     }
+    // The database sends the buddy a push notification for each nudge it accepts
+    setNudgesLeft(result.remaining);
+    setNudgeTarget(null);
+
+    const described = describeNudgeResult(result, profiles[toUser]?.displayName || 'Your buddy', prayer);
+    Alert.alert(described.title, described.message);
+    await loadOutgoingNudges();
   };
 
 
 
-  const onNudgePress = async (userId: string) => {
+  const openNudge = (userId: string, name: string) => {
+    const prayer = nextDuePrayer(userId);
+    if (!prayer) {
+      Alert.alert('All set', 'Your buddy has completed all prayers today.');
+      return;
+    }
+    setNudgeTarget({ id: userId, name, prayer });
+  };
+
+  const onNudgePress = async (userId: string, message: string) => {
     const now = Date.now();
     const until = cooldown[userId] || 0;
     if (until && until > now) return; // still cooling down
     // set 1.5s cooldown
     setCooldown((c) => ({ ...c, [userId]: now + 1500 }));
     try {
-      await nudge(userId);
+      await nudge(userId, message);
     } finally {
       setTimeout(() => {
         setCooldown((c) => {
@@ -425,65 +740,57 @@ export default function Buddy() {
   // Mark all today's incoming nudges as seen (clears Home banner)
   const markNudgesSeen = async () => {
     if (!me) return;
-    const { error } = await supabase
-      .from('nudges')
-      .update({ seen_at: new Date().toISOString() })
-      .eq('to_user', me)
-      .eq('day', today)
-      .is('seen_at', null);
-    if (error) {
-      Alert.alert('Error', error.message);
-    } else {
-      Alert.alert('All set', 'Nudges marked as seen.');
-    }
+    // Queued so it also goes through offline
+    await syncQueue.enqueue({ kind: 'nudges_seen', userId: me, day: today });
+    Alert.alert('All set', 'Nudges marked as seen.');
   };
 
 
 
 
 
-  const sendInvite = async () => {
+  const redeemCode = async () => {
     if (!me) return;
-    const email = inviteEmail.trim().toLowerCase();
-    if (!email) return Alert.alert('Enter an email');
-    if (session?.user?.email?.toLowerCase() === email) return Alert.alert('You cannot invite yourself');
-    setInviting(true);
+    setRedeeming(true);
     try {
-      const { data: profiles, error: pe } = await supabase.from('profiles').select('id,email').eq('email', email);
-      
-      if (pe) {
-        console.error('Profile search error:', pe);
-        return Alert.alert('Search failed', `Error searching for user: ${pe.message}`);
-      }
-      
-      if (!profiles || profiles.length === 0) {
-        return Alert.alert('User not found', `No user found with email: ${email}\n\nMake sure they have created an account first.`);
-      }
-      
-      const prof = profiles[0];
-      
-      const targetId = prof.id as string;
-      const [ua, ub] = [me!, targetId].sort() as [string, string];
-      const { error: ie } = await supabase.from('buddy_links').insert({
-        user_a: ua,
-        user_b: ub,
-        created_by: me,
-        status: 'pending',
-        receiver_seen_at: null
-      });
-      if (ie) {
-        if ((ie as any).code === '23505') Alert.alert('Invite exists', 'A link already exists between you and this user.');
-        else Alert.alert('Invite failed', ie.message);
-      } else {
-        Alert.alert('Invite sent', `Invitation sent to ${email}.`);
-        setInviteEmail('');
-        await loadLinks();
-      }
+      const { result, error } = await inviteService.redeem(friendCode);
+      if (!result) return Alert.alert('Invite failed', error ?? 'Unknown error');
+      const { title, message } = describeRedeemResult(result);
+      Alert.alert(title, message);
+      setFriendCode('');
+      setShowAddBuddyModal(false);
+      await loadLinks();
     } finally {
-      setInviting(false);
+      setRedeeming(false);
+    }
+  };
+
+  const shareInvite = async () => {
+    if (!inviteCode) return;
+    const link = inviteService.inviteLink(inviteCode);
+    try {
+      await Share.share({
+        message: `Be my prayer buddy! Open ${link} or enter my code ${inviteCode} in the app.`,
+      });
+    } catch (error) {
+      console.error('Error sharing invite:', error);
     }
   };
 
+  const newInviteCode = () => {
+    Alert.alert('Get a new code?', 'Links and codes you already shared will stop working.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'New Code',
+        onPress: async () => {
+          const { code, error } = await inviteService.regenerateInviteCode();
+          if (error) Alert.alert('Could not change code', error);
+          else setInviteCode(code);
+        },
+      },
+    ]);
+  };
+
   const acceptInvite = async (linkId: string) => {
     const { error } = await supabase.from('buddy_links').update({ status: 'accepted' }).eq('id', linkId);
     if (error) Alert.alert('Error', error.message);
@@ -496,6 +803,29 @@ export default function Buddy() {
     await Promise.all([loadLinks(), loadFeed(), loadOutgoingNudges()]);
   };
 
+  const block = (userId: string, name: string) => {
+    Alert.alert(`Block ${name}?`, 'They will no longer be your buddy, and cannot send you requests, circle invites or nudges. They will not be told.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Block',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await blockService.block(userId);
+          if (error) Alert.alert('Could not block', error);
+          await Promise.all([loadLinks(), loadFeed(), loadOutgoingNudges()]);
+        },
+      },
+    ]);
+  };
+
+  const openUserActions = (userId: string, name: string) => {
+    Alert.alert(name, undefined, [
+      { text: 'Block', style: 'destructive', onPress: () => block(userId, name) },
+      { text: 'Report', onPress: () => setReportTarget({ id: userId, name }) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await Promise.all([loadLinks(), loadFeed(), loadOutgoingNudges(), loadStreakData()]);
@@ -512,13 +842,14 @@ export default function Buddy() {
     const other = me === bl.user_a ? bl.user_b : bl.user_a;
     const profile = profiles[other];
     const todayMap = feed[other] || {};
-    const completedPrayers = Object.values(todayMap).filter(Boolean).length;
-    // Better name extraction with multiple fallbacks - prioritize username
+    const visibility = profile?.visibility ?? null;
+    // Buddies sharing a summary only have a count; those sharing their streak have neither
+    const completedPrayers =
+      visibility === 'summary' ? summaries[other] ?? 0 : Object.values(todayMap).filter(Boolean).length;
+    // Display name is the username, with a placeholder for users without one
     let name = 'Loading...';
-    if (profile?.username) {
-      name = profile.username;
-    } else if (profile?.email) {
-      name = profile.email.split('@')[0];
+    if (profile?.displayName) {
+      name = profile.displayName;
     } else if (other) {
       // Use first 8 characters of user ID as fallback
       name = `User ${other.substring(0, 8)}`;
@@ -528,33 +859,37 @@ export default function Buddy() {
     return {
       id: other,
       name: name.charAt(0).toUpperCase() + name.slice(1),
-      email: profile?.email || other,
       avatar: name.charAt(0).toUpperCase(),
+      visibility,
       streak: userStreakData?.currentStreak ?? 0, // Use nullish coalescing for better handling
-      todayPrayers: `${completedPrayers}/5`,
+      todayPrayers: visibility === 'streak' || visibility === 'hidden' ? '—' : `${completedPrayers}/5`,
+      todayBreakdown:
+        visibility === 'hidden'
+          ? 'Activity hidden'
+          : visibility === 'streak'
+          ? 'Shares streak only'
+          : describeStatuses(todayMap, feedStatus[other] || {}),
       status: streakService.isUserOnline(userStreakData?.lastActive) ? 'online' : 'offline',
       lastActive: userStreakData?.lastActive ? streakService.formatLastActive(userStreakData.lastActive) : 'Never',
       link: bl,
-      todayMap
+      todayMap,
+      badges: buddyBadges[other] || [],
+      prayerStreaks: prayerStreaks[other] || null
     };
   });
 
   // Filter buddies based on search text
   const filteredBuddies = buddiesData.filter(buddy => 
-    buddy.name.toLowerCase().includes(searchText.toLowerCase()) ||
-    buddy.email.toLowerCase().includes(searchText.toLowerCase())
+    buddy.name.toLowerCase().includes(searchText.toLowerCase())
   );
 
   // Transform pending requests into request format
   const requestsData = pendingIncoming.map((bl) => {
     const other = me === bl.user_a ? bl.user_b : bl.user_a;
     const profile = profiles[other];
-    // Better name extraction with multiple fallbacks - prioritize username
     let name = 'Loading...';
-    if (profile?.username) {
-      name = profile.username;
-    } else if (profile?.email) {
-      name = profile.email.split('@')[0];
+    if (profile?.displayName) {
+      name = profile.displayName;
     } else if (other) {
       // Use first 8 characters of user ID as fallback
       name = `User ${other.substring(0, 8)}`;
@@ -563,7 +898,6 @@ export default function Buddy() {
     return {
       id: bl.id,
       name: name.charAt(0).toUpperCase() + name.slice(1),
-      email: profile?.email || other,
       avatar: name.charAt(0).toUpperCase(),
       link: bl
     };
@@ -572,7 +906,8 @@ export default function Buddy() {
   // Render functions for the new design
   const renderBuddy = ({ item }: { item: BuddyData }) => {
     const next = nextDuePrayer(item.id);
-    const active = canNudge(item.id);
+    // Nudges name the next prayer due, which needs the buddy's per-prayer detail
+    const active = item.visibility === 'full' && canNudge(item.id);
     const isCooling = !!cooldown[item.id] && cooldown[item.id] > Date.now();
 
     return (
@@ -587,13 +922,18 @@ export default function Buddy() {
           
           <View style={styles.buddyInfo}>
             <Text style={styles.buddyName}>{item.name}</Text>
-            <Text style={styles.lastActive}>Last active: {item.lastActive}</Text>
+            {(item.visibility === 'full' || item.visibility === 'summary') && (
+              <Text style={styles.lastActive}>Last active: {item.lastActive}</Text>
+            )}
+            {item.visibility === 'full' && next && nudgedFromMe[item.id]?.[next] && (
+              <Text style={styles.nudgedNote}>Nudged about {prettyPrayer(next)}</Text>
+            )}
           </View>
 
           <TouchableOpacity 
             style={[styles.nudgeBtn, (!active || isCooling) && styles.nudgeBtnDisabled]}
             disabled={!active || isCooling}
-            onPress={() => onNudgePress(item.id)}
+            onPress={() => openNudge(item.id, item.name)}
           >
             <Ionicons 
               name="hand-right-outline" 
@@ -601,21 +941,58 @@ export default function Buddy() {
               color={!active || isCooling ? '#9CA3AF' : '#4F46E5'} 
             />
           </TouchableOpacity>
+          <TouchableOpacity style={styles.moreBtn} onPress={() => openUserActions(item.id, item.name)}>
+            <Ionicons name="ellipsis-horizontal" size={20} color="#6B7280" />
+          </TouchableOpacity>
         </View>
 
         <View style={styles.buddyStats}>
           <View style={styles.statCard}>
             <View style={styles.statHeader}>
               <Ionicons name="trophy-outline" size={16} color="#F59E0B" />
-              <Text style={styles.statValue}>{item.streak}</Text>
+              <Text style={styles.statValue}>{item.visibility === 'hidden' ? '—' : item.streak}</Text>
             </View>
             <Text style={styles.statLabel}>Day Streak</Text>
           </View>
           <View style={styles.statCard}>
             <Text style={styles.statValue}>{item.todayPrayers}</Text>
             <Text style={styles.statLabel}>Today's Prayers</Text>
+            {!!item.todayBreakdown && <Text style={styles.statBreakdown}>{item.todayBreakdown}</Text>}
           </View>
         </View>
+
+        {item.prayerStreaks && (
+          <View style={styles.prayerStreakRow}>
+            {PRAYERS.map((p) => {
+              const streak = item.prayerStreaks![p];
+              return (
+                <View key={p} style={styles.prayerStreakItem}>
+                  <Text style={styles.prayerStreakName}>{p.charAt(0).toUpperCase() + p.slice(1)}</Text>
+                  <View style={styles.prayerStreakValue}>
+                    <Ionicons name="flame" size={12} color={streak.currentStreak > 0 ? '#F97316' : '#D1D5DB'} />
+                    <Text style={[styles.prayerStreakCount, !streak.currentStreak && { color: '#9CA3AF' }]}>
+                      {streak.currentStreak}
+                    </Text>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {item.badges.length > 0 && (
+          <View style={styles.badgeRow}>
+            {item.badges.map((id) => {
+              const badge = badgeService.getDefinition(id);
+              return (
+                <View key={id} style={[styles.badgeChip, { backgroundColor: `${badge.color}1A` }]}>
+                  <Ionicons name={badge.icon} size={14} color={badge.color} />
+                  <Text style={[styles.badgeChipText, { color: badge.color }]}>{badge.title}</Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
       </View>
     );
   };
@@ -630,6 +1007,12 @@ export default function Buddy() {
         <View style={styles.requestInfo}>
           <Text style={styles.requestName}>{item.name}</Text>
         </View>
+        <TouchableOpacity
+          style={styles.moreBtn}
+          onPress={() => openUserActions(item.link.created_by, item.name)}
+        >
+          <Ionicons name="ellipsis-horizontal" size={20} color="#6B7280" />
+        </TouchableOpacity>
       </View>
 
       <View style={styles.requestActions}>
@@ -648,40 +1031,74 @@ export default function Buddy() {
     setShowAddBuddyModal(false);
   }, []);
 
-  const handleEmailChange = useCallback((email: string) => {
-    setInviteEmail(email);
+  const handleFriendCodeChange = useCallback((code: string) => {
+    setFriendCode(code);
   }, []);
 
-  const handleSendInvite = useCallback(async () => {
+  const handleRedeem = useCallback(async () => {
     try {
-      await sendInvite();
-      if (!inviting) {
-        setShowAddBuddyModal(false);
-      }
+      await redeemCode();
     } catch (error) {
-      console.error('Error sending invite:', error);
+      console.error('Error redeeming invite code:', error);
     }
-  }, [sendInvite, inviting]);
+  }, [redeemCode]);
+
+  const handleBuddyRequested = useCallback(() => {
+    setShowAddBuddyModal(false);
+    loadLinks();
+  }, [loadLinks]);
+
+  const openAddBuddy = async () => {
+    setShowAddBuddyModal(true);
+    if (me && !inviteCode) setInviteCode(await inviteService.getInviteCode(me));
+  };
 
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.title}>Prayer Buddies</Text>
-        <TouchableOpacity style={styles.addButton} onPress={() => setShowAddBuddyModal(true)}>
-          <Ionicons name="add" size={24} color="white" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.addButton} onPress={() => router.push('/nudges')}>
+            <Ionicons name="mail-outline" size={22} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addButton} onPress={() => router.push('/circles')}>
+            <Ionicons name="people-circle-outline" size={24} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addButton} onPress={openAddBuddy}>
+            <Ionicons name="add" size={24} color="white" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <AddBuddyModal 
           visible={showAddBuddyModal}
-          inviteEmail={inviteEmail}
-          inviting={inviting}
+          inviteCode={inviteCode}
+          friendCode={friendCode}
+          redeeming={redeeming}
           onClose={handleModalClose}
-          onEmailChange={handleEmailChange}
-          onSendInvite={handleSendInvite}
+          onFriendCodeChange={handleFriendCodeChange}
+          onRedeem={handleRedeem}
+          onShare={shareInvite}
+          onNewCode={newInviteCode}
+          onBuddyRequested={handleBuddyRequested}
         />
 
+      <ReportModal
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
+        onReported={() => {
+          setReportTarget(null);
+          loadLinks();
+        }}
+      />
+
+      <NudgeModal
+        target={nudgeTarget}
+        onClose={() => setNudgeTarget(null)}
+        onSend={(message) => (nudgeTarget ? onNudgePress(nudgeTarget.id, message) : Promise.resolve())}
+      />
+
       <View style={styles.content}>
         {/* Search */}
         <View style={styles.searchContainer}>
@@ -715,6 +1132,12 @@ export default function Buddy() {
           </TouchableOpacity>
         </View>
 
+        {activeTab === 'buddies' && nudgesLeft !== null && filteredBuddies.length > 0 && (
+          <Text style={styles.nudgesLeft}>
+            {nudgesLeft === 0 ? 'No nudges left today' : `${nudgesLeft} nudge${nudgesLeft === 1 ? '' : 's'} left today`}
+          </Text>
+        )}
+
         {loading ? (
           <ActivityIndicator size="large" color="#4F46E5" style={{ marginTop: 50 }} />
         ) : activeTab === 'buddies' ? (
@@ -814,6 +1237,21 @@ function ChecklistRow({ label, done }: { label: string; done: boolean }) {
     </View>
   );
 }
+function describeStatuses(
+  done: Partial<Record<PrayerKey, boolean>>,
+  statuses: Partial<Record<PrayerKey, CheckinStatus | null>>
+) {
+  const completed = PRAYERS.filter((p) => done[p]);
+  // Check-ins without a status (older rows) count as on time
+  const late = completed.filter((p) => statuses[p] === 'late').length;
+  const qada = completed.filter((p) => statuses[p] === 'qada').length;
+  const onTime = completed.length - late - qada;
+  return [
+    onTime && `${onTime} on time`,
+    late && `${late} late`,
+    qada && `${qada} qada`,
+  ].filter(Boolean).join(' · ');
+}
 function prettyPrayer(p: PrayerKey) {
   switch (p) {
     case 'fajr':
@@ -980,6 +1418,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B7280'
   },
+  nudgedNote: {
+    fontSize: 12,
+    color: '#4F46E5',
+    marginTop: 2
+  },
+  nudgesLeft: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 8
+  },
   messageButton: {
     padding: 8,
     borderRadius: 8,
@@ -1012,6 +1460,57 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     textAlign: 'center'
   },
+  statBreakdown: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 2,
+    textAlign: 'center'
+  },
+  prayerStreakRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6'
+  },
+  prayerStreakItem: {
+    alignItems: 'center',
+    flex: 1
+  },
+  prayerStreakName: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginBottom: 2
+  },
+  prayerStreakValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2
+  },
+  prayerStreakCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937'
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 12
+  },
+  badgeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 12
+  },
+  badgeChipText: {
+    fontSize: 12,
+    fontWeight: '600'
+  },
   requestCard: {
     backgroundColor: '#ffffff',
     borderRadius: 16,
@@ -1086,6 +1585,10 @@ const styles = StyleSheet.create({
     fontWeight: '700', 
     color: '#ffffff'
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8
+  },
   addButton: {
     backgroundColor: '#6366F1',
     borderRadius: 20,
@@ -1269,6 +1772,43 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     marginBottom: 8
   },
+  moreBtn: {
+    padding: 8,
+    marginLeft: 8
+  },
+  reasonChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16
+  },
+  reasonChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6'
+  },
+  reasonChipActive: {
+    backgroundColor: '#4F46E5'
+  },
+  reasonChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151'
+  },
+  reasonChipTextActive: {
+    color: '#ffffff'
+  },
+  messageCount: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    textAlign: 'right',
+    marginBottom: 16
+  },
+  reportDetails: {
+    minHeight: 96,
+    textAlignVertical: 'top'
+  },
   modalDescription: {
     fontSize: 14,
     color: '#6B7280',
@@ -1308,6 +1848,52 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#ffffff'
   },
+  inviteCode: {
+    fontSize: 32,
+    fontWeight: '700',
+    letterSpacing: 6,
+    color: '#4F46E5',
+    textAlign: 'center',
+    marginBottom: 16
+  },
+  searchEmpty: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center'
+  },
+  searchResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6'
+  },
+  searchResultName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937'
+  },
+  searchAddButton: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+    minWidth: 64,
+    alignItems: 'center'
+  },
+  searchAddText: {
+    color: '#ffffff',
+    fontWeight: '600'
+  },
+  newCodeButton: {
+    alignItems: 'center',
+    paddingTop: 12
+  },
+  newCodeText: {
+    fontSize: 14,
+    color: '#6B7280'
+  },
   modalStepContainer: {
     gap: 16
   },
@@ -0,0 +1,554 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  SafeAreaView,
+  ScrollView,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '../../../lib/supabase';
+import { circleService, canRemoveMember, Circle, CircleMember } from '../../../services/circleService';
+import { inviteService, MIN_USERNAME_QUERY, UsernameMatch } from '../../../services/inviteService';
+import { PRAYER_KEYS } from '../../../services/prayerTimes';
+
+// Group dashboard: each member's five prayers for today, plus membership management
+export default function CircleDashboard() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const navigation = useNavigation();
+  const [uid, setUid] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [circle, setCircle] = useState<Circle | null>(null);
+  const [members, setMembers] = useState<CircleMember[]>([]);
+  const [showInvite, setShowInvite] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUid(data.session?.user?.id ?? null));
+    const { data: listener } = supabase.auth.onAuthStateChange((_e, s) => setUid(s?.user?.id ?? null));
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!uid || !id) return;
+    const circles = await circleService.getCircles(uid);
+    const current = circles.find((c) => c.id === id && c.status === 'active') ?? null;
+    setCircle(current);
+    setMembers(current ? await circleService.getDashboard(id) : []);
+    setLoading(false);
+  }, [uid, id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  useEffect(() => {
+    navigation.setOptions({ title: circle?.name ?? 'Circle' });
+  }, [navigation, circle?.name]);
+
+  // Members' check-ins are readable through circle RLS, so realtime delivers them
+  useEffect(() => {
+    if (!uid || !id) return;
+    const ch = supabase
+      .channel(`circle_live_${id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'prayer_checkins' }, load)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'circle_members', filter: `circle_id=eq.${id}` }, load)
+      .subscribe();
+    return () => {
+      supabase.removeChannel(ch);
+    };
+  }, [uid, id, load]);
+
+  const run = async (action: Promise<{ error: string | null }>) => {
+    const { error } = await action;
+    if (error) Alert.alert('Something went wrong', error);
+    await load();
+  };
+
+  const manage = (member: CircleMember) => {
+    if (!circle || member.userId === uid || !canRemoveMember(circle.role, member.role)) return;
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [];
+    if (circle.role === 'owner' && member.status === 'active') {
+      const role = member.role === 'admin' ? 'member' : 'admin';
+      buttons.push({
+        text: role === 'admin' ? 'Make admin' : 'Remove admin role',
+        onPress: () => run(circleService.setRole(circle.id, member.userId, role)),
+      });
+    }
+    buttons.push({
+      text: member.status === 'invited' ? 'Cancel invite' : 'Remove from circle',
+      style: 'destructive',
+      onPress: () => run(circleService.removeMember(circle.id, member.userId)),
+    });
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+    Alert.alert(member.name, undefined, buttons);
+  };
+
+  const leave = () => {
+    if (!circle) return;
+    const others = members.filter((m) => m.status === 'active' && m.userId !== uid).length;
+    const message =
+      circle.role === 'owner'
+        ? others > 0
+          ? 'Ownership passes to an admin, or the longest-standing member.'
+          : 'You are the last member, so the circle will be deleted.'
+        : 'You can rejoin if someone invites you again.';
+    Alert.alert(`Leave ${circle.name}?`, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await circleService.leave(circle.id);
+          if (error) {
+            Alert.alert('Could not leave', error);
+            return;
+          }
+          router.navigate('/circles');
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator size="large" color="#4F46E5" style={{ marginTop: 50 }} />
+      </SafeAreaView>
+    );
+  }
+
+  if (!circle) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.muted}>You are not a member of this circle.</Text>
+          </View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const active = members.filter((m) => m.status === 'active');
+  const invited = members.filter((m) => m.status === 'invited');
+  // Totals only count members who share at least a daily summary
+  const counted = active.filter((m) => m.prayersDone !== null);
+  const done = counted.reduce((sum, m) => sum + (m.prayersDone ?? 0), 0);
+  const possible = counted.length * PRAYER_KEYS.length;
+  const fullDays = counted.filter((m) => m.prayersDone === PRAYER_KEYS.length).length;
+  const canManage = circle.role !== 'member';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Summary */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Today</Text>
+          <Text style={styles.bigNumber}>
+            {done}/{possible}
+          </Text>
+          <Text style={styles.muted}>prayers checked in across the circle</Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${possible ? Math.round((done / possible) * 100) : 0}%` }]} />
+          </View>
+          <Text style={styles.muted}>
+            {fullDays} of {counted.length} {counted.length === 1 ? 'member has' : 'members have'} prayed all five
+          </Text>
+          {counted.length < active.length && (
+            <Text style={styles.hint}>
+              {active.length - counted.length} {active.length - counted.length === 1 ? 'member doesn\'t' : 'members don\'t'} share
+              their daily prayers
+            </Text>
+          )}
+        </View>
+
+        {/* Members */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Members</Text>
+          {active.map((member) => (
+            <Pressable key={member.userId} style={styles.memberRow} onPress={() => manage(member)}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.memberName}>
+                  {member.userId === uid ? 'You' : member.name}
+                  {member.role !== 'member' && <Text style={styles.role}>  {member.role}</Text>}
+                </Text>
+                {member.completed ? (
+                  <View style={styles.prayerDots}>
+                    {PRAYER_KEYS.map((prayer) => {
+                      const prayed = member.completed!.includes(prayer);
+                      return (
+                        <View key={prayer} style={[styles.prayerDot, prayed && styles.prayerDotDone]}>
+                          <Text style={[styles.prayerDotText, prayed && styles.prayerDotTextDone]}>
+                            {prayer.charAt(0).toUpperCase()}
+                          </Text>
+                        </View>
+                      );
+                    })}
+                  </View>
+                ) : (
+                  <Text style={styles.hint}>
+                    {member.prayersDone !== null
+                      ? 'Shares a daily summary'
+                      : member.visibility === 'hidden'
+                      ? 'Activity hidden'
+                      : 'Shares streak only'}
+                  </Text>
+                )}
+              </View>
+              <Text style={styles.count}>{member.prayersDone !== null ? `${member.prayersDone}/5` : '—'}</Text>
+            </Pressable>
+          ))}
+          {canManage && <Text style={styles.hint}>Tap a member to change their role or remove them</Text>}
+        </View>
+
+        {/* Pending invites */}
+        {invited.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Invited</Text>
+            {invited.map((member) => (
+              <Pressable key={member.userId} style={styles.memberRow} onPress={() => manage(member)}>
+                <Text style={[styles.memberName, { flex: 1 }]}>{member.name}</Text>
+                <Text style={styles.muted}>Pending</Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
+
+        {canManage && (
+          <TouchableOpacity style={styles.primaryButton} onPress={() => setShowInvite(true)}>
+            <Ionicons name="person-add-outline" size={18} color="white" />
+            <Text style={styles.primaryButtonText}>Invite Members</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.leaveButton} onPress={leave}>
+          <Text style={styles.leaveButtonText}>Leave Circle</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {uid && (
+        <InviteModal
+          visible={showInvite}
+          userId={uid}
+          circleId={circle.id}
+          memberIds={members.map((m) => m.userId)}
+          onClose={() => setShowInvite(false)}
+          onInvited={load}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+interface Invitee {
+  userId: string;
+  name: string;
+}
+
+// Accepted buddies, who can be invited without being discoverable
+async function loadBuddies(userId: string): Promise<Invitee[]> {
+  const { data: links, error } = await supabase
+    .from('buddy_links')
+    .select('user_a, user_b')
+    .eq('status', 'accepted')
+    .or(`user_a.eq.${userId},user_b.eq.${userId}`);
+  if (error) {
+    console.error('Error loading buddies:', error);
+    return [];
+  }
+  const ids = (links || []).map((l) => (l.user_a === userId ? l.user_b : l.user_a));
+  if (!ids.length) return [];
+  const { data: profiles, error: profilesError } = await supabase
+    .from('buddy_profiles')
+    .select('id, display_name')
+    .in('id', ids);
+  if (profilesError) {
+    console.error('Error loading buddy profiles:', profilesError);
+    return [];
+  }
+  return (profiles || []).map((p) => ({
+    userId: p.id,
+    name: p.display_name || 'Buddy',
+  }));
+}
+
+interface InviteModalProps {
+  visible: boolean;
+  userId: string;
+  circleId: string;
+  /** Members and pending invites, who can't be invited again */
+  memberIds: string[];
+  onClose: () => void;
+  onInvited: () => void;
+}
+
+function InviteModal({ visible, userId, circleId, memberIds, onClose, onInvited }: InviteModalProps) {
+  const [buddies, setBuddies] = useState<Invitee[]>([]);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<UsernameMatch[]>([]);
+  const [invitingId, setInvitingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) loadBuddies(userId).then(setBuddies);
+  }, [visible, userId]);
+
+  useEffect(() => {
+    if (query.trim().length < MIN_USERNAME_QUERY) {
+      setMatches([]);
+      return;
+    }
+    let cancelled = false;
+    // Wait for a pause in typing before searching
+    const timer = setTimeout(async () => {
+      const results = await inviteService.searchUsernames(query);
+      if (!cancelled) setMatches(results);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const invite = async (invitee: Invitee) => {
+    setInvitingId(invitee.userId);
+    const { error } = await circleService.invite(circleId, invitee.userId);
+    setInvitingId(null);
+    if (error) {
+      Alert.alert('Could not invite', error);
+      return;
+    }
+    onInvited();
+  };
+
+  const searching = query.trim().length >= MIN_USERNAME_QUERY;
+  const candidates: Invitee[] = searching
+    ? matches.map((m) => ({ userId: m.userId, name: `@${m.username}` }))
+    : buddies;
+  const available = candidates.filter((c) => !memberIds.includes(c.userId));
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancelText}>Done</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Invite Members</Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <TextInput
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search usernames"
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+            maxLength={30}
+          />
+          <Text style={styles.label}>{searching ? 'Search results' : 'Your buddies'}</Text>
+          {available.length === 0 ? (
+            <Text style={styles.muted}>
+              {searching ? 'No users found' : 'All your buddies are already in this circle.'}
+            </Text>
+          ) : (
+            available.map((invitee) => (
+              <View key={invitee.userId} style={styles.memberRow}>
+                <Text style={[styles.memberName, { flex: 1 }]}>{invitee.name}</Text>
+                <Pressable
+                  onPress={() => invite(invitee)}
+                  style={styles.buttonSmall}
+                  disabled={invitingId !== null}
+                >
+                  {invitingId === invitee.userId ? (
+                    <ActivityIndicator size="small" color="#0077ff" />
+                  ) : (
+                    <Text style={styles.buttonSmallText}>Invite</Text>
+                  )}
+                </Pressable>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  bigNumber: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  hint: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 8,
+    backgroundColor: '#10B981',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  role: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4F46E5',
+    textTransform: 'capitalize',
+  },
+  prayerDots: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 6,
+  },
+  prayerDot: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  prayerDotDone: {
+    backgroundColor: '#10B981',
+  },
+  prayerDotText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#9CA3AF',
+  },
+  prayerDotTextDone: {
+    color: 'white',
+  },
+  count: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 14,
+    backgroundColor: '#ffffff',
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  buttonSmall: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: '#eef5ff' },
+  buttonSmallText: { color: '#0077ff', fontWeight: '600' },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#4F46E5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  leaveButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  leaveButtonText: {
+    color: '#EF4444',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: '#6366F1',
+    fontWeight: '500',
+  },
+});
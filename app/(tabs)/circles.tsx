@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  SafeAreaView,
+  ScrollView,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '../../lib/supabase';
+import { circleService, Circle } from '../../services/circleService';
+
+// Circles the user is in, invites to respond to, and creating a new circle
+export default function Circles() {
+  const router = useRouter();
+  const [uid, setUid] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [circles, setCircles] = useState<Circle[]>([]);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUid(data.session?.user?.id ?? null));
+    const { data: listener } = supabase.auth.onAuthStateChange((_e, s) => setUid(s?.user?.id ?? null));
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!uid) return;
+    setCircles(await circleService.getCircles(uid));
+    setLoading(false);
+  }, [uid]);
+
+  // Hidden tabs stay mounted, so refresh whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const open = (circle: Circle) => {
+    router.push({ pathname: '/circle/[id]', params: { id: circle.id } });
+  };
+
+  const create = async () => {
+    setBusy(true);
+    const { id, error } = await circleService.createCircle(name);
+    setBusy(false);
+    if (!id) {
+      Alert.alert('Could not create circle', error ?? 'Unknown error');
+      return;
+    }
+    setName('');
+    await load();
+    router.push({ pathname: '/circle/[id]', params: { id } });
+  };
+
+  const respond = async (circle: Circle, accept: boolean) => {
+    setBusy(true);
+    const { error } = await circleService.respondToInvite(circle.id, accept);
+    setBusy(false);
+    if (error) Alert.alert('Could not respond', error);
+    await load();
+  };
+
+  const joined = circles.filter((c) => c.status === 'active');
+  const invites = circles.filter((c) => c.status === 'invited');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <ActivityIndicator size="large" color="#4F46E5" style={{ marginTop: 50 }} />
+        ) : (
+          <>
+            {invites.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Invites</Text>
+                {invites.map((circle) => (
+                  <View key={circle.id} style={styles.row}>
+                    <Text style={styles.circleName}>{circle.name}</Text>
+                    <Pressable onPress={() => respond(circle, true)} style={styles.buttonSmall} disabled={busy}>
+                      <Text style={styles.buttonSmallText}>Join</Text>
+                    </Pressable>
+                    <Pressable onPress={() => respond(circle, false)} style={styles.buttonSmall} disabled={busy}>
+                      <Text style={styles.buttonSmallText}>Decline</Text>
+                    </Pressable>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Your Circles</Text>
+              {joined.length === 0 ? (
+                <Text style={styles.muted}>
+                  Circles keep a family or group accountable together. Create one and invite your buddies.
+                </Text>
+              ) : (
+                joined.map((circle) => (
+                  <TouchableOpacity key={circle.id} style={styles.row} onPress={() => open(circle)}>
+                    <Ionicons name="people-circle-outline" size={28} color="#4F46E5" />
+                    <Text style={styles.circleName}>{circle.name}</Text>
+                    {circle.role !== 'member' && <Text style={styles.role}>{circle.role}</Text>}
+                    <Ionicons name="chevron-forward-outline" size={20} color="#9CA3AF" />
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>New Circle</Text>
+              <TextInput
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. Family or Youth Halaqa"
+                placeholderTextColor="#9CA3AF"
+                style={styles.input}
+                maxLength={50}
+              />
+              <TouchableOpacity
+                style={[styles.createButton, (busy || !name.trim()) && { opacity: 0.5 }]}
+                onPress={create}
+                disabled={busy || !name.trim()}
+              >
+                <Ionicons name="add" size={18} color="white" />
+                <Text style={styles.createButtonText}>Create Circle</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  circleName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  role: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4F46E5',
+    textTransform: 'capitalize',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 14,
+    backgroundColor: '#f8fafc',
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  buttonSmall: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: '#eef5ff' },
+  buttonSmallText: { color: '#0077ff', fontWeight: '600' },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#4F46E5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  createButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
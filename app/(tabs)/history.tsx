@@ -0,0 +1,352 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SafeAreaView, ScrollView, View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import dayjs from 'dayjs';
+import { supabase } from '../../lib/supabase';
+import { historyService, HistoryDay, HistoryPrayer, MonthHistory } from '../../services/historyService';
+import { checkinService } from '../../services/checkinService';
+import { prayerDayClock } from '../../services/prayerDay';
+import { PRAYER_KEYS, PrayerKey } from '../../services/prayerTimes';
+
+// Heatmap shades for 0 to 5 prayers completed in a day
+const SHADES = ['#F3F4F6', '#D1FAE5', '#A7F3D0', '#6EE7B7', '#34D399', '#10B981'];
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export default function History() {
+  const [uid, setUid] = useState<string | null>(null);
+  const [today, setToday] = useState(prayerDayClock.today());
+  const [month, setMonth] = useState(dayjs(today).startOf('month').format('YYYY-MM-DD'));
+  const monthRef = useRef(month);
+  monthRef.current = month;
+  const [history, setHistory] = useState<MonthHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUid(data.session?.user?.id ?? null));
+    const { data: listener } = supabase.auth.onAuthStateChange((_e, s) => setUid(s?.user?.id ?? null));
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!uid) return;
+    const requested = month;
+    setLoading(true);
+    const next = await historyService.getMonth(uid, requested);
+    // Another month may have been picked while this one was loading
+    if (requested !== monthRef.current) return;
+    setHistory(next);
+    setLoading(false);
+  }, [uid, month]);
+
+  // Tabs stay mounted, so refresh whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      setToday(prayerDayClock.today());
+      load();
+    }, [load])
+  );
+
+  // Check-ins saved elsewhere change recent days
+  useEffect(() => {
+    if (!uid) return;
+    return checkinService.subscribe((change) => {
+      if (change.userId === uid && change.day.startsWith(monthRef.current.slice(0, 7))) load();
+    });
+  }, [uid, load]);
+
+  const isCurrentMonth = dayjs(month).isSame(dayjs(today), 'month');
+  const changeMonth = (delta: number) => {
+    setSelectedDay(null);
+    setHistory(null);
+    setMonth(dayjs(month).add(delta, 'month').format('YYYY-MM-DD'));
+  };
+
+  // Leading blanks so the first day lands under its weekday
+  const first = dayjs(month);
+  const cells: (string | null)[] = [
+    ...Array.from({ length: first.day() }, () => null),
+    ...Array.from({ length: first.daysInMonth() }, (_, i) => first.add(i, 'day').format('YYYY-MM-DD')),
+  ];
+  while (cells.length % 7) cells.push(null);
+
+  const days = history?.days ?? {};
+  const monthDays = Object.entries(days).filter(([d]) => d <= today);
+  const fullDays = monthDays.filter(([, d]) => d.completed === 5).length;
+  const prayersDone = monthDays.reduce((sum, [, d]) => sum + d.completed, 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          {/* Month navigation */}
+          <View style={styles.monthHeader}>
+            <Pressable onPress={() => changeMonth(-1)} style={styles.navButton} hitSlop={8}>
+              <Ionicons name="chevron-back" size={22} color="#4F46E5" />
+            </Pressable>
+            <Text style={styles.monthTitle}>{first.format('MMMM YYYY')}</Text>
+            <Pressable
+              onPress={() => changeMonth(1)}
+              style={[styles.navButton, isCurrentMonth && { opacity: 0.3 }]}
+              disabled={isCurrentMonth}
+              hitSlop={8}
+            >
+              <Ionicons name="chevron-forward" size={22} color="#4F46E5" />
+            </Pressable>
+          </View>
+
+          <View style={styles.weekRow}>
+            {WEEKDAYS.map((w, i) => (
+              <Text key={i} style={styles.weekday}>{w}</Text>
+            ))}
+          </View>
+
+          {loading && !history ? (
+            <ActivityIndicator size="large" color="#4F46E5" style={{ marginVertical: 40 }} />
+          ) : (
+            <View style={styles.grid}>
+              {cells.map((d, i) => {
+                if (!d) return <View key={`blank-${i}`} style={styles.cell} />;
+                const info = days[d];
+                const future = d > today;
+                return (
+                  <Pressable
+                    key={d}
+                    style={styles.cell}
+                    onPress={() => setSelectedDay(d)}
+                    disabled={future}
+                  >
+                    <View
+                      style={[
+                        styles.cellInner,
+                        { backgroundColor: future ? 'transparent' : SHADES[info?.completed ?? 0] },
+                        info?.excused && styles.cellExcused,
+                        d === today && styles.cellToday,
+                        d === selectedDay && styles.cellSelected,
+                      ]}
+                    >
+                      <Text style={[styles.cellText, (info?.completed ?? 0) >= 4 && styles.cellTextDark, future && styles.cellTextFuture]}>
+                        {dayjs(d).date()}
+                      </Text>
+                    </View>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Legend */}
+          <View style={styles.legend}>
+            <Text style={styles.legendText}>Less</Text>
+            {SHADES.map((shade) => (
+              <View key={shade} style={[styles.legendSwatch, { backgroundColor: shade }]} />
+            ))}
+            <Text style={styles.legendText}>More</Text>
+            <View style={[styles.legendSwatch, styles.cellExcused, { marginLeft: 12 }]} />
+            <Text style={styles.legendText}>Excused</Text>
+          </View>
+
+          {history?.offline && (
+            <Text style={styles.offline}>Offline: showing the last saved copy</Text>
+          )}
+        </View>
+
+        {/* Selected day breakdown */}
+        {selectedDay && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{dayjs(selectedDay).format('dddd, MMM D')}</Text>
+            <DayBreakdown day={days[selectedDay]} />
+          </View>
+        )}
+
+        {/* Month summary */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>This month</Text>
+          <Text style={styles.summary}>{fullDays} days with all five prayers</Text>
+          <Text style={styles.summary}>{prayersDone} prayers checked in</Text>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function DayBreakdown({ day }: { day?: HistoryDay }) {
+  return (
+    <View>
+      {day?.excused && <Text style={styles.excusedNote}>Excused day</Text>}
+      {PRAYER_KEYS.map((prayer) => {
+        const entry = day?.prayers[prayer];
+        const { icon, color, label } = describe(entry);
+        return (
+          <View key={prayer} style={styles.breakdownRow}>
+            <Ionicons name={icon} size={20} color={color} />
+            <Text style={styles.breakdownPrayer}>{prettyPrayer(prayer)}</Text>
+            <Text style={[styles.breakdownStatus, { color }]}>{label}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+function describe(entry?: HistoryPrayer): {
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  label: string;
+} {
+  if (!entry) return { icon: 'ellipse-outline', color: '#9CA3AF', label: 'Not checked in' };
+  if (entry.backfilled) return { icon: 'checkmark-circle', color: '#6B7280', label: 'Logged later' };
+  switch (entry.status) {
+    case 'late':
+      return { icon: 'checkmark-circle', color: '#F59E0B', label: 'Late' };
+    case 'qada':
+      return { icon: 'checkmark-circle', color: '#6366F1', label: 'Qada' };
+    default:
+      return { icon: 'checkmark-circle', color: '#10B981', label: 'On time' };
+  }
+}
+
+function prettyPrayer(p: PrayerKey) {
+  return p.charAt(0).toUpperCase() + p.slice(1);
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  navButton: {
+    padding: 4,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#9CA3AF',
+    marginBottom: 6,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 3,
+  },
+  cellInner: {
+    flex: 1,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cellExcused: {
+    borderWidth: 2,
+    borderColor: '#F59E0B',
+    borderStyle: 'dashed',
+  },
+  cellToday: {
+    borderWidth: 2,
+    borderColor: '#4F46E5',
+  },
+  cellSelected: {
+    borderWidth: 2,
+    borderColor: '#1F2937',
+  },
+  cellText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  cellTextDark: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  cellTextFuture: {
+    color: '#D1D5DB',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginTop: 12,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginHorizontal: 2,
+  },
+  offline: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#9CA3AF',
+    textAlign: 'center',
+  },
+  excusedNote: {
+    fontSize: 13,
+    color: '#B45309',
+    marginBottom: 8,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  breakdownPrayer: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  breakdownStatus: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+});
@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import {
   SafeAreaView,
   ScrollView,
@@ -20,19 +20,19 @@ import relativeTime from 'dayjs/plugin/relativeTime';
 
 dayjs.extend(relativeTime);
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import {
-  Coordinates,
-  CalculationMethod,
-  Madhab as AdhanMadhab,
-  HighLatitudeRule as AdhanHighLat,
-  PrayerTimes,
-  CalculationParameters,
-} from 'adhan';
-import * as Notifications from 'expo-notifications';
-import { scheduleNextPrayerNotification, computeTodayPrayerDates, FIXED_MWL_PREFS } from '../../notifications/adhanScheduler';
+import { syncPrayerNotifications } from '../../notifications/adhanScheduler';
+import { computePrayerDay, CheckinStatus } from '../../services/prayerTimes';
 import { supabase } from '../../lib/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
-import { streakService } from '../../services/streakService';
+import { streakService, PrayerStreaks } from '../../services/streakService';
+import { checkinService, MAX_BACKFILL_DAYS } from '../../services/checkinService';
+import { syncQueue } from '../../services/syncQueue';
+import { prayerDayClock } from '../../services/prayerDay';
+import { prayerSettingsService } from '../../services/prayerSettings';
+import { badgeService } from '../../services/badgeService';
+import { CelebrationModal, Celebration } from '../../components/CelebrationModal';
+import { GoalsCard } from '../../components/GoalsCard';
+import { usePrayerSettings } from '../../hooks/usePrayerSettings';
 
 type SessionT = { user: { id: string; email?: string | null } | null } | null;
 
@@ -48,23 +48,28 @@ const PRAYERS: (keyof Checklist)[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha']
 interface PrayerProgress {
   name: string;
   completed: boolean;
+  status: CheckinStatus | null;
+  backfilled: boolean;
   time: string;
+  // Consecutive days this prayer has been checked in
+  streak: number;
 }
 
 interface BuddyUpdate {
   name: string;
   prayer: string;
   time: string;
+  backfilled?: boolean;
+  // Latest message sent with today's nudges, for the nudge alert
+  message?: string;
 }
 
 interface BuddyUpdateData {
   user_id: string;
   prayer: string;
   updated_at: string;
-  profile?: {
-    email: string | null;
-    username: string | null;
-  };
+  backfilled: boolean;
+  displayName: string | null;
 }
 
 const CONGRATS_LINES = [
@@ -84,9 +89,12 @@ export default function Home() {
   const router = useRouter();
   const [session, setSession] = useState<SessionT>(null);
   const uid = session?.user?.id || null;
+  const prayerSettings = usePrayerSettings(uid);
 
   // Times
   const [coords, setCoords] = useState<{ latitude: number; longitude: number } | null>(null);
+  const coordsRef = useRef(coords);
+  coordsRef.current = coords;
   const [times, setTimes] = useState<Record<string, string> | null>(null);
   const [loadingTimes, setLoadingTimes] = useState(false);
   const [locError, setLocError] = useState<string | null>(null);
@@ -99,12 +107,27 @@ export default function Home() {
     maghrib: false,
     isha: false,
   });
+  const [statuses, setStatuses] = useState<Partial<Record<keyof Checklist, CheckinStatus | null>>>({});
+  const [backfilled, setBackfilled] = useState<Partial<Record<keyof Checklist, boolean>>>({});
   const [saving, setSaving] = useState(false);
   const [saveMsg, setSaveMsg] = useState<string | null>(null);
 
   // Today + nudges strip
-  const [today, setToday] = useState(dayjs().format('YYYY-MM-DD'));
+  const [today, setToday] = useState(prayerDayClock.today());
+  // Day shown in the checklist: today, or a recent past day being backfilled
+  const [selectedDay, setSelectedDay] = useState(today);
+  const selectedDayRef = useRef(selectedDay);
+  selectedDayRef.current = selectedDay;
   const [nudgedCount, setNudgedCount] = useState(0);
+  const [latestNudgeMessage, setLatestNudgeMessage] = useState<string | null>(null);
+  // Check-ins saved offline that haven't reached the server yet
+  const [pendingSync, setPendingSync] = useState(0);
+  // Full days and new badges waiting to be shown, one at a time
+  const [celebrations, setCelebrations] = useState<Celebration[]>([]);
+  const checkingBadges = useRef(false);
+  const [prayerStreaks, setPrayerStreaks] = useState<PrayerStreaks | null>(null);
+  // Bumped whenever queued changes finish syncing, so server-side counts are refetched
+  const [syncedAt, setSyncedAt] = useState(0);
 
   // Timers/app state
   const dayTimer = useRef<any>(null);
@@ -114,6 +137,93 @@ export default function Home() {
 
   // Debounce/lock for scheduling to avoid loops
   const rescheduleLock = useRef(false);
+  const reschedulePending = useRef(false);
+
+  const loadChecklistForDay = useCallback(async (dayStr: string, userId: string) => {
+    // Includes changes still waiting to sync; falls back to the cached copy offline
+    const { checkins } = await checkinService.loadDay(userId, dayStr);
+    // Another day may have been picked while this one was loading
+    if (dayStr !== selectedDayRef.current) return;
+    const next: Checklist = { fajr: false, dhuhr: false, asr: false, maghrib: false, isha: false };
+    const nextStatuses: Partial<Record<keyof Checklist, CheckinStatus | null>> = {};
+    const nextBackfilled: Partial<Record<keyof Checklist, boolean>> = {};
+    PRAYERS.forEach((p) => {
+      next[p] = !!checkins[p]?.completed;
+      nextStatuses[p] = checkins[p]?.status ?? null;
+      nextBackfilled[p] = !!checkins[p]?.backfilled;
+    });
+    setChecklist(next);
+    setStatuses(nextStatuses);
+    setBackfilled(nextBackfilled);
+  }, []);
+
+  const celebrate = useCallback(
+    (celebration: Celebration) => setCelebrations((queue) => [...queue, celebration]),
+    []
+  );
+
+  // Announce badges the server awarded since the last check, then mark them seen
+  const announceNewBadges = useCallback(async (userId: string) => {
+    if (checkingBadges.current) return;
+    checkingBadges.current = true;
+    try {
+      const earned = await badgeService.getUnseen(userId);
+      earned.forEach(({ badge }) => {
+        const def = badgeService.getDefinition(badge);
+        celebrate({ kicker: 'Badge earned', title: def.title, message: def.description, icon: def.icon, color: def.color });
+      });
+      await badgeService.markSeen(earned.map((e) => e.badge));
+    } finally {
+      checkingBadges.current = false;
+    }
+  }, [celebrate]);
+
+  const computeTimes = useCallback((c: { latitude: number; longitude: number }) => {
+    try {
+      const pt = computePrayerDay(c, prayerDayClock.today(), prayerSettingsService.getSettings());
+      setTimes({
+        fajr: formatTime(pt.fajr),
+        dhuhr: formatTime(pt.dhuhr),
+        asr: formatTime(pt.asr),
+        maghrib: formatTime(pt.maghrib),
+        isha: formatTime(pt.isha),
+      });
+    } catch (e: any) {
+      setLocError(e?.message || 'Failed to compute prayer times.');
+    }
+  }, []);
+
+  // Top up the rolling notification window with a short lock to avoid loops.
+  // A request made while locked runs once the lock clears so settings changes are not dropped.
+  const syncNotificationsIfReady = useCallback(async function sync(graceMinutes = 0, c = coordsRef.current) {
+    if (!c) return;
+    if (rescheduleLock.current) {
+      reschedulePending.current = true;
+      return;
+    }
+    rescheduleLock.current = true;
+    try {
+      const settings = prayerSettingsService.getSettings();
+      await syncPrayerNotifications(
+        { latitude: c.latitude, longitude: c.longitude },
+        settings,
+        {
+          graceMinutes,
+          notifications: settings.notifications,
+          adhanSound: settings.adhanSound,
+          fajrAdhanSound: settings.fajrAdhanSound,
+        }
+      );
+    } finally {
+      setTimeout(() => {
+        rescheduleLock.current = false;
+        if (reschedulePending.current) {
+          reschedulePending.current = false;
+          sync(graceMinutes, c);
+        }
+      }, 800);
+    }
+  }, []);
 
   useEffect(() => {
     // Auth session
@@ -122,35 +232,40 @@ export default function Home() {
     return () => listener.subscription.unsubscribe();
   }, []);
 
-  // Detect day change (15s poll)
+  // Detect prayer day change at Fajr (15s poll)
   useEffect(() => {
     const tick = () => {
-      const d = dayjs().format('YYYY-MM-DD');
+      const d = prayerDayClock.today();
       if (d !== today) {
         setToday(d);
+        setSelectedDay(d);
+        selectedDayRef.current = d;
         setChecklist({ fajr: false, dhuhr: false, asr: false, maghrib: false, isha: false });
+        setStatuses({});
+        setBackfilled({});
         if (uid) {
           loadChecklistForDay(d, uid);
           loadUnseenNudgesCount(d, uid);
         }
         if (coords) {
           computeTimes(coords);
-          rescheduleNextIfReady(0);
+          syncNotificationsIfReady(0);
         }
       }
     };
     tick();
     dayTimer.current = setInterval(tick, 15000);
     return () => clearInterval(dayTimer.current);
-  }, [today, coords, uid]);
+  }, [today, coords, uid, computeTimes, syncNotificationsIfReady, loadChecklistForDay]);
 
   // App start + resume + periodic GPS refresh
   useEffect(() => {
     const setup = async () => {
       if (!uid) return;
+      await prayerDayClock.load();
       await upsertProfile(uid);
-      await getAndComputeWithCurrentLocation(); // will reschedule after compute
-      await loadChecklistForDay(today, uid);
+      await getAndComputeWithCurrentLocation(); // will sync notifications after compute
+      await loadChecklistForDay(selectedDayRef.current, uid);
       await loadUnseenNudgesCount(today, uid);
       await loadBuddyUpdates(uid);
     };
@@ -160,7 +275,7 @@ export default function Home() {
       if (state === 'active') {
         getAndComputeWithCurrentLocation();
         if (uid) {
-          loadChecklistForDay(today, uid);
+          loadChecklistForDay(selectedDayRef.current, uid);
           loadUnseenNudgesCount(today, uid);
           // Update last active timestamp when app becomes active
           streakService.updateLastActive(uid);
@@ -178,6 +293,17 @@ export default function Home() {
     };
   }, [uid, today]);
 
+  // Recompute and reschedule when calculation settings change (e.g. saved in Profile)
+  // Reads coords through a ref: a location change reschedules on its own
+  useEffect(() => {
+    const c = coordsRef.current;
+    if (!c) return;
+    // A different calculation method can move Fajr, where the prayer day starts
+    if (uid) prayerDayClock.configure(uid, c, prayerSettings);
+    computeTimes(c);
+    syncNotificationsIfReady(0, c);
+  }, [uid, prayerSettings, computeTimes, syncNotificationsIfReady]);
+
   // Realtime: DB table changes for nudges (to me), plus app-bus broadcast
   useEffect(() => {
     if (!uid) return;
@@ -189,7 +315,7 @@ export default function Home() {
         'postgres_changes',
         { event: '*', schema: 'public', table: 'nudges', filter: `to_user=eq.${uid}` },
         () => {
-          loadUnseenNudgesCount(dayjs().format('YYYY-MM-DD'), uid);
+          loadUnseenNudgesCount(prayerDayClock.today(), uid);
         }
       )
       .on(
@@ -211,7 +337,7 @@ export default function Home() {
     // App bus for immediate feedback when Buddy marks seen
     const busCh = supabase.channel(`app_bus_${uid}`).subscribe((_status) => {});
     busCh.on('broadcast', { event: 'nudges_seen' }, (payload: any) => {
-      const d = dayjs().format('YYYY-MM-DD');
+      const d = prayerDayClock.today();
       if (!payload?.day || payload.day === d) {
         loadUnseenNudgesCount(d, uid);
       } else {
@@ -230,20 +356,50 @@ export default function Home() {
     };
   }, [uid, today]);
 
-  // Tick checklist when user taps a prayer notification
+  // Reload the checklist when another day is picked
   useEffect(() => {
-    const sub = Notifications.addNotificationResponseReceivedListener(async (resp) => {
-      const data = resp.notification.request.content.data as any;
-      const key = data?.prayer as keyof Checklist | undefined;
-      if (data?.type === 'prayer' && key && PRAYERS.includes(key)) {
-        setChecklist((c) => ({ ...c, [key]: true }));
-        await saveCheckin(key, true);
-        // After a prayer is completed, schedule the next one
-        rescheduleNextIfReady(0);
+    if (uid) loadChecklistForDay(selectedDay, uid);
+  }, [uid, selectedDay, loadChecklistForDay]);
+
+  // Reflect check-ins saved outside this screen, e.g. "Mark prayed" on a notification
+  useEffect(() => {
+    if (!uid) return;
+    return checkinService.subscribe((change) => {
+      if (change.userId === uid && change.day === selectedDay) {
+        setChecklist((c) => ({ ...c, [change.prayer]: change.completed }));
+        setStatuses((s) => ({ ...s, [change.prayer]: change.status }));
+        setBackfilled((b) => ({ ...b, [change.prayer]: change.backfilled }));
       }
     });
-    return () => sub.remove();
-  }, []);
+  }, [uid, selectedDay]);
+
+  // Pending count for the sync indicator; a change the server refused is undone by reloading
+  useEffect(() => {
+    if (!uid) return;
+    const unsubscribeState = syncQueue.subscribe((state) => {
+      setPendingSync(state.pending);
+      // Badges and streaks are worked out on the server, so refresh them once changes have synced
+      if (!state.pending && !state.syncing) {
+        announceNewBadges(uid);
+        streakService.getUserPrayerStreaks(uid).then(setPrayerStreaks);
+        setSyncedAt(Date.now());
+      }
+    });
+    const unsubscribeDropped = syncQueue.onDropped((op) => {
+      if (op.userId === uid && op.kind === 'checkin' && op.day === selectedDayRef.current) {
+        loadChecklistForDay(op.day, uid);
+      }
+    });
+    return () => {
+      unsubscribeState();
+      unsubscribeDropped();
+    };
+  }, [uid, announceNewBadges, loadChecklistForDay]);
+
+  // A new prayer day changes which check-in counts as today's
+  useEffect(() => {
+    if (uid) streakService.getUserPrayerStreaks(uid).then(setPrayerStreaks);
+  }, [uid, today]);
 
   const upsertProfile = async (userId: string) => {
     const tz = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
@@ -268,34 +424,30 @@ export default function Home() {
   const loadUnseenNudgesCount = async (dayStr: string, userId: string) => {
     const { data: rows, error } = await supabase
       .from('nudges')
-      .select('id')
+      .select('id, message')
       .eq('to_user', userId)
       .eq('day', dayStr)
-      .is('seen_at', null);
-    if (!error) setNudgedCount((rows || []).length);
+      .is('seen_at', null)
+      .order('created_at', { ascending: false });
+    if (!error) {
+      setNudgedCount((rows || []).length);
+      setLatestNudgeMessage((rows || []).find((r) => r.message)?.message ?? null);
+    }
   };
 
-  // Mark all today's incoming nudges as seen (clears Home banner)
+  // Mark all today's incoming nudges as seen (clears Home banner); queued so it also works offline
   const markNudgesSeen = async () => {
     if (!uid) return;
-    const { error } = await supabase
-      .from('nudges')
-      .update({ seen_at: new Date().toISOString() })
-      .eq('to_user', uid)
-      .eq('day', today)
-      .is('seen_at', null);
-    if (error) {
-      Alert.alert('Error', error.message);
-    } else {
-      setNudgedCount(0); // Clear the count immediately
-      // Broadcast to other screens that nudges were seen
-      if (bus) {
-        bus.send({
-          type: 'broadcast',
-          event: 'nudges_seen',
-          payload: { day: today }
-        });
-      }
+    await syncQueue.enqueue({ kind: 'nudges_seen', userId: uid, day: today });
+    setNudgedCount(0); // Clear the count immediately
+    setLatestNudgeMessage(null);
+    // Broadcast to other screens that nudges were seen
+    if (bus) {
+      bus.send({
+        type: 'broadcast',
+        event: 'nudges_seen',
+        payload: { day: today }
+      });
     }
   };
 
@@ -317,33 +469,32 @@ export default function Home() {
       link.user_a === userId ? link.user_b : link.user_a
     );
     
-    // Get recent prayer completions from buddies (last 24 hours)
-    const yesterday = dayjs().subtract(1, 'day').format('YYYY-MM-DD');
-    const today = dayjs().format('YYYY-MM-DD');
+    // Get recent prayer completions from buddies, including days they can still backfill.
+    // Only buddies sharing full detail have check-ins visible here.
+    const days = checkinService.editableDays();
     
     const { data: updates } = await supabase
       .from('prayer_checkins')
-      .select(`
-        user_id,
-        prayer,
-        updated_at,
-        profiles!inner(email,username)
-      `)
+      .select('user_id, prayer, updated_at, backfilled')
       .in('user_id', buddyIds)
       .eq('completed', true)
-      .in('day', [yesterday, today])
+      .in('day', days)
       .order('updated_at', { ascending: false })
       .limit(10);
     
     if (updates) {
-      const formattedUpdates = updates.map((update: any) => ({
+      // Names come from buddy_profiles; other users' profiles aren't readable directly
+      const ids = Array.from(new Set(updates.map((update) => update.user_id as string)));
+      const { data: names } = ids.length
+        ? await supabase.from('buddy_profiles').select('id, display_name').in('id', ids)
+        : { data: [] };
+      const nameById = new Map((names || []).map((p) => [p.id as string, p.display_name as string | null]));
+      const formattedUpdates = updates.map((update) => ({
         user_id: update.user_id,
         prayer: update.prayer,
         updated_at: update.updated_at,
-        profile: {
-          email: update.profiles?.email || null,
-          username: update.profiles?.username || null
-        }
+        backfilled: !!update.backfilled,
+        displayName: nameById.get(update.user_id) ?? null
       }));
       setBuddyUpdates(formattedUpdates);
     }
@@ -365,9 +516,11 @@ export default function Home() {
         accuracy: Location.Accuracy.Balanced,
       });
       const c = { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
+      // Follow the new Fajr and timezone before the day tick sees the new location
+      if (uid) await prayerDayClock.configure(uid, c, prayerSettingsService.getSettings());
       setCoords(c);
       computeTimes(c);
-      await rescheduleNextIfReady(0);
+      await syncNotificationsIfReady(0, c);
     } catch (e: any) {
       setLocError(e?.message || 'Failed to get location.');
     } finally {
@@ -375,135 +528,47 @@ export default function Home() {
     }
   };
 
-  // Fixed calculation method: MWL + Shafi + MiddleOfTheNight
-  function buildParams(): CalculationParameters {
-    const params = CalculationMethod.MuslimWorldLeague();
-    params.madhab = AdhanMadhab.Shafi;
-    params.highLatitudeRule = AdhanHighLat.MiddleOfTheNight;
-    return params;
-  }
-
-  const computeTimes = (c: { latitude: number; longitude: number }) => {
-    try {
-      const date = new Date();
-      const coordinates = new Coordinates(c.latitude, c.longitude);
-      const params = buildParams();
-      const pt = new PrayerTimes(coordinates, date, params);
-      setTimes({
-        fajr: formatTime(pt.fajr),
-        dhuhr: formatTime(pt.dhuhr),
-        asr: formatTime(pt.asr),
-        maghrib: formatTime(pt.maghrib),
-        isha: formatTime(pt.isha),
-      });
-    } catch (e: any) {
-      setLocError(e?.message || 'Failed to compute prayer times.');
-    }
-  };
-
-  // Schedule the next-only notification with a short lock to avoid loops
-  async function rescheduleNextIfReady(graceMinutes = 0) {
-    if (!coords || rescheduleLock.current) return;
-    rescheduleLock.current = true;
-    try {
-      await scheduleNextPrayerNotification(
-        { latitude: coords.latitude, longitude: coords.longitude },
-        {
-          calcMethod: 'MuslimWorldLeague',
-          madhab: 'Shafi',
-          highLat: 'MiddleOfTheNight'
-        },
-        { graceMinutes, playSound: true }
-      );
-    } finally {
-      setTimeout(() => {
-        rescheduleLock.current = false;
-      }, 800);
-    }
-  }
-
-  const loadChecklistForDay = async (dayStr: string, userId: string) => {
-    const { data } = await supabase
-      .from('prayer_checkins')
-      .select('prayer, completed')
-      .eq('user_id', userId)
-      .eq('day', dayStr);
-    const next: Checklist = { fajr: false, dhuhr: false, asr: false, maghrib: false, isha: false };
-    (data || []).forEach((row) => {
-      next[row.prayer as keyof Checklist] = !!row.completed;
-    });
-    setChecklist(next);
-  };
-
-  const saveCheckin = async (prayer: keyof Checklist, completed: boolean) => {
+  const saveCheckin = async (prayer: keyof Checklist, completed: boolean, qada = false) => {
     if (!uid) return;
     setSaving(true);
     setSaveMsg(null);
-    const payload = {
-      user_id: uid,
-      day: today,
-      prayer,
-      completed,
-      completed_at: completed ? new Date().toISOString() : null,
-    };
-    const { error } = await supabase
-      .from('prayer_checkins')
-      .upsert(payload, { onConflict: 'user_id,day,prayer' });
+    // The service records the day in prayer_completions once all five are done
+    const day = selectedDay;
+    const { error, allDone } = await checkinService.saveCheckin(uid, day, prayer, completed, {
+      backfill: day !== today,
+      qada,
+    });
     if (!error) {
       setSaveMsg('Mashallah');
       setTimeout(() => setSaveMsg(null), 1500);
-      
-      // Update last active timestamp when user completes a prayer
-      await streakService.updateLastActive(uid);
-      
-      const willBeAllDone = PRAYERS.every((p) => (p === prayer ? completed : checklist[p]));
-      if (willBeAllDone) {
-        // Save to prayer_completions table for streak tracking
-        await supabase
-          .from('prayer_completions')
-          .upsert({
-            user_id: uid,
-            day: today,
-            completed_at: new Date().toISOString()
-          }, { onConflict: 'user_id,day' });
-        
+
+      if (allDone && day === today) {
         await maybeShowCongrats(today, uid);
         // Streak will be automatically updated by the database trigger
       }
+    } else {
+      setChecklist((c) => ({ ...c, [prayer]: !completed }));
+      Alert.alert('Could not save', error);
     }
     setSaving(false);
   };
 
-  // Show congratulations once per account per day
+  // Show congratulations once per account per day. Called when saveCheckin reports the day
+  // complete; the completion itself is recorded by the queued 'completion' op.
   const maybeShowCongrats = async (dayStr: string, userId: string) => {
     const keyLocal = `congrats_shown_${userId}_${dayStr}`;
     try {
-      const { data } = await supabase
-        .from('prayer_completions')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('day', dayStr)
-        .limit(1);
-      if (data && data.length > 0) return;
-
-      const shown = await AsyncStorage.getItem(keyLocal);
-      if (!shown) {
-        const line = pickEncouragingLine(dayStr);
-        Alert.alert('Congratulations!', line, [{ text: 'OK' }], { cancelable: true });
-        await AsyncStorage.setItem(keyLocal, '1');
-      }
-
-      await supabase.from('prayer_completions').upsert(
-        { user_id: userId, day: dayStr, completed_at: new Date().toISOString() },
-        { onConflict: 'user_id,day' }
-      );
-    } catch {
-      const shown = await AsyncStorage.getItem(keyLocal);
-      if (!shown) {
-        const line = pickEncouragingLine(dayStr);
-        Alert.alert('Congratulations!', line, [{ text: 'OK' }], { cancelable: true });
-        await AsyncStorage.setItem(keyLocal, '1');
-      }
+      if (await AsyncStorage.getItem(keyLocal)) return;
+      celebrate({
+        kicker: 'All five prayers',
+        title: 'Congratulations!',
+        message: pickEncouragingLine(dayStr),
+        icon: 'sparkles',
+        color: '#10B981',
+      });
+      await AsyncStorage.setItem(keyLocal, '1');
+    } catch (error) {
+      console.error('Error recording congratulations:', error);
     }
   };
 
@@ -521,36 +586,62 @@ export default function Home() {
   };
 
   const onToggle = (key: keyof Checklist) => async (v: boolean) => {
+    // A tick on a past day is either a late log of a prayer done in time, or a made-up prayer
+    if (v && selectedDay !== today) {
+      const name = key.charAt(0).toUpperCase() + key.slice(1);
+      Alert.alert(`Log ${name}`, `Did you pray ${name} in its time, or make it up later?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Made up (qada)',
+          onPress: () => {
+            setChecklist((c) => ({ ...c, [key]: true }));
+            saveCheckin(key, true, true);
+          },
+        },
+        {
+          text: 'In its time',
+          onPress: () => {
+            setChecklist((c) => ({ ...c, [key]: true }));
+            saveCheckin(key, true);
+          },
+        },
+      ]);
+      return;
+    }
     setChecklist((c) => ({ ...c, [key]: v }));
     await saveCheckin(key, v);
   };
 
   // Helper functions for new UI
   const getPrayerProgress = (): PrayerProgress[] => {
-    if (!coords) {
-      // Fallback to mock data when no location
-      return [
-        { name: 'Fajr', completed: checklist.fajr, time: '5:30 AM' },
-        { name: 'Dhuhr', completed: checklist.dhuhr, time: '12:15 PM' },
-        { name: 'Asr', completed: checklist.asr, time: '3:45 PM' },
-        { name: 'Maghrib', completed: checklist.maghrib, time: '6:20 PM' },
-        { name: 'Isha', completed: checklist.isha, time: '7:45 PM' },
-      ];
-    }
+    // Fallback to mock times when no location
+    const fallbackTimes: Record<keyof Checklist, string> = {
+      fajr: '5:30 AM',
+      dhuhr: '12:15 PM',
+      asr: '3:45 PM',
+      maghrib: '6:20 PM',
+      isha: '7:45 PM',
+    };
 
-    // Use real prayer times from adhanScheduler
-    const prayerTimes = computeTodayPrayerDates(
-      { latitude: coords.latitude, longitude: coords.longitude },
-      FIXED_MWL_PREFS
-    );
+    // Use real prayer times for the selected day with the user's calculation settings
+    const prayerTimes = coords
+      ? computePrayerDay({ latitude: coords.latitude, longitude: coords.longitude }, selectedDay, prayerSettings)
+      : null;
 
-    return [
-      { name: 'Fajr', completed: checklist.fajr, time: formatTime(prayerTimes.fajr) },
-      { name: 'Dhuhr', completed: checklist.dhuhr, time: formatTime(prayerTimes.dhuhr) },
-      { name: 'Asr', completed: checklist.asr, time: formatTime(prayerTimes.asr) },
-      { name: 'Maghrib', completed: checklist.maghrib, time: formatTime(prayerTimes.maghrib) },
-      { name: 'Isha', completed: checklist.isha, time: formatTime(prayerTimes.isha) },
-    ];
+    return PRAYERS.map((p) => {
+      const streak = prayerStreaks?.[p];
+      return {
+        name: p.charAt(0).toUpperCase() + p.slice(1),
+        completed: checklist[p],
+        status: statuses[p] ?? null,
+        backfilled: !!backfilled[p],
+        time: prayerTimes ? formatTime(prayerTimes[p]) : fallbackTimes[p],
+        // Today's ticks count straight away; other days wait for the server
+        streak: !streak ? 0 : selectedDay === today
+          ? streakService.withTodayCheckin(streak, checklist[p]).currentStreak
+          : streak.currentStreak,
+      };
+    });
   };
 
   const getBuddyUpdates = (): BuddyUpdate[] => {
@@ -561,25 +652,19 @@ export default function Home() {
       updates.push({
         name: 'Nudge Alert',
         prayer: `You were nudged ${nudgedCount} time${nudgedCount > 1 ? 's' : ''} today`,
-        time: 'Today'
+        time: 'Today',
+        message: latestNudgeMessage ?? undefined
       });
     }
     
     // Add regular buddy updates
     if (buddyUpdates && buddyUpdates.length > 0) {
       const regularUpdates = buddyUpdates.map(update => {
-        // Prioritize username over email for display name
-        let name = 'Unknown';
-        if (update.profile?.username) {
-          name = update.profile.username;
-        } else if (update.profile?.email) {
-          name = update.profile.email.split('@')[0];
-        }
-        
         return {
-          name,
+          name: update.displayName || 'Unknown',
           prayer: update.prayer.charAt(0).toUpperCase() + update.prayer.slice(1),
-          time: dayjs(update.updated_at).fromNow()
+          time: dayjs(update.updated_at).fromNow(),
+          backfilled: update.backfilled
         };
       });
       updates.push(...regularUpdates);
@@ -597,12 +682,33 @@ export default function Home() {
       }}
     >
       <View style={styles.prayerLeft}>
-        <View style={[styles.checkCircle, item.completed && styles.checkCircleCompleted]}>
+        <View
+          style={[
+            styles.checkCircle,
+            item.completed && styles.checkCircleCompleted,
+            item.completed && item.status === 'late' && styles.checkCircleLate,
+            item.completed && item.status === 'qada' && styles.checkCircleQada,
+          ]}
+        >
           {item.completed && (
             <Ionicons name="checkmark" size={16} color="white" />
           )}
         </View>
         <Text style={styles.prayerName}>{item.name}</Text>
+        {item.completed && (item.status === 'late' || item.status === 'qada') && (
+          <Text style={[styles.statusTag, item.status === 'late' ? styles.statusTagLate : styles.statusTagQada]}>
+            {item.status === 'late' ? 'Late' : 'Qada'}
+          </Text>
+        )}
+        {item.completed && item.backfilled && (
+          <Text style={[styles.statusTag, styles.statusTagBackfilled]}>Logged later</Text>
+        )}
+        {item.streak > 0 && (
+          <View style={styles.prayerStreak}>
+            <Ionicons name="flame" size={14} color="#F97316" />
+            <Text style={styles.prayerStreakText}>{item.streak}</Text>
+          </View>
+        )}
       </View>
       <Text style={styles.prayerTime}>{item.time}</Text>
     </TouchableOpacity>
@@ -615,7 +721,7 @@ export default function Home() {
       return (
         <TouchableOpacity 
           style={[styles.buddyUpdateItem, styles.nudgeUpdateItem]}
-          onPress={markNudgesSeen}
+          onPress={() => router.push('/nudges')}
         >
           <View style={[styles.buddyAvatar, styles.nudgeAvatar]}>
             <Text style={styles.buddyAvatarText}>🔔</Text>
@@ -624,7 +730,12 @@ export default function Home() {
             <Text style={styles.buddyUpdateText}>
               <Text style={styles.nudgeText}>{item.prayer}</Text>
             </Text>
-            <Text style={styles.buddyUpdateTime}>Tap to dismiss</Text>
+            {!!item.message && (
+              <Text style={styles.nudgeMessage} numberOfLines={2}>
+                “{item.message}”
+              </Text>
+            )}
+            <Text style={styles.buddyUpdateTime}>Tap to open your nudges</Text>
           </View>
           <TouchableOpacity 
             style={styles.dismissButton}
@@ -645,12 +756,19 @@ export default function Home() {
           <Text style={styles.buddyUpdateText}>
             <Text style={styles.buddyName}>{item.name}</Text> completed {item.prayer}
           </Text>
-          <Text style={styles.buddyUpdateTime}>{item.time}</Text>
+          <Text style={styles.buddyUpdateTime}>
+            {item.time}
+            {item.backfilled ? ' · logged late' : ''}
+          </Text>
         </View>
       </View>
     );
   };
   const completedCount = PRAYERS.filter(p => checklist[p]).length;
+  // Check-ins without a status (no location yet, or older rows) count as on time
+  const lateCount = PRAYERS.filter(p => checklist[p] && statuses[p] === 'late').length;
+  const qadaCount = PRAYERS.filter(p => checklist[p] && statuses[p] === 'qada').length;
+  const onTimeCount = completedCount - lateCount - qadaCount;
   const userEmail = session?.user?.email || 'User';
   const firstName = userEmail.split('@')[0] || 'A';
 
@@ -671,9 +789,34 @@ export default function Home() {
         {/* Today's Progress */}
         <View style={styles.card}>
           <View style={styles.cardHeader}>
-            <Text style={styles.cardTitle}>Today's Prayers</Text>
+            <Text style={styles.cardTitle}>
+              {selectedDay === today ? "Today's Prayers" : dayjs(selectedDay).format('dddd, MMM D')}
+            </Text>
             <Text style={styles.progressText}>{completedCount}/5</Text>
           </View>
+
+          {/* Recent days can be backfilled */}
+          <View style={styles.dayPicker}>
+            {checkinService.editableDays(today).reverse().map((d) => {
+              const active = d === selectedDay;
+              const label = d === today ? 'Today' : d === dayjs(today).subtract(1, 'day').format('YYYY-MM-DD') ? 'Yesterday' : dayjs(d).format('ddd D');
+              return (
+                <TouchableOpacity
+                  key={d}
+                  style={[styles.dayChip, active && styles.dayChipActive]}
+                  onPress={() => setSelectedDay(d)}
+                >
+                  <Text style={[styles.dayChipText, active && styles.dayChipTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {selectedDay !== today && (
+            <Text style={styles.backfillHint}>
+              Ticks for past days are marked as logged later, or as qada when made up. You can edit the last{' '}
+              {MAX_BACKFILL_DAYS} days.
+            </Text>
+          )}
           
           <FlatList 
             data={getPrayerProgress()}
@@ -681,8 +824,24 @@ export default function Home() {
             keyExtractor={(item) => item.name}
             scrollEnabled={false}
           />
+          {completedCount > 0 && (
+            <Text style={styles.statusSummary}>
+              {onTimeCount} on time · {lateCount} late · {qadaCount} qada
+            </Text>
+          )}
+          {pendingSync > 0 && (
+            <View style={styles.syncPending}>
+              <Ionicons name="cloud-upload-outline" size={14} color="#6B7280" />
+              <Text style={styles.syncPendingText}>
+                {pendingSync} {pendingSync === 1 ? 'change' : 'changes'} waiting to sync
+              </Text>
+            </View>
+          )}
         </View>
 
+        {/* Weekly and monthly goals */}
+        {uid && <GoalsCard userId={uid} refreshKey={`${today}|${syncedAt}`} />}
+
         {/* Quick Actions */}
         <View style={styles.quickActions}>
           <TouchableOpacity 
@@ -743,6 +902,11 @@ export default function Home() {
           {!!saveMsg && <Text style={{ color: '#0a0' }}>{saveMsg}</Text>}
         </View>
       </ScrollView>
+
+      <CelebrationModal
+        celebration={celebrations[0] ?? null}
+        onDismiss={() => setCelebrations((queue) => queue.slice(1))}
+      />
     </SafeAreaView>
   );
 }
@@ -889,6 +1053,21 @@ const styles = StyleSheet.create({
     color: '#4F46E5',
     fontWeight: '600',
   },
+  statusSummary: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  syncPending: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+  },
+  syncPendingText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
   prayerItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -914,6 +1093,72 @@ const styles = StyleSheet.create({
   checkCircleCompleted: {
     backgroundColor: '#10B981',
   },
+  checkCircleLate: {
+    backgroundColor: '#F59E0B',
+  },
+  checkCircleQada: {
+    backgroundColor: '#6366F1',
+  },
+  statusTag: {
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    fontSize: 11,
+    fontWeight: '600',
+    overflow: 'hidden',
+  },
+  statusTagLate: {
+    backgroundColor: '#FEF3C7',
+    color: '#B45309',
+  },
+  statusTagQada: {
+    backgroundColor: '#E0E7FF',
+    color: '#4338CA',
+  },
+  statusTagBackfilled: {
+    backgroundColor: '#F3F4F6',
+    color: '#6B7280',
+  },
+  prayerStreak: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginLeft: 8,
+  },
+  prayerStreakText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#F97316',
+  },
+  dayPicker: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  dayChip: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  dayChipActive: {
+    backgroundColor: '#4F46E5',
+  },
+  dayChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  dayChipTextActive: {
+    color: 'white',
+  },
+  backfillHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
   prayerName: {
     fontSize: 16,
     fontWeight: '500',
@@ -1013,6 +1258,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#92400E',
   },
+  nudgeMessage: {
+    marginTop: 2,
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#92400E',
+  },
   dismissButton: {
     padding: 8,
     borderRadius: 4,
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SafeAreaView, ScrollView, View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { supabase } from '../../lib/supabase';
+import { nudgeService, InboxNudge } from '../../services/nudgeService';
+import { syncQueue } from '../../services/syncQueue';
+import { prayerDayClock } from '../../services/prayerDay';
+
+dayjs.extend(relativeTime);
+
+// Nudges received in the last 30 days, with any messages buddies sent along
+export default function Nudges() {
+  const [uid, setUid] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [nudges, setNudges] = useState<InboxNudge[]>([]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUid(data.session?.user?.id ?? null));
+    const { data: listener } = supabase.auth.onAuthStateChange((_e, s) => setUid(s?.user?.id ?? null));
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!uid) return;
+    setNudges(await nudgeService.getInbox());
+    setLoading(false);
+    // Reading the inbox counts as seeing today's nudges, which clears the Home banner
+    await syncQueue.enqueue({ kind: 'nudges_seen', userId: uid, day: prayerDayClock.today() });
+  }, [uid]);
+
+  // Hidden tabs stay mounted, so refresh whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <ActivityIndicator size="large" color="#4F46E5" style={{ marginTop: 50 }} />
+        ) : (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Nudge Inbox</Text>
+            {nudges.length === 0 ? (
+              <Text style={styles.muted}>No nudges in the last 30 days.</Text>
+            ) : (
+              nudges.map((nudge) => (
+                <View key={nudge.id} style={styles.row}>
+                  <View style={[styles.dot, !nudge.seenAt && styles.dotUnseen]} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.title}>
+                      <Text style={styles.name}>{nudge.fromName}</Text> nudged you about{' '}
+                      {nudge.prayer.charAt(0).toUpperCase() + nudge.prayer.slice(1)}
+                    </Text>
+                    {!!nudge.message && <Text style={styles.message}>{nudge.message}</Text>}
+                    <Text style={styles.time}>{dayjs(nudge.sentAt).fromNow()}</Text>
+                  </View>
+                </View>
+              ))
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 7,
+    backgroundColor: 'transparent',
+  },
+  dotUnseen: {
+    backgroundColor: '#4F46E5',
+  },
+  title: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  name: {
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  message: {
+    marginTop: 6,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: '#374151',
+  },
+  time: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+});
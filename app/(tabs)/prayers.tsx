@@ -4,17 +4,10 @@ import * as Location from 'expo-location';
 import dayjs from 'dayjs';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
-import { Coordinates, CalculationMethod, Madhab as AdhanMadhab, HighLatitudeRule as AdhanHighLat, PrayerTimes, CalculationParameters } from 'adhan';
 import { supabase } from '../../lib/supabase';
-
-type Coords = { latitude: number; longitude: number };
-
-type CalcMethodKey =
-  | 'MuslimWorldLeague' | 'Egyptian' | 'Karachi' | 'NorthAmerica' | 'Kuwait' | 'Qatar' | 'Singapore'
-  | 'UmmAlQura' | 'Dubai' | 'MoonsightingCommittee' | 'Turkey' | 'Tehran';
-type MadhabKey = 'Shafi' | 'Hanafi';
-type HighLatKey = 'MiddleOfTheNight' | 'SeventhOfTheNight' | 'TwilightAngle';
-type PrayerKey = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+import { prayerSettingsService } from '../../services/prayerSettings';
+import { computePrayerDay, Coords, PrayerKey, PRAYER_KEYS } from '../../services/prayerTimes';
+import { usePrayerSettings } from '../../hooks/usePrayerSettings';
 
 interface PrayerTime {
   name: string;
@@ -22,17 +15,13 @@ interface PrayerTime {
   next: boolean;
 }
 
-const PRAYERS: PrayerKey[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
-
 export default function Prayers() {
   const [coords, setCoords] = useState<Coords | null>(null);
   const [locationName, setLocationName] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [locError, setLocError] = useState<string | null>(null);
 
-  const [calcMethod, setCalcMethod] = useState<CalcMethodKey>('MuslimWorldLeague');
-  const [madhab, setMadhab] = useState<MadhabKey>('Shafi');
-  const [highLat, setHighLat] = useState<HighLatKey>('MiddleOfTheNight');
+  const { calcMethod, madhab, highLat } = usePrayerSettings();
 
   const [todayTimes, setTodayTimes] = useState<Record<PrayerKey, Date> | null>(null);
   const [tomorrowTimes, setTomorrowTimes] = useState<Record<PrayerKey, Date> | null>(null);
@@ -48,14 +37,12 @@ export default function Prayers() {
       const { data } = await supabase.auth.getSession();
       const userId = data.session?.user?.id;
       if (!userId) return;
-const { data: prof } = await supabase
+      await prayerSettingsService.loadForUser(userId);
+      const { data: prof } = await supabase
         .from('profiles')
-        .select('calc_method, madhab, high_lat_rule, lat, lon')
+        .select('lat, lon')
         .eq('id', userId)
         .single();
-      if (prof?.calc_method) setCalcMethod(prof.calc_method as CalcMethodKey);
-      if (prof?.madhab) setMadhab(prof.madhab as MadhabKey);
-      if (prof?.high_lat_rule) setHighLat(prof.high_lat_rule as HighLatKey);
       if (typeof prof?.lat === 'number' && typeof prof?.lon === 'number') {
         const savedCoords = { latitude: prof.lat, longitude: prof.lon };
         setCoords(savedCoords);
@@ -73,15 +60,44 @@ const { data: prof } = await supabase
   // Recompute when coords or prefs change
   useEffect(() => {
     if (!coords) return;
-    computeAll(coords);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    try {
+      const prefs = { calcMethod, madhab, highLat };
+
+      const pt1 = computePrayerDay(coords, new Date(), prefs);
+      const todayMap: Record<PrayerKey, Date> = {
+        fajr: pt1.fajr, dhuhr: pt1.dhuhr, asr: pt1.asr, maghrib: pt1.maghrib, isha: pt1.isha
+      };
+
+      const pt2 = computePrayerDay(coords, dayjs(pt1.date).add(1, 'day').format('YYYY-MM-DD'), prefs);
+      const tomorrowMap: Record<PrayerKey, Date> = {
+        fajr: pt2.fajr, dhuhr: pt2.dhuhr, asr: pt2.asr, maghrib: pt2.maghrib, isha: pt2.isha
+      };
+
+      setTodayTimes(todayMap);
+      setTomorrowTimes(tomorrowMap);
+    } catch (e) {
+      // ignore for now; locError is handled elsewhere
+    }
   }, [coords, calcMethod, madhab, highLat]);
 
-  // Update countdown every second
+  // Update countdown now and every second
   useEffect(() => {
+    const updateCountdown = () => {
+      const now = new Date();
+      const next = findNextPrayer(now, todayTimes, tomorrowTimes);
+      if (!next) { setCountdown(''); setNextLabel(''); return; }
+      setNextLabel(capitalize(next.label as string));
+      const diffMs = next.time.getTime() - now.getTime();
+      if (diffMs <= 0) { setCountdown('Now'); return; }
+      const totalSec = Math.floor(diffMs / 1000);
+      const h = Math.floor(totalSec / 3600);
+      const m = Math.floor((totalSec % 3600) / 60);
+      const s = totalSec % 60;
+      setCountdown(`${pad(h)}:${pad(m)}:${pad(s)}`);
+    };
+    updateCountdown();
     const id = setInterval(updateCountdown, 1000);
     return () => clearInterval(id);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [todayTimes, tomorrowTimes]);
 
   const reverseGeocode = async (latitude: number, longitude: number) => {
@@ -129,85 +145,6 @@ const { data: prof } = await supabase
     }
   };
 
-  function buildParams(): CalculationParameters {
-    let params: CalculationParameters;
-    switch (calcMethod) {
-      case 'MuslimWorldLeague': params = CalculationMethod.MuslimWorldLeague(); break;
-      case 'Egyptian': params = CalculationMethod.Egyptian(); break;
-      case 'Karachi': params = CalculationMethod.Karachi(); break;
-      case 'NorthAmerica': params = CalculationMethod.NorthAmerica(); break;
-      case 'Kuwait': params = CalculationMethod.Kuwait(); break;
-      case 'Qatar': params = CalculationMethod.Qatar(); break;
-      case 'Singapore': params = CalculationMethod.Singapore(); break;
-      case 'UmmAlQura': params = CalculationMethod.UmmAlQura(); break;
-      case 'Dubai': params = CalculationMethod.Dubai(); break;
-      case 'MoonsightingCommittee': params = CalculationMethod.MoonsightingCommittee(); break;
-      case 'Turkey': params = CalculationMethod.Turkey(); break;
-      case 'Tehran': params = CalculationMethod.Tehran(); break;
-      default: params = CalculationMethod.MuslimWorldLeague();
-    }
-    params.madhab = madhab === 'Hanafi' ? AdhanMadhab.Hanafi : AdhanMadhab.Shafi;
-    switch (highLat) {
-      case 'SeventhOfTheNight': params.highLatitudeRule = AdhanHighLat.SeventhOfTheNight; break;
-      case 'TwilightAngle': params.highLatitudeRule = AdhanHighLat.TwilightAngle; break;
-      default: params.highLatitudeRule = AdhanHighLat.MiddleOfTheNight;
-    }
-    return params;
-  }
-
-  const computeAll = (c: Coords) => {
-    try {
-      const coordinates = new Coordinates(c.latitude, c.longitude);
-      const params = buildParams();
-
-      const d1 = new Date();
-      const pt1 = new PrayerTimes(coordinates, d1, params);
-      const todayMap: Record<PrayerKey, Date> = {
-        fajr: pt1.fajr, dhuhr: pt1.dhuhr, asr: pt1.asr, maghrib: pt1.maghrib, isha: pt1.isha
-      };
-
-      const d2 = new Date();
-      d2.setDate(d2.getDate() + 1);
-      const pt2 = new PrayerTimes(coordinates, d2, params);
-      const tomorrowMap: Record<PrayerKey, Date> = {
-        fajr: pt2.fajr, dhuhr: pt2.dhuhr, asr: pt2.asr, maghrib: pt2.maghrib, isha: pt2.isha
-      };
-
-      setTodayTimes(todayMap);
-      setTomorrowTimes(tomorrowMap);
-      updateCountdown(todayMap, tomorrowMap);
-    } catch (e) {
-      // ignore for now; locError is handled elsewhere
-    }
-  };
-
-  function findNextPrayer(now: Date, t1?: Record<PrayerKey, Date> | null, t2?: Record<PrayerKey, Date> | null): { label: string; time: Date } | null {
-    if (!t1 || !t2) return null;
-    for (const p of PRAYERS) {
-      const t = t1[p];
-      if (t > now) return { label: p, time: t };
-    }
-    // All done today -> Fajr tomorrow
-    return { label: 'fajr', time: t2.fajr };
-  }
-
-  function updateCountdown(t1 = todayTimes || undefined as any, t2 = tomorrowTimes || undefined as any) {
-    if (!t1 || !t2) { setCountdown(''); setNextLabel(''); return; }
-    const now = new Date();
-    const next = findNextPrayer(now, t1, t2);
-    if (!next) { setCountdown(''); setNextLabel(''); return; }
-    setNextLabel(capitalize(next.label as string));
-    const diffMs = next.time.getTime() - now.getTime();
-    if (diffMs <= 0) { setCountdown('Now'); return; }
-    const totalSec = Math.floor(diffMs / 1000);
-    const h = Math.floor(totalSec / 3600);
-    const m = Math.floor((totalSec % 3600) / 60);
-    const s = totalSec % 60;
-    setCountdown(`${pad(h)}:${pad(m)}:${pad(s)}`);
-  }
-
-
-
   // Helper functions for modern UI
   const getPrayerTimes = (): PrayerTime[] => {
     if (!todayTimes) {
@@ -317,6 +254,16 @@ const { data: prof } = await supabase
 
 
 
+function findNextPrayer(now: Date, t1?: Record<PrayerKey, Date> | null, t2?: Record<PrayerKey, Date> | null): { label: string; time: Date } | null {
+  if (!t1 || !t2) return null;
+  for (const p of PRAYER_KEYS) {
+    const t = t1[p];
+    if (t > now) return { label: p, time: t };
+  }
+  // All done today -> Fajr tomorrow
+  return { label: 'fajr', time: t2.fajr };
+}
+
 function pad(n: number) { return n < 10 ? `0${n}` : `${n}`; }
 function formatTime(d: Date) {
   const h = d.getHours();
@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  SafeAreaView,
+  ScrollView,
+  View,
+  Text,
+  Switch,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { supabase } from '../../lib/supabase';
+import { privacyService, PrivacySettings, VisibilityLevel, VISIBILITY_LEVELS } from '../../services/privacyService';
+import { blockService, BlockedUser } from '../../services/blockService';
+
+interface Buddy {
+  id: string;
+  name: string;
+}
+
+// What buddies and circles can see, whether others can find you by username, and who is blocked
+export default function Privacy() {
+  const [uid, setUid] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<PrivacySettings>({ hideActivity: false, discoverable: true });
+  const [buddies, setBuddies] = useState<Buddy[]>([]);
+  const [levels, setLevels] = useState<Record<string, VisibilityLevel>>({});
+  const [blocked, setBlocked] = useState<BlockedUser[]>([]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUid(data.session?.user?.id ?? null));
+    const { data: listener } = supabase.auth.onAuthStateChange((_e, s) => setUid(s?.user?.id ?? null));
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!uid) return;
+    const [nextSettings, nextLevels, nextBlocked, links] = await Promise.all([
+      privacyService.getSettings(uid),
+      privacyService.getBuddyLevels(uid),
+      blockService.getBlocked(),
+      supabase
+        .from('buddy_links')
+        .select('user_a, user_b')
+        .eq('status', 'accepted')
+        .or(`user_a.eq.${uid},user_b.eq.${uid}`),
+    ]);
+    setSettings(nextSettings);
+    setLevels(nextLevels);
+    setBlocked(nextBlocked);
+
+    const ids = (links.data || []).map((l) => (l.user_a === uid ? l.user_b : l.user_a));
+    if (ids.length) {
+      const { data, error } = await supabase.from('buddy_profiles').select('id, display_name').in('id', ids);
+      if (error) console.error('Error loading buddy names:', error);
+      setBuddies(
+        (data || [])
+          .map((p) => ({ id: p.id as string, name: (p.display_name as string | null) || 'Buddy' }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } else {
+      setBuddies([]);
+    }
+    setLoading(false);
+  }, [uid]);
+
+  // Hidden tabs stay mounted, so refresh whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const updateSetting = async (change: Partial<PrivacySettings>) => {
+    if (!uid) return;
+    const previous = settings;
+    setSettings({ ...settings, ...change });
+    const { error } = await privacyService.updateSettings(uid, change);
+    if (error) {
+      setSettings(previous);
+      Alert.alert('Save failed', error);
+    }
+  };
+
+  const updateLevel = async (buddyId: string, level: VisibilityLevel) => {
+    if (!uid) return;
+    const previous = levels;
+    setLevels({ ...levels, [buddyId]: level });
+    const { error } = await privacyService.setBuddyLevel(uid, buddyId, level);
+    if (error) {
+      setLevels(previous);
+      Alert.alert('Save failed', error);
+    }
+  };
+
+  const unblock = (user: BlockedUser) => {
+    Alert.alert(`Unblock ${user.name}?`, 'They will be able to find you and send you requests again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Unblock',
+        onPress: async () => {
+          const { error } = await blockService.unblock(user.userId);
+          if (error) {
+            Alert.alert('Could not unblock', error);
+            return;
+          }
+          setBlocked((current) => current.filter((b) => b.userId !== user.userId));
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <ActivityIndicator size="large" color="#4F46E5" style={{ marginTop: 50 }} />
+        ) : (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Your Activity</Text>
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.switchLabel}>Hide my activity</Text>
+                  <Text style={styles.muted}>
+                    Hide your prayers, streaks and badges from buddies and circles. Nudges still work.
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.hideActivity}
+                  onValueChange={(value) => updateSetting({ hideActivity: value })}
+                  trackColor={{ false: '#D1D5DB', true: '#4F46E5' }}
+                  thumbColor="white"
+                />
+              </View>
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.switchLabel}>Findable by username</Text>
+                  <Text style={styles.muted}>Others can find you by searching your username.</Text>
+                </View>
+                <Switch
+                  value={settings.discoverable}
+                  onValueChange={(value) => updateSetting({ discoverable: value })}
+                  trackColor={{ false: '#D1D5DB', true: '#4F46E5' }}
+                  thumbColor="white"
+                />
+              </View>
+            </View>
+
+            <View style={[styles.card, settings.hideActivity && { opacity: 0.5 }]}>
+              <Text style={styles.cardTitle}>What Each Buddy Sees</Text>
+              {VISIBILITY_LEVELS.map((level) => (
+                <Text key={level.key} style={styles.muted}>
+                  <Text style={styles.levelName}>{level.label}:</Text> {level.description}
+                </Text>
+              ))}
+              {buddies.length === 0 ? (
+                <Text style={[styles.muted, { marginTop: 12 }]}>No buddies yet.</Text>
+              ) : (
+                buddies.map((buddy) => {
+                  const current = levels[buddy.id] ?? 'full';
+                  return (
+                    <View key={buddy.id} style={styles.buddyRow}>
+                      <Text style={styles.buddyName}>{buddy.name}</Text>
+                      <View style={styles.chips}>
+                        {VISIBILITY_LEVELS.map((level) => (
+                          <Pressable
+                            key={level.key}
+                            onPress={() => updateLevel(buddy.id, level.key)}
+                            disabled={settings.hideActivity}
+                            style={[styles.chip, current === level.key && styles.chipActive]}
+                          >
+                            <Text style={[styles.chipText, current === level.key && styles.chipTextActive]}>
+                              {level.label}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                    </View>
+                  );
+                })
+              )}
+              <Text style={styles.hint}>
+                Circle members who are not your buddies see full detail unless you hide your activity.
+              </Text>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Blocked Users</Text>
+              {blocked.length === 0 ? (
+                <Text style={styles.muted}>You have not blocked anyone.</Text>
+              ) : (
+                blocked.map((user) => (
+                  <View key={user.userId} style={styles.blockedRow}>
+                    <Text style={styles.blockedName}>{user.name}</Text>
+                    <Pressable onPress={() => unblock(user)} style={styles.buttonSmall}>
+                      <Text style={styles.buttonSmallText}>Unblock</Text>
+                    </Pressable>
+                  </View>
+                ))
+              )}
+              <Text style={styles.hint}>
+                Blocked users cannot find you, send you requests, circle invites or nudges, or see your activity.
+              </Text>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  hint: {
+    marginTop: 12,
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 2,
+  },
+  levelName: {
+    fontWeight: '600',
+    color: '#374151',
+  },
+  buddyRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  buddyName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  blockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  blockedName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  buttonSmall: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: '#eef5ff' },
+  buttonSmallText: { color: '#0077ff', fontWeight: '600' },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: '#E5E7EB',
+  },
+  chipActive: {
+    backgroundColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+});
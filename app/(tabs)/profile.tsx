@@ -15,28 +15,30 @@ import {
   Button,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import dayjs from 'dayjs';
 import { supabase } from '../../lib/supabase';
 import { streakService } from '../../services/streakService';
+import { statsService } from '../../services/statsService';
+import { badgeService, BADGES, BadgeId } from '../../services/badgeService';
+import {
+  prayerSettingsService,
+  PrayerSettings,
+  NotificationMode,
+  NotificationPrefs,
+  DEFAULT_NOTIFICATION_PREFS,
+} from '../../services/prayerSettings';
+import { PRAYER_KEYS, PrayerKey } from '../../services/prayerTimes';
+import { adhanSoundsFor, getAdhanSound, DEFAULT_ADHAN_SOUND, DEFAULT_FAJR_ADHAN_SOUND } from '../../notifications/adhanSounds';
+import { audioNotificationService } from '../../notifications/audioService';
+import { nudgeService, NudgeSettings, QUIET_HOURS_OPTIONS, formatQuietHours } from '../../services/nudgeService';
 
 type SessionT = { user: { id: string; email?: string | null } | null } | null;
 
-type CalcMethodKey =
-  | 'MuslimWorldLeague'
-  | 'Egyptian'
-  | 'Karachi'
-  | 'NorthAmerica'
-  | 'Kuwait'
-  | 'Qatar'
-  | 'Singapore'
-  | 'UmmAlQura'
-  | 'Dubai'
-  | 'MoonsightingCommittee'
-  | 'Turkey'
-  | 'Tehran';
-
-type MadhabKey = 'Shafi' | 'Hanafi';
-type HighLatKey = 'MiddleOfTheNight' | 'SeventhOfTheNight' | 'TwilightAngle';
+type CalcMethodKey = PrayerSettings['calcMethod'];
+type MadhabKey = PrayerSettings['madhab'];
+type HighLatKey = PrayerSettings['highLat'];
 
 interface Stat {
   label: string;
@@ -51,6 +53,7 @@ interface MenuItem {
   hasToggle?: boolean;
   danger?: boolean;
   toggleValue?: boolean;
+  onToggle?: (value: boolean) => void;
   onPress?: () => void;
 }
 
@@ -58,13 +61,22 @@ const CALC_METHODS: CalcMethodKey[] = [
   'MuslimWorldLeague','MoonsightingCommittee','NorthAmerica','Egyptian','Karachi','UmmAlQura','Turkey','Dubai','Kuwait','Qatar','Singapore','Tehran'
 ];
 
+const NOTIFICATION_MODES: NotificationMode[] = ['adhan', 'silent', 'off'];
+const REMINDER_OPTIONS: (number | null)[] = [null, 5, 10, 15, 30];
+
 export default function Profile() {
+  const router = useRouter();
   const [session, setSession] = useState<SessionT>(null);
   const [loading, setLoading] = useState(true);
-  const [streakData, setStreakData] = useState({ currentStreak: 0, longestStreak: 0, totalPrayers: 0 });
+  const [streakData, setStreakData] = useState({ currentStreak: 0, longestStreak: 0, streakAtRisk: false, totalPrayers: 0 });
   const [prayerBuddiesCount, setPrayerBuddiesCount] = useState(0);
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [earnedBadges, setEarnedBadges] = useState<Partial<Record<BadgeId, string>>>({});
   const [showSettings, setShowSettings] = useState(false);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPrefs>(DEFAULT_NOTIFICATION_PREFS);
+  const [adhanSound, setAdhanSound] = useState<string>(DEFAULT_ADHAN_SOUND);
+  const [fajrAdhanSound, setFajrAdhanSound] = useState<string>(DEFAULT_FAJR_ADHAN_SOUND);
+  const [nudgeSettings, setNudgeSettings] = useState<NudgeSettings>({ doNotDisturb: false, quietHours: null });
 
   const [calcMethod, setCalcMethod] = useState<CalcMethodKey>('MuslimWorldLeague');
   const [madhab, setMadhab] = useState<MadhabKey>('Shafi');
@@ -83,40 +95,48 @@ export default function Profile() {
       if (!session?.user?.id) { setLoading(false); return; }
       const { data, error } = await supabase
         .from('profiles')
-        .select('calc_method, madhab, high_lat_rule, grace_minutes, tz, current_streak, longest_streak, username')
+        .select('tz, current_streak, longest_streak, username')
         .eq('id', session.user.id)
         .single();
 
       if (!error && data) {
-        if (data.calc_method) setCalcMethod(data.calc_method as CalcMethodKey);
-        if (data.madhab) setMadhab(data.madhab as MadhabKey);
-        if (data.high_lat_rule) setHighLat(data.high_lat_rule as HighLatKey);
-        if (data.grace_minutes != null) setGraceMinutes(String(data.grace_minutes));
+        const settings = await prayerSettingsService.loadForUser(session.user.id);
+        setCalcMethod(settings.calcMethod);
+        setMadhab(settings.madhab);
+        setHighLat(settings.highLat);
+        setGraceMinutes(String(settings.graceMinutes));
+        setNotificationPrefs(settings.notifications);
+        setAdhanSound(settings.adhanSound);
+        setFajrAdhanSound(settings.fajrAdhanSound);
+        setNudgeSettings(await nudgeService.getSettings(session.user.id));
         if (data.username) setUsername(data.username);
         
-        // Load streak data
-        setStreakData({
-          currentStreak: data.current_streak || 0,
-          longestStreak: data.longest_streak || 0,
-          totalPrayers: 0 // Will be calculated from prayer_checkins
-        });
       } else {
         // Ensure row exists with timezone
         const tz = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
         await supabase.from('profiles').upsert({ id: session?.user?.id, tz }, { onConflict: 'id' });
       }
       
+      // Streak is computed on the device from completed days, so it also shows offline
+      const streak = await streakService.getStreak(session.user.id);
+      setStreakData({
+        currentStreak: streak.currentStreak,
+        longestStreak: Math.max(streak.longestStreak, data?.longest_streak || 0),
+        streakAtRisk: streak.status === 'at_risk',
+        totalPrayers: 0 // Counted on the server by prayer_totals()
+      });
+
       // Load total prayers count (individual prayers completed)
       if (session?.user?.id) {
-        const { data: prayerData } = await supabase
-          .from('prayer_checkins')
-          .select('id')
-          .eq('user_id', session.user.id)
-          .eq('completed', true);
+        const [totals, badges] = await Promise.all([
+          statsService.getTotals(session.user.id),
+          badgeService.getEarned(session.user.id),
+        ]);
+        setEarnedBadges(Object.fromEntries(badges.map((b) => [b.badge, b.earnedAt])));
         
         setStreakData(prev => ({
           ...prev,
-          totalPrayers: prayerData?.length || 0
+          totalPrayers: totals.totalPrayers
         }));
         
         // Load prayer buddies count
@@ -153,32 +173,65 @@ export default function Profile() {
     
     const { error } = await supabase
       .from('profiles')
-      .update({
-        calc_method: calcMethod,
-        madhab,
-        high_lat_rule: highLat,
-        grace_minutes: g,
-        username: username || null
-      })
+      .update({ username: username || null })
       .eq('id', session.user.id);
-    if (error) Alert.alert('Save failed', error.message);
+    if (error) return Alert.alert('Save failed', error.message);
+
+    // Saving through the settings service recomputes prayer times and reschedules notifications
+    const { error: settingsError } = await prayerSettingsService.saveForUser(session.user.id, {
+      ...prayerSettingsService.getSettings(),
+      calcMethod,
+      madhab,
+      highLat,
+      graceMinutes: g,
+    });
+    if (settingsError) Alert.alert('Save failed', settingsError);
     else Alert.alert('Saved', 'Preferences updated.');
   };
 
+  const updateNotificationPref = (key: PrayerKey, change: Partial<NotificationPrefs[PrayerKey]>) => {
+    setNotificationPrefs((prev) => ({ ...prev, [key]: { ...prev[key], ...change } }));
+  };
+
+  const saveNotifications = async () => {
+    if (!session?.user?.id) return;
+    // Saving through the settings service reschedules the pending notifications
+    const { error } = await prayerSettingsService.saveForUser(session.user.id, {
+      ...prayerSettingsService.getSettings(),
+      notifications: notificationPrefs,
+      adhanSound,
+      fajrAdhanSound,
+    });
+    audioNotificationService.stopPreview();
+    if (error) return Alert.alert('Save failed', error);
+
+    const { error: nudgeError } = await nudgeService.updateSettings(session.user.id, nudgeSettings);
+    if (nudgeError) Alert.alert('Save failed', nudgeError);
+    else Alert.alert('Saved', 'Notification preferences updated.');
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
   };
 
   const stats: Stat[] = [
-    { label: 'Prayer Streak', value: `${streakData.currentStreak} days`, icon: 'trophy-outline', color: '#F59E0B' },
+    {
+      // Yesterday was complete but today isn't yet
+      label: streakData.streakAtRisk ? 'Streak at Risk' : 'Prayer Streak',
+      value: `${streakData.currentStreak} days`,
+      icon: 'trophy-outline',
+      color: streakData.streakAtRisk ? '#EF4444' : '#F59E0B',
+    },
     { label: 'Total Prayers', value: `${streakData.totalPrayers}`, icon: 'calendar-outline', color: '#4F46E5' },
     { label: 'Prayer Buddies', value: `${prayerBuddiesCount}`, icon: 'people-outline', color: '#10B981' },
   ];
 
   const menuItems: MenuItem[] = [
-    { icon: 'notifications-outline', label: 'Notifications', hasToggle: true, toggleValue: notificationsEnabled },
+    { icon: 'notifications-outline', label: 'Notifications', onPress: () => setShowNotificationSettings(!showNotificationSettings) },
     { icon: 'settings-outline', label: 'Prayer Settings', onPress: () => setShowSettings(!showSettings) },
-    { icon: 'shield-outline', label: 'Privacy Settings' },
+    { icon: 'shield-outline', label: 'Privacy Settings', onPress: () => router.push('/privacy') },
+    { icon: 'stats-chart-outline', label: 'Statistics', onPress: () => router.push('/stats') },
+    { icon: 'repeat-outline', label: 'Qada Ledger', onPress: () => router.push('/qada') },
     { icon: 'people-outline', label: 'Invite Friends' },
     { icon: 'log-out-outline', label: 'Sign Out', danger: true, onPress: signOut },
   ];
@@ -213,7 +266,7 @@ export default function Profile() {
       {item.hasToggle ? (
         <Switch
           value={item.toggleValue}
-          onValueChange={setNotificationsEnabled}
+          onValueChange={item.onToggle}
           trackColor={{ false: '#D1D5DB', true: '#4F46E5' }}
           thumbColor="white"
         />
@@ -263,6 +316,27 @@ export default function Profile() {
                 />
               </View>
 
+              {/* Badges */}
+              <View style={styles.statsCard}>
+                <Text style={styles.settingsTitle}>Badges</Text>
+                <View style={styles.badgeGrid}>
+                  {BADGES.map((badge) => {
+                    const earnedAt = earnedBadges[badge.id];
+                    return (
+                      <View key={badge.id} style={styles.badgeItem}>
+                        <View style={[styles.badgeIcon, { backgroundColor: earnedAt ? `${badge.color}22` : '#F3F4F6' }]}>
+                          <Ionicons name={earnedAt ? badge.icon : 'lock-closed'} size={26} color={earnedAt ? badge.color : '#D1D5DB'} />
+                        </View>
+                        <Text style={[styles.badgeTitle, !earnedAt && { color: '#9CA3AF' }]}>{badge.title}</Text>
+                        <Text style={styles.badgeDetail}>
+                          {earnedAt ? dayjs(earnedAt).format('MMM D, YYYY') : badge.description}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              </View>
+
               {/* Prayer Settings (Collapsible) */}
               {showSettings && (
                 <View style={styles.settingsCard}>
@@ -276,7 +350,7 @@ export default function Profile() {
                     placeholder="Enter a custom username"
                     maxLength={30}
                   />
-                  <Text style={[styles.label, { fontSize: 12, opacity: 0.6, marginTop: 4 }]}>3-30 characters, letters, numbers, and underscores only</Text>
+                  <Text style={[styles.label, { fontSize: 12, opacity: 0.6, marginTop: 4 }]}>3-30 characters, letters, numbers, and underscores only. Others can search for it unless you turn that off in Privacy Settings.</Text>
                   
                   <Text style={styles.label}>Calculation Method</Text>
                   <RowSelector
@@ -323,6 +397,103 @@ export default function Profile() {
                 </View>
               )}
 
+              {/* Notification Settings (Collapsible) */}
+              {showNotificationSettings && (
+                <View style={styles.settingsCard}>
+                  <Text style={styles.settingsTitle}>Notification Settings</Text>
+                  <Text style={[styles.label, { marginTop: 0 }]}>Choose how each prayer notifies you and whether to get a reminder beforehand</Text>
+
+                  {PRAYER_KEYS.map((key) => {
+                    const pref = notificationPrefs[key];
+                    return (
+                      <View key={key} style={styles.notificationRow}>
+                        <Text style={styles.notificationPrayer}>{key.charAt(0).toUpperCase() + key.slice(1)}</Text>
+                        <Pressable
+                          onPress={() => updateNotificationPref(key, { mode: cycle(NOTIFICATION_MODES, pref.mode) })}
+                          style={styles.buttonSmall}
+                        >
+                          <Text style={styles.buttonSmallText}>{prettyMode(pref.mode)}</Text>
+                        </Pressable>
+                        <Pressable
+                          onPress={() => updateNotificationPref(key, { reminderMinutes: cycle(REMINDER_OPTIONS, pref.reminderMinutes) })}
+                          style={[styles.buttonSmall, pref.mode === 'off' && { opacity: 0.4 }]}
+                          disabled={pref.mode === 'off'}
+                        >
+                          <Text style={styles.buttonSmallText}>
+                            {pref.reminderMinutes ? `${pref.reminderMinutes} min before` : 'No reminder'}
+                          </Text>
+                        </Pressable>
+                      </View>
+                    );
+                  })}
+
+                  <Text style={styles.label}>Adhan sound</Text>
+                  <View style={styles.notificationRow}>
+                    <Text style={styles.notificationPrayer}>{getAdhanSound(adhanSound).label}</Text>
+                    <Pressable onPress={() => audioNotificationService.previewAdhanSound(adhanSound)} style={styles.buttonSmall}>
+                      <Text style={styles.buttonSmallText}>Preview</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => setAdhanSound(cycle(adhanSoundsFor('other').map((s) => s.id), adhanSound))}
+                      style={styles.buttonSmall}
+                    >
+                      <Text style={styles.buttonSmallText}>Change</Text>
+                    </Pressable>
+                  </View>
+
+                  <Text style={styles.label}>Fajr adhan sound</Text>
+                  <View style={styles.notificationRow}>
+                    <Text style={styles.notificationPrayer}>{getAdhanSound(fajrAdhanSound).label}</Text>
+                    <Pressable onPress={() => audioNotificationService.previewAdhanSound(fajrAdhanSound)} style={styles.buttonSmall}>
+                      <Text style={styles.buttonSmallText}>Preview</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => setFajrAdhanSound(cycle(adhanSoundsFor('fajr').map((s) => s.id), fajrAdhanSound))}
+                      style={styles.buttonSmall}
+                    >
+                      <Text style={styles.buttonSmallText}>Change</Text>
+                    </Pressable>
+                  </View>
+
+                  <Text style={styles.label}>Buddy nudges</Text>
+                  <View style={styles.notificationRow}>
+                    <Text style={styles.notificationPrayer}>Do not disturb</Text>
+                    <Switch
+                      value={nudgeSettings.doNotDisturb}
+                      onValueChange={(value) => setNudgeSettings((prev) => ({ ...prev, doNotDisturb: value }))}
+                      trackColor={{ false: '#D1D5DB', true: '#4F46E5' }}
+                      thumbColor="white"
+                    />
+                  </View>
+                  <View style={styles.notificationRow}>
+                    <Text style={styles.notificationPrayer}>Quiet hours</Text>
+                    <Pressable
+                      onPress={() =>
+                        setNudgeSettings((prev) => ({
+                          ...prev,
+                          quietHours: cycle(
+                            QUIET_HOURS_OPTIONS,
+                            QUIET_HOURS_OPTIONS.find((o) => formatQuietHours(o) === formatQuietHours(prev.quietHours)) ?? null
+                          ),
+                        }))
+                      }
+                      style={[styles.buttonSmall, nudgeSettings.doNotDisturb && { opacity: 0.4 }]}
+                      disabled={nudgeSettings.doNotDisturb}
+                    >
+                      <Text style={styles.buttonSmallText}>{formatQuietHours(nudgeSettings.quietHours)}</Text>
+                    </Pressable>
+                  </View>
+                  <Text style={[styles.label, { fontSize: 12, opacity: 0.6, marginTop: 4 }]}>
+                    Buddies cannot nudge you while do not disturb is on or during quiet hours.
+                  </Text>
+
+                  <View style={{ height: 16 }} />
+                  <TouchableOpacity style={styles.saveButton} onPress={saveNotifications}>
+                    <Text style={styles.saveButtonText}>Save Notifications</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
               {/* Menu Items */}
               <View style={styles.menuCard}>
                 <FlatList
@@ -378,6 +549,14 @@ function prettyCalc(key: CalcMethodKey) {
     default: return key;
   }
 }
+function prettyMode(mode: NotificationMode) {
+  switch (mode) {
+    case 'adhan': return 'Adhan';
+    case 'silent': return 'Silent';
+    case 'off': return 'Off';
+    default: return mode;
+  }
+}
 function prettyHighLat(v: HighLatKey) {
   switch (v) {
     case 'MiddleOfTheNight': return 'Middle of the Night';
@@ -470,6 +649,36 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     textAlign: 'center',
   },
+  badgeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  badgeItem: {
+    width: '33.33%',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  badgeIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 6,
+  },
+  badgeTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1F2937',
+    textAlign: 'center',
+  },
+  badgeDetail: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginTop: 2,
+  },
   settingsCard: {
     backgroundColor: 'white',
     borderRadius: 16,
@@ -544,5 +753,8 @@ const styles = StyleSheet.create({
   label: { fontSize: 14, opacity: 0.7, marginTop: 12, marginBottom: 4 },
   input: { borderWidth: 1, borderColor: '#ccc', borderRadius: 8, padding: 10, backgroundColor: '#fff' },
   rowBetween: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 6 },
-  buttonSmall: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: '#eef5ff' }
+  buttonSmall: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: '#eef5ff' },
+  buttonSmallText: { color: '#0077ff', fontWeight: '600' },
+  notificationRow: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 6 },
+  notificationPrayer: { flex: 1, fontSize: 16, fontWeight: '600', color: '#1F2937' }
 });
\ No newline at end of file
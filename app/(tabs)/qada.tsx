@@ -0,0 +1,334 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  SafeAreaView,
+  ScrollView,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import dayjs from 'dayjs';
+import { supabase } from '../../lib/supabase';
+import { qadaService, QadaBalance, QadaEntry, QadaProgress } from '../../services/qadaService';
+import { PRAYER_KEYS, PrayerKey } from '../../services/prayerTimes';
+
+export default function Qada() {
+  const [uid, setUid] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [balances, setBalances] = useState<Record<PrayerKey, QadaBalance> | null>(null);
+  const [progress, setProgress] = useState<QadaProgress>({ owed: 0, madeUp: 0, outstanding: 0 });
+  const [history, setHistory] = useState<QadaEntry[]>([]);
+  const [editing, setEditing] = useState<PrayerKey | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUid(data.session?.user?.id ?? null));
+    const { data: listener } = supabase.auth.onAuthStateChange((_e, s) => setUid(s?.user?.id ?? null));
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!uid) return;
+    const [nextBalances, nextProgress, nextHistory] = await Promise.all([
+      qadaService.getBalances(uid),
+      qadaService.getProgress(uid),
+      qadaService.getHistory(uid),
+    ]);
+    setBalances(nextBalances);
+    setProgress(nextProgress);
+    setHistory(nextHistory);
+    setLoading(false);
+  }, [uid]);
+
+  // Hidden tabs stay mounted, so refresh whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const makeUp = async (prayer: PrayerKey) => {
+    setBusy(true);
+    const { error } = await qadaService.makeUp(prayer);
+    setBusy(false);
+    if (error) Alert.alert('Could not record', error);
+    await load();
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    const count = parseInt(editValue, 10);
+    if (Number.isNaN(count) || count < 0) {
+      Alert.alert('Invalid number', 'Enter zero or a positive whole number.');
+      return;
+    }
+    setBusy(true);
+    const { error } = await qadaService.setOutstanding(editing, count);
+    setBusy(false);
+    if (error) {
+      Alert.alert('Save failed', error);
+      return;
+    }
+    setEditing(null);
+    await load();
+  };
+
+  const seed = () => {
+    Alert.alert(
+      'Count missed prayers',
+      'Add every past prayer you did not check in to your qada ledger? Days already counted and the last 3 days are skipped.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Count',
+          onPress: async () => {
+            setBusy(true);
+            const { added, error } = await qadaService.seedFromCheckins();
+            setBusy(false);
+            if (error || !added) {
+              Alert.alert('Could not count missed prayers', error ?? 'Unknown error');
+              return;
+            }
+            const total = PRAYER_KEYS.reduce((sum, p) => sum + added[p], 0);
+            Alert.alert('Ledger updated', total ? `${total} missed prayers added.` : 'No new missed prayers found.');
+            await load();
+          },
+        },
+      ]
+    );
+  };
+
+  const percent = progress.owed > 0 ? Math.min(100, Math.round((progress.madeUp / progress.owed) * 100)) : 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {loading || !balances ? (
+          <ActivityIndicator size="large" color="#4F46E5" style={{ marginTop: 50 }} />
+        ) : (
+          <>
+            {/* Progress */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Progress</Text>
+              <Text style={styles.bigNumber}>{progress.outstanding}</Text>
+              <Text style={styles.muted}>prayers outstanding</Text>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${percent}%` }]} />
+              </View>
+              <Text style={styles.muted}>
+                {progress.madeUp} of {progress.owed} made up ({percent}%)
+              </Text>
+            </View>
+
+            {/* Per-prayer balances */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Outstanding by prayer</Text>
+              {PRAYER_KEYS.map((prayer) => {
+                const balance = balances[prayer];
+                const isEditing = editing === prayer;
+                return (
+                  <View key={prayer} style={styles.row}>
+                    <Text style={styles.prayerName}>{prettyPrayer(prayer)}</Text>
+                    {isEditing ? (
+                      <>
+                        <TextInput
+                          value={editValue}
+                          onChangeText={setEditValue}
+                          keyboardType="number-pad"
+                          style={styles.input}
+                          autoFocus
+                        />
+                        <Pressable onPress={saveEdit} style={styles.buttonSmall} disabled={busy}>
+                          <Text style={styles.buttonSmallText}>Save</Text>
+                        </Pressable>
+                        <Pressable onPress={() => setEditing(null)} style={styles.buttonSmall}>
+                          <Text style={styles.buttonSmallText}>Cancel</Text>
+                        </Pressable>
+                      </>
+                    ) : (
+                      <>
+                        <Text style={styles.count}>{balance.outstanding}</Text>
+                        <Pressable
+                          onPress={() => {
+                            setEditing(prayer);
+                            setEditValue(String(balance.outstanding));
+                          }}
+                          style={styles.buttonSmall}
+                        >
+                          <Text style={styles.buttonSmallText}>Edit</Text>
+                        </Pressable>
+                        <Pressable
+                          onPress={() => makeUp(prayer)}
+                          style={[styles.buttonSmall, (busy || balance.outstanding === 0) && { opacity: 0.4 }]}
+                          disabled={busy || balance.outstanding === 0}
+                        >
+                          <Text style={styles.buttonSmallText}>Made up one</Text>
+                        </Pressable>
+                      </>
+                    )}
+                  </View>
+                );
+              })}
+
+              <TouchableOpacity style={styles.seedButton} onPress={seed} disabled={busy}>
+                <Ionicons name="calendar-outline" size={18} color="white" />
+                <Text style={styles.seedButtonText}>Count missed days from check-ins</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* History */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>History</Text>
+              {history.length === 0 ? (
+                <Text style={styles.muted}>No changes yet.</Text>
+              ) : (
+                history.map((entry) => (
+                  <View key={entry.id} style={styles.historyRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.historyText}>
+                        {describeEntry(entry)}
+                      </Text>
+                      {!!entry.note && <Text style={styles.mutedSmall}>{entry.note}</Text>}
+                    </View>
+                    <Text style={styles.mutedSmall}>{dayjs(entry.createdAt).format('MMM D, h:mm A')}</Text>
+                  </View>
+                ))
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function describeEntry(entry: QadaEntry) {
+  const name = prettyPrayer(entry.prayer);
+  switch (entry.reason) {
+    case 'made_up':
+      return `Made up one ${name}`;
+    case 'seed':
+      return `Added ${entry.delta} missed ${name}`;
+    default:
+      return entry.delta > 0 ? `Added ${entry.delta} ${name}` : `Removed ${-entry.delta} ${name}`;
+  }
+}
+
+function prettyPrayer(p: PrayerKey) {
+  return p.charAt(0).toUpperCase() + p.slice(1);
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  bigNumber: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  mutedSmall: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 8,
+    backgroundColor: '#10B981',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  prayerName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  count: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+    minWidth: 32,
+    textAlign: 'right',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    minWidth: 64,
+    backgroundColor: '#fff',
+  },
+  buttonSmall: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: '#eef5ff' },
+  buttonSmallText: { color: '#0077ff', fontWeight: '600' },
+  seedButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#4F46E5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  seedButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 8,
+  },
+  historyText: {
+    fontSize: 14,
+    color: '#1F2937',
+  },
+});
@@ -0,0 +1,303 @@
+import { useCallback, useRef, useState } from 'react';
+import { SafeAreaView, ScrollView, View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import dayjs from 'dayjs';
+import { statsService, PrayerStatsSummary, STATS_WINDOWS } from '../../services/statsService';
+import { PRAYER_KEYS, PrayerKey } from '../../services/prayerTimes';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const TREND_HEIGHT = 100;
+
+export default function Stats() {
+  const [days, setDays] = useState<number>(30);
+  const daysRef = useRef(days);
+  daysRef.current = days;
+  const [summary, setSummary] = useState<PrayerStatsSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  const load = useCallback(async () => {
+    const requested = days;
+    setLoading(true);
+    const next = await statsService.getSummary(requested);
+    // Another range may have been picked while this one was loading
+    if (requested !== daysRef.current) return;
+    setFailed(!next);
+    if (next) setSummary(next);
+    setLoading(false);
+  }, [days]);
+
+  // Hidden tabs stay mounted, so refresh whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Range picker */}
+        <View style={styles.chips}>
+          {STATS_WINDOWS.map((w) => (
+            <Pressable
+              key={w}
+              onPress={() => setDays(w)}
+              style={[styles.chip, days === w && styles.chipActive]}
+            >
+              <Text style={[styles.chipText, days === w && styles.chipTextActive]}>{w} days</Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {loading && !summary ? (
+          <ActivityIndicator size="large" color="#4F46E5" style={{ marginTop: 50 }} />
+        ) : !summary ? (
+          <View style={styles.card}>
+            <Text style={styles.muted}>Statistics could not be loaded. Check your connection and try again.</Text>
+          </View>
+        ) : (
+          <>
+            {failed && <Text style={styles.offline}>Could not refresh: showing the last loaded statistics</Text>}
+
+            {/* Headline numbers */}
+            <View style={styles.tiles}>
+              <View style={[styles.card, styles.tile]}>
+                <Text style={styles.bigNumber}>{percent(summary.overallRate)}</Text>
+                <Text style={styles.muted}>prayers completed</Text>
+              </View>
+              <View style={[styles.card, styles.tile]}>
+                <Text style={[styles.bigNumber, { color: '#10B981' }]}>{percent(summary.onTimeRate)}</Text>
+                <Text style={styles.muted}>on time</Text>
+              </View>
+            </View>
+
+            <View style={styles.card}>
+              <View style={styles.insightRow}>
+                <Text style={styles.insightLabel}>Needs attention</Text>
+                <Text style={styles.insightValue}>
+                  {summary.weakestPrayer ? prettyPrayer(summary.weakestPrayer) : '—'}
+                </Text>
+              </View>
+              <View style={styles.insightRow}>
+                <Text style={styles.insightLabel}>Best day</Text>
+                <Text style={styles.insightValue}>
+                  {summary.bestWeekday !== null ? WEEKDAY_NAMES[summary.bestWeekday] : '—'}
+                </Text>
+              </View>
+            </View>
+
+            {/* Per-prayer completion */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>By prayer</Text>
+              {PRAYER_KEYS.map((prayer) => {
+                const rate = summary.rates[prayer];
+                return (
+                  <View key={prayer} style={styles.barRow}>
+                    <Text style={styles.barLabel}>{prettyPrayer(prayer)}</Text>
+                    <View style={styles.barTrack}>
+                      <View
+                        style={[
+                          styles.barFill,
+                          { width: percent(rate.rate) },
+                          prayer === summary.weakestPrayer && { backgroundColor: '#F59E0B' },
+                        ]}
+                      />
+                    </View>
+                    <Text style={styles.barValue}>
+                      {rate.completed}/{rate.daysCounted}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+
+            {/* Weekdays */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>By weekday</Text>
+              {summary.weekdays.map((w) => (
+                <View key={w.weekday} style={styles.barRow}>
+                  <Text style={styles.barLabel}>{WEEKDAY_NAMES[w.weekday].slice(0, 3)}</Text>
+                  <View style={styles.barTrack}>
+                    <View style={[styles.barFill, { width: percent(w.rate) }]} />
+                  </View>
+                  <Text style={styles.barValue}>{percent(w.rate)}</Text>
+                </View>
+              ))}
+            </View>
+
+            {/* Trend */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{days <= 7 ? 'Daily' : 'Weekly'} trend</Text>
+              {summary.trend.length === 0 ? (
+                <Text style={styles.muted}>No check-ins yet.</Text>
+              ) : (
+                <>
+                  <View style={styles.trend}>
+                    {summary.trend.map((point) => (
+                      <View key={point.bucketStart} style={styles.trendColumn}>
+                        <View style={[styles.trendBar, { height: Math.max(2, point.rate * TREND_HEIGHT) }]} />
+                      </View>
+                    ))}
+                  </View>
+                  <View style={styles.trendAxis}>
+                    <Text style={styles.mutedSmall}>{dayjs(summary.trend[0].bucketStart).format('MMM D')}</Text>
+                    <Text style={styles.mutedSmall}>Today</Text>
+                  </View>
+                </>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function percent(rate: number): `${number}%` {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function prettyPrayer(p: PrayerKey) {
+  return p.charAt(0).toUpperCase() + p.slice(1);
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#E5E7EB',
+  },
+  chipActive: {
+    backgroundColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  tiles: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  tile: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  bigNumber: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  mutedSmall: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  offline: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  insightRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  insightLabel: {
+    fontSize: 15,
+    color: '#6B7280',
+  },
+  insightValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  barLabel: {
+    width: 64,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 8,
+    backgroundColor: '#10B981',
+  },
+  barValue: {
+    minWidth: 48,
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'right',
+  },
+  trend: {
+    height: TREND_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  trendColumn: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  trendBar: {
+    backgroundColor: '#4F46E5',
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  trendAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+});
@@ -1,8 +1,10 @@
 import { useEffect, useState, createContext, useContext } from 'react';
+import { Alert } from 'react-native';
 import { Slot, useRouter, useSegments } from 'expo-router';
 import { supabase } from '../lib/supabase';
 import NotificationsBootstrap from '@/notifications/bootstrap';
 import { pushNotificationService } from '@/notifications/pushService';
+import { inviteService, describeRedeemResult } from '@/services/inviteService';
 
 type SessionT = { user: { id: string; email?: string | null } | null } | null;
 
@@ -46,6 +48,21 @@ export default function RootLayout() {
     }
   }, [session?.user?.id]);
 
+  // Redeem an invite link that was opened before signing in
+  useEffect(() => {
+    if (!session?.user?.id) return;
+    inviteService.takePendingCode().then(async (code) => {
+      if (!code) return;
+      const { result, error } = await inviteService.redeem(code);
+      if (result) {
+        const { title, message } = describeRedeemResult(result);
+        Alert.alert(title, message);
+      } else {
+        Alert.alert('Invite failed', error ?? 'Unknown error');
+      }
+    });
+  }, [session?.user?.id]);
+
   return (
     <SessionCtx.Provider value={session}>
       <NotificationsBootstrap />
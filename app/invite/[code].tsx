@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import { View, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useSession } from '../_layout';
+import { inviteService, describeRedeemResult } from '../../services/inviteService';
+
+// Opened by invite links (prayeraccountabilityapp://invite/ABC123)
+export default function Invite() {
+  const { code } = useLocalSearchParams<{ code: string }>();
+  const session = useSession();
+  const router = useRouter();
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (session === undefined || !code || handled.current) return;
+    handled.current = true;
+
+    // The root layout sends signed-out users to login; the code is redeemed after sign-in
+    if (!session?.user) {
+      inviteService.savePendingCode(code);
+      return;
+    }
+
+    inviteService.redeem(code).then(({ result, error }) => {
+      if (result) {
+        const { title, message } = describeRedeemResult(result);
+        Alert.alert(title, message);
+      } else {
+        Alert.alert('Invite failed', error ?? 'Unknown error');
+      }
+      router.replace('/buddy');
+    });
+  }, [session, code, router]);
+
+  return (
+    <View style={styles.container}>
+      <ActivityIndicator size="large" color="#4F46E5" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+});
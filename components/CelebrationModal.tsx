@@ -0,0 +1,111 @@
+import { useEffect, useRef } from 'react';
+import { Animated, Modal, View, Text, Pressable, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+
+export interface Celebration {
+  /** Small heading above the title, e.g. "Badge earned" */
+  kicker: string;
+  title: string;
+  message: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}
+
+interface Props {
+  celebration: Celebration | null;
+  onDismiss: () => void;
+}
+
+// Full-screen card for milestones; the icon pops in with a spring
+export function CelebrationModal({ celebration, onDismiss }: Props) {
+  const scale = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!celebration) return;
+    scale.setValue(0);
+    Animated.spring(scale, { toValue: 1, friction: 4, tension: 80, useNativeDriver: true }).start();
+    if (process.env.EXPO_OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  }, [celebration, scale]);
+
+  return (
+    <Modal visible={!!celebration} transparent animationType="fade" onRequestClose={onDismiss}>
+      <View style={styles.backdrop}>
+        {celebration && (
+          <View style={styles.card}>
+            <Animated.View
+              style={[styles.iconRing, { backgroundColor: `${celebration.color}22`, transform: [{ scale }] }]}
+            >
+              <Ionicons name={celebration.icon} size={56} color={celebration.color} />
+            </Animated.View>
+            <Text style={[styles.kicker, { color: celebration.color }]}>{celebration.kicker}</Text>
+            <Text style={styles.title}>{celebration.title}</Text>
+            <Text style={styles.message}>{celebration.message}</Text>
+            <Pressable style={[styles.button, { backgroundColor: celebration.color }]} onPress={onDismiss}>
+              <Text style={styles.buttonText}>Alhamdulillah</Text>
+            </Pressable>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(17, 24, 39, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  card: {
+    width: '100%',
+    backgroundColor: 'white',
+    borderRadius: 24,
+    padding: 28,
+    alignItems: 'center',
+  },
+  iconRing: {
+    width: 112,
+    height: 112,
+    borderRadius: 56,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  kicker: {
+    fontSize: 13,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1F2937',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  button: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,397 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  SafeAreaView,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  Modal,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  goalService,
+  describeGoal,
+  maxGoalTarget,
+  GoalMetric,
+  GoalPeriod,
+  GoalProgress,
+  GoalStatus,
+} from '../services/goalService';
+import { PRAYER_KEYS, PrayerKey } from '../services/prayerTimes';
+
+interface Props {
+  userId: string;
+  /** Changes whenever progress may have moved, e.g. after check-ins sync */
+  refreshKey: string;
+}
+
+const STATUS_STYLE: Record<GoalStatus, { color: string; label: string }> = {
+  completed: { color: '#10B981', label: 'Reached' },
+  on_track: { color: '#4F46E5', label: 'On track' },
+  at_risk: { color: '#F59E0B', label: 'Behind pace' },
+  missed: { color: '#9CA3AF', label: 'Out of reach' },
+};
+
+const METRICS: { key: GoalMetric; label: string }[] = [
+  { key: 'prayers', label: 'Prayers' },
+  { key: 'on_time', label: 'On time' },
+  { key: 'full_days', label: 'Full days' },
+];
+
+// Goals for the current week and month, shown on Home under today's progress
+export function GoalsCard({ userId, refreshKey }: Props) {
+  const [goals, setGoals] = useState<GoalProgress[]>([]);
+  const [offline, setOffline] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [showAdd, setShowAdd] = useState(false);
+
+  const load = useCallback(async () => {
+    const result = await goalService.refresh(userId);
+    setGoals(result.goals);
+    setOffline(result.offline);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const confirmDelete = (item: GoalProgress) => {
+    Alert.alert('Remove goal?', describeGoal(item.goal), [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await goalService.deleteGoal(item.goal.id);
+          if (error) Alert.alert('Could not remove goal', error);
+          await load();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Goals</Text>
+        <TouchableOpacity style={styles.addButton} onPress={() => setShowAdd(true)}>
+          <Ionicons name="add" size={18} color="#4F46E5" />
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator color="#4F46E5" />
+      ) : goals.length === 0 ? (
+        <Text style={styles.muted}>Set a weekly or monthly goal, like 5 full days this week.</Text>
+      ) : (
+        goals.map((item) => {
+          const { color, label } = STATUS_STYLE[item.status];
+          const percent = Math.min(100, Math.round((item.progress / item.goal.target) * 100));
+          return (
+            <Pressable key={item.goal.id} style={styles.goal} onLongPress={() => confirmDelete(item)}>
+              <View style={styles.goalHeader}>
+                <Text style={styles.goalName}>{describeGoal(item.goal)}</Text>
+                <Text style={[styles.goalStatus, { color }]}>{label}</Text>
+              </View>
+              <View style={styles.track}>
+                <View style={[styles.fill, { width: `${percent}%`, backgroundColor: color }]} />
+              </View>
+              <Text style={styles.goalDetail}>
+                {item.progress}/{item.goal.target}
+                {item.status !== 'completed' && ` · ${item.daysLeft} ${item.daysLeft === 1 ? 'day' : 'days'} left`}
+              </Text>
+            </Pressable>
+          );
+        })
+      )}
+      {goals.length > 0 && <Text style={styles.hint}>Press and hold a goal to remove it</Text>}
+      {offline && <Text style={styles.hint}>Offline: showing the last saved progress</Text>}
+
+      <AddGoalModal
+        visible={showAdd}
+        onClose={() => setShowAdd(false)}
+        onCreate={async (goal) => {
+          const { error } = await goalService.createGoal(userId, goal);
+          if (error) {
+            Alert.alert('Could not add goal', error);
+            return;
+          }
+          setShowAdd(false);
+          await load();
+        }}
+      />
+    </View>
+  );
+}
+
+interface AddGoalModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onCreate: (goal: { period: GoalPeriod; metric: GoalMetric; prayer: PrayerKey | null; target: number }) => Promise<void>;
+}
+
+function AddGoalModal({ visible, onClose, onCreate }: AddGoalModalProps) {
+  const [period, setPeriod] = useState<GoalPeriod>('week');
+  const [metric, setMetric] = useState<GoalMetric>('full_days');
+  const [prayer, setPrayer] = useState<PrayerKey | null>(null);
+  const [target, setTarget] = useState('5');
+  const [saving, setSaving] = useState(false);
+
+  const goal = { period, metric, prayer: metric === 'full_days' ? null : prayer, target: parseInt(target, 10) || 0 };
+
+  const save = async () => {
+    setSaving(true);
+    await onCreate(goal);
+    setSaving(false);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>New Goal</Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <View style={styles.modalContent}>
+          <Text style={styles.label}>Every</Text>
+          <ChipRow
+            options={[{ key: 'week', label: 'Week' }, { key: 'month', label: 'Month' }]}
+            value={period}
+            onChange={setPeriod}
+          />
+
+          <Text style={styles.label}>Count</Text>
+          <ChipRow options={METRICS} value={metric} onChange={setMetric} />
+
+          {metric !== 'full_days' && (
+            <>
+              <Text style={styles.label}>Prayer</Text>
+              <ChipRow
+                options={[
+                  { key: 'any', label: 'Any' },
+                  ...PRAYER_KEYS.map((p) => ({ key: p, label: p.charAt(0).toUpperCase() + p.slice(1) })),
+                ]}
+                value={prayer ?? 'any'}
+                onChange={(key) => setPrayer(key === 'any' ? null : (key as PrayerKey))}
+              />
+            </>
+          )}
+
+          <Text style={styles.label}>Target (up to {maxGoalTarget(goal)})</Text>
+          <TextInput
+            value={target}
+            onChangeText={setTarget}
+            keyboardType="number-pad"
+            style={styles.input}
+            maxLength={3}
+          />
+
+          <Text style={styles.preview}>{describeGoal(goal)}</Text>
+
+          <TouchableOpacity
+            style={[styles.saveButton, (saving || goal.target < 1) && { opacity: 0.5 }]}
+            onPress={save}
+            disabled={saving || goal.target < 1}
+          >
+            <Text style={styles.saveButtonText}>Add Goal</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+function ChipRow<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { key: T; label: string }[];
+  value: T;
+  onChange: (key: T) => void;
+}) {
+  return (
+    <View style={styles.chips}>
+      {options.map((o) => (
+        <Pressable key={o.key} onPress={() => onChange(o.key)} style={[styles.chip, value === o.key && styles.chipActive]}>
+          <Text style={[styles.chipText, value === o.key && styles.chipTextActive]}>{o.label}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: '#EEF2FF',
+  },
+  addButtonText: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  goal: {
+    paddingVertical: 8,
+  },
+  goalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  goalName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  goalStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 6,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 8,
+  },
+  goalDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  hint: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: '#6366F1',
+    fontWeight: '500',
+  },
+  modalContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: '#E5E7EB',
+  },
+  chipActive: {
+    backgroundColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 14,
+    backgroundColor: '#ffffff',
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  preview: {
+    marginTop: 16,
+    fontSize: 15,
+    color: '#4F46E5',
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  saveButton: {
+    marginTop: 16,
+    backgroundColor: '#4F46E5',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,176 @@
+-- Qada (missed prayer) ledger
+-- Keeps a per-prayer count of prayers owed, seeded from unchecked past days in
+-- prayer_checkins or entered manually, and a history of every change to it
+
+-- Create qada_balances table: one row per user and prayer
+CREATE TABLE IF NOT EXISTS qada_balances (
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    prayer TEXT NOT NULL CHECK (prayer IN ('fajr', 'dhuhr', 'asr', 'maghrib', 'isha')),
+    outstanding INTEGER NOT NULL DEFAULT 0 CHECK (outstanding >= 0),
+    seeded_through DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, prayer)
+);
+
+-- Create qada_entries table: history of changes to a balance
+CREATE TABLE IF NOT EXISTS qada_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    prayer TEXT NOT NULL CHECK (prayer IN ('fajr', 'dhuhr', 'asr', 'maghrib', 'isha')),
+    delta INTEGER NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('seed', 'manual', 'made_up')),
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS on qada tables
+ALTER TABLE qada_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE qada_entries ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for qada_balances: the ledger is private to its owner and only
+-- changes through the functions below, so every change lands in qada_entries
+DROP POLICY IF EXISTS "Users can view own qada balances" ON qada_balances;
+CREATE POLICY "Users can view own qada balances" ON qada_balances
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own qada balances" ON qada_balances;
+DROP POLICY IF EXISTS "Users can update own qada balances" ON qada_balances;
+DROP POLICY IF EXISTS "Users can delete own qada balances" ON qada_balances;
+
+-- RLS policies for qada_entries: history is written by the functions below
+DROP POLICY IF EXISTS "Users can view own qada entries" ON qada_entries;
+CREATE POLICY "Users can view own qada entries" ON qada_entries
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own qada entries" ON qada_entries;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_qada_entries_user_created ON qada_entries(user_id, created_at DESC);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_qada_balances_updated_at ON qada_balances;
+CREATE TRIGGER update_qada_balances_updated_at BEFORE UPDATE ON qada_balances
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE qada_balances IS 'Outstanding missed (qada) prayers per user and prayer';
+COMMENT ON TABLE qada_entries IS 'History of qada balance changes: seeding, manual edits and make-ups';
+COMMENT ON COLUMN qada_balances.seeded_through IS 'Last day already counted from prayer_checkins, so seeding never counts a day twice';
+
+-- Create a function to add unchecked past days to the caller's balances
+-- Counts days from from_param (or the day after the last seed, or the first check-in)
+-- through the last day that can no longer be checked in late, in the user's timezone,
+-- where a prayer has no completed check-in
+CREATE OR REPLACE FUNCTION seed_qada_from_checkins(from_param DATE DEFAULT NULL)
+RETURNS TABLE(prayer_name TEXT, added INTEGER) AS $$
+DECLARE
+    backfill_days CONSTANT INTEGER := 3;
+    uid UUID := auth.uid();
+    end_day DATE;
+    start_day DATE;
+    p TEXT;
+    missed INTEGER;
+    last_seeded DATE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT ((NOW() AT TIME ZONE COALESCE(tz, 'UTC'))::date - backfill_days - 1) INTO end_day
+    FROM profiles WHERE id = uid;
+
+    FOREACH p IN ARRAY ARRAY['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'] LOOP
+        SELECT seeded_through INTO last_seeded
+        FROM qada_balances WHERE user_id = uid AND qada_balances.prayer = p;
+
+        -- GREATEST ignores NULLs, so either bound alone is enough
+        start_day := COALESCE(
+            GREATEST(last_seeded + 1, from_param),
+            (SELECT MIN(day) FROM prayer_checkins WHERE user_id = uid)
+        );
+
+        missed := 0;
+        IF start_day IS NOT NULL AND start_day <= end_day THEN
+            SELECT COUNT(*) INTO missed
+            FROM generate_series(start_day, end_day, INTERVAL '1 day') AS d(day)
+            WHERE NOT EXISTS (
+                SELECT 1 FROM prayer_checkins c
+                WHERE c.user_id = uid AND c.day = d.day::date AND c.prayer = p AND c.completed
+            );
+        END IF;
+
+        INSERT INTO qada_balances (user_id, prayer, outstanding, seeded_through)
+        VALUES (uid, p, missed, end_day)
+        ON CONFLICT (user_id, prayer) DO UPDATE
+        SET outstanding = qada_balances.outstanding + missed,
+            seeded_through = GREATEST(qada_balances.seeded_through, end_day);
+
+        IF missed > 0 THEN
+            INSERT INTO qada_entries (user_id, prayer, delta, reason, note)
+            VALUES (uid, p, missed, 'seed', format('Unchecked days %s to %s', start_day, end_day));
+        END IF;
+
+        prayer_name := p;
+        added := missed;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to set the caller's outstanding count for a prayer, recording the change
+CREATE OR REPLACE FUNCTION set_qada_outstanding(prayer_param TEXT, outstanding_param INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    uid UUID := auth.uid();
+    previous INTEGER;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF outstanding_param < 0 THEN
+        RAISE EXCEPTION 'Outstanding count cannot be negative';
+    END IF;
+
+    SELECT outstanding INTO previous
+    FROM qada_balances WHERE user_id = uid AND prayer = prayer_param;
+
+    INSERT INTO qada_balances (user_id, prayer, outstanding)
+    VALUES (uid, prayer_param, outstanding_param)
+    ON CONFLICT (user_id, prayer) DO UPDATE SET outstanding = outstanding_param;
+
+    IF outstanding_param <> COALESCE(previous, 0) THEN
+        INSERT INTO qada_entries (user_id, prayer, delta, reason)
+        VALUES (uid, prayer_param, outstanding_param - COALESCE(previous, 0), 'manual');
+    END IF;
+
+    RETURN outstanding_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to record one made-up prayer, returning the new outstanding count
+CREATE OR REPLACE FUNCTION record_qada_made_up(prayer_param TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    uid UUID := auth.uid();
+    remaining INTEGER;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE qada_balances
+    SET outstanding = outstanding - 1
+    WHERE user_id = uid AND prayer = prayer_param AND outstanding > 0
+    RETURNING outstanding INTO remaining;
+
+    IF remaining IS NULL THEN
+        RAISE EXCEPTION 'No outstanding % prayers to make up', prayer_param;
+    END IF;
+
+    INSERT INTO qada_entries (user_id, prayer, delta, reason)
+    VALUES (uid, prayer_param, -1, 'made_up');
+
+    RETURN remaining;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
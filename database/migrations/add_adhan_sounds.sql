@@ -0,0 +1,12 @@
+-- Migration to add adhan sound selection to profiles
+-- Ids match the sound catalog in notifications/adhanSounds.ts; unknown ids fall back to the default in the app
+
+-- Add adhan_sound column to profiles table (Dhuhr through Isha)
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS adhan_sound TEXT NOT NULL DEFAULT 'adhan1';
+
+-- Add fajr_adhan_sound column to profiles table
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS fajr_adhan_sound TEXT NOT NULL DEFAULT 'adhan1';
+
+-- Add comments for documentation
+COMMENT ON COLUMN profiles.adhan_sound IS 'Adhan recording used for Dhuhr, Asr, Maghrib and Isha';
+COMMENT ON COLUMN profiles.fajr_adhan_sound IS 'Adhan recording used for Fajr';
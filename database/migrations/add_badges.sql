@@ -0,0 +1,140 @@
+-- Migration to add achievement badges
+-- Badges are awarded on the server by award_badges(), which runs whenever check-ins,
+-- completed days or buddy links change, so a badge is earned once however the data
+-- arrived (online, replayed from the offline queue or backfilled).
+-- Buddies can see each other's badges. Titles and icons live in services/badgeService.ts.
+
+-- Create user_badges table: one row per user and badge
+CREATE TABLE IF NOT EXISTS user_badges (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    badge TEXT NOT NULL CHECK (badge IN ('first_full_day', 'streak_7', 'streak_30', 'streak_100', 'fajr_40', 'first_buddy')),
+    earned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Set once the app has announced the badge
+    seen_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE(user_id, badge)
+);
+
+-- Enable RLS on user_badges
+ALTER TABLE user_badges ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for user_badges; rows are only written by award_badges and mark_badges_seen
+DROP POLICY IF EXISTS "Users can view own badges" ON user_badges;
+CREATE POLICY "Users can view own badges" ON user_badges
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Buddies can view badges" ON user_badges;
+CREATE POLICY "Buddies can view badges" ON user_badges
+    FOR SELECT USING (
+        auth.uid() IN (
+            SELECT user_a FROM buddy_links WHERE user_b = user_badges.user_id AND status = 'accepted'
+            UNION
+            SELECT user_b FROM buddy_links WHERE user_a = user_badges.user_id AND status = 'accepted'
+        )
+    );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_user_badges_user_id ON user_badges(user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE user_badges IS 'Achievement badges a user has earned, with when they were earned and announced';
+
+-- Create a function to award every badge a user now qualifies for
+-- Returns the badges awarded by this call
+CREATE OR REPLACE FUNCTION award_badges(user_id_param UUID)
+RETURNS SETOF TEXT AS $$
+DECLARE
+    longest_run INTEGER;
+    fajr_days INTEGER;
+    earned TEXT[] := ARRAY[]::TEXT[];
+    awarded TEXT;
+BEGIN
+    SELECT COALESCE(MAX(run_length), 0) INTO longest_run FROM streak_runs(user_id_param);
+    SELECT COUNT(DISTINCT day) INTO fajr_days
+    FROM prayer_checkins
+    WHERE user_id = user_id_param AND prayer = 'fajr' AND completed;
+
+    IF EXISTS (SELECT 1 FROM prayer_completions WHERE user_id = user_id_param) THEN
+        earned := array_append(earned, 'first_full_day');
+    END IF;
+    IF longest_run >= 7 THEN
+        earned := array_append(earned, 'streak_7');
+    END IF;
+    IF longest_run >= 30 THEN
+        earned := array_append(earned, 'streak_30');
+    END IF;
+    IF longest_run >= 100 THEN
+        earned := array_append(earned, 'streak_100');
+    END IF;
+    IF fajr_days >= 40 THEN
+        earned := array_append(earned, 'fajr_40');
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM buddy_links
+        WHERE (user_a = user_id_param OR user_b = user_id_param) AND status = 'accepted'
+    ) THEN
+        earned := array_append(earned, 'first_buddy');
+    END IF;
+
+    FOR awarded IN
+        INSERT INTO user_badges (user_id, badge)
+        SELECT user_id_param, b FROM unnest(earned) AS b
+        ON CONFLICT (user_id, badge) DO NOTHING
+        RETURNING user_badges.badge
+    LOOP
+        RETURN NEXT awarded;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to record that the caller has seen newly earned badges
+CREATE OR REPLACE FUNCTION mark_badges_seen(badges_param TEXT[])
+RETURNS VOID AS $$
+BEGIN
+    UPDATE user_badges
+    SET seen_at = NOW()
+    WHERE user_id = auth.uid() AND badge = ANY(badges_param) AND seen_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create triggers to award badges as progress changes
+CREATE OR REPLACE FUNCTION trigger_award_badges()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'buddy_links' THEN
+        IF NEW.status = 'accepted' THEN
+            PERFORM award_badges(NEW.user_a);
+            PERFORM award_badges(NEW.user_b);
+        END IF;
+    ELSE
+        PERFORM award_badges(NEW.user_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS award_badges_completions_trigger ON prayer_completions;
+CREATE TRIGGER award_badges_completions_trigger
+    AFTER INSERT OR UPDATE ON prayer_completions
+    FOR EACH ROW EXECUTE FUNCTION trigger_award_badges();
+
+DROP TRIGGER IF EXISTS award_badges_checkins_trigger ON prayer_checkins;
+CREATE TRIGGER award_badges_checkins_trigger
+    AFTER INSERT OR UPDATE OF completed ON prayer_checkins
+    FOR EACH ROW WHEN (NEW.completed AND NEW.prayer = 'fajr')
+    EXECUTE FUNCTION trigger_award_badges();
+
+-- Excused days and freezes can join two runs into a longer one
+DROP TRIGGER IF EXISTS award_badges_excused_trigger ON excused_days;
+CREATE TRIGGER award_badges_excused_trigger
+    AFTER INSERT OR UPDATE ON excused_days
+    FOR EACH ROW EXECUTE FUNCTION trigger_award_badges();
+
+DROP TRIGGER IF EXISTS award_badges_buddy_links_trigger ON buddy_links;
+CREATE TRIGGER award_badges_buddy_links_trigger
+    AFTER INSERT OR UPDATE OF status ON buddy_links
+    FOR EACH ROW EXECUTE FUNCTION trigger_award_badges();
+
+-- Award badges for progress made before this migration, without announcing them
+SELECT award_badges(id) FROM profiles;
+UPDATE user_badges SET seen_at = earned_at WHERE seen_at IS NULL;
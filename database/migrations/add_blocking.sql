@@ -0,0 +1,317 @@
+-- Migration to add blocking and reporting users
+-- Blocking turns the pair's buddy link into a 'blocked' link only the blocker can see or
+-- remove. Blocked users can't send each other buddy requests, circle invites or nudges,
+-- don't appear in username search, and see none of each other's activity. Reports keep a
+-- reason for abuse review and are only readable by the reporter and the service role.
+
+-- Allow the 'blocked' status the app already expects
+ALTER TABLE buddy_links DROP CONSTRAINT IF EXISTS buddy_links_status_check;
+ALTER TABLE buddy_links ADD CONSTRAINT buddy_links_status_check
+    CHECK (status IN ('pending', 'accepted', 'rejected', 'blocked'));
+
+-- Add blocked_by column to buddy_links
+ALTER TABLE buddy_links
+ADD COLUMN IF NOT EXISTS blocked_by UUID REFERENCES profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE buddy_links DROP CONSTRAINT IF EXISTS chk_buddy_links_blocked_by;
+ALTER TABLE buddy_links ADD CONSTRAINT chk_buddy_links_blocked_by
+    CHECK ((status = 'blocked') = (blocked_by IS NOT NULL));
+
+-- Add comments for documentation
+COMMENT ON COLUMN buddy_links.blocked_by IS 'Which of the pair blocked the other; set only for blocked links';
+
+-- Create a function checking whether either user has blocked the other
+CREATE OR REPLACE FUNCTION is_blocked(user_a_param UUID, user_b_param UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM buddy_links
+        WHERE status = 'blocked'
+          AND user_a = LEAST(user_a_param, user_b_param)
+          AND user_b = GREATEST(user_a_param, user_b_param)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- RLS policies for buddy_links
+-- A blocked link is only visible to the blocker, so blocked users can't tell or undo it.
+-- Clients can't set or clear 'blocked' themselves; that goes through block_user() and unblock_user().
+DROP POLICY IF EXISTS "Users can view their buddy links" ON buddy_links;
+CREATE POLICY "Users can view their buddy links" ON buddy_links
+    FOR SELECT USING (
+        (auth.uid() = user_a OR auth.uid() = user_b)
+        AND (status <> 'blocked' OR blocked_by = auth.uid())
+    );
+
+-- Requests are created by one of the pair, pending, and ordered like create_buddy_request()
+DROP POLICY IF EXISTS "Users can create buddy links" ON buddy_links;
+CREATE POLICY "Users can create buddy links" ON buddy_links
+    FOR INSERT WITH CHECK (
+        (auth.uid() = user_a OR auth.uid() = user_b)
+        AND user_a < user_b
+        AND created_by = auth.uid()
+        AND status = 'pending'
+    );
+
+-- Only the receiver of a pending request can update it, to accept or reject it or mark it
+-- seen; the requester can't accept their own request. Clients can only change those two
+-- columns, so the pair and the requester stay fixed.
+DROP POLICY IF EXISTS "Users can update their buddy links" ON buddy_links;
+CREATE POLICY "Users can update their buddy links" ON buddy_links
+    FOR UPDATE USING (
+        (auth.uid() = user_a OR auth.uid() = user_b) AND created_by <> auth.uid() AND status = 'pending'
+    ) WITH CHECK (
+        (auth.uid() = user_a OR auth.uid() = user_b) AND created_by <> auth.uid()
+        AND status IN ('pending', 'accepted', 'rejected') AND blocked_by IS NULL
+    );
+
+REVOKE UPDATE ON buddy_links FROM anon, authenticated;
+GRANT UPDATE (status, receiver_seen_at) ON buddy_links TO authenticated;
+
+DROP POLICY IF EXISTS "Users can delete their buddy links" ON buddy_links;
+CREATE POLICY "Users can delete their buddy links" ON buddy_links
+    FOR DELETE USING (
+        (auth.uid() = user_a OR auth.uid() = user_b) AND status <> 'blocked'
+    );
+
+-- RLS policies for nudges: no nudges to or from blocked users, and earlier ones are hidden
+DROP POLICY IF EXISTS "Users can view their nudges" ON nudges;
+CREATE POLICY "Users can view their nudges" ON nudges
+    FOR SELECT USING (
+        (auth.uid() = from_user OR auth.uid() = to_user) AND NOT is_blocked(from_user, to_user)
+    );
+
+DROP POLICY IF EXISTS "Users can send nudges to buddies" ON nudges;
+CREATE POLICY "Users can send nudges to buddies" ON nudges
+    FOR INSERT WITH CHECK (
+        auth.uid() = from_user AND
+        NOT is_blocked(from_user, to_user) AND
+        to_user IN (
+            SELECT user_a FROM buddy_links WHERE user_b = auth.uid() AND status = 'accepted'
+            UNION
+            SELECT user_b FROM buddy_links WHERE user_a = auth.uid() AND status = 'accepted'
+        )
+    );
+
+-- Create user_reports table
+CREATE TABLE IF NOT EXISTS user_reports (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reporter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    reported_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'other')),
+    details TEXT CHECK (length(details) <= 1000),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewed', 'dismissed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    CHECK (reporter_id <> reported_id)
+);
+
+-- Enable RLS on user_reports
+ALTER TABLE user_reports ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for user_reports; reviews happen with the service role
+DROP POLICY IF EXISTS "Users can view own reports" ON user_reports;
+CREATE POLICY "Users can view own reports" ON user_reports
+    FOR SELECT USING (auth.uid() = reporter_id);
+
+DROP POLICY IF EXISTS "Users can file reports" ON user_reports;
+CREATE POLICY "Users can file reports" ON user_reports
+    FOR INSERT WITH CHECK (auth.uid() = reporter_id AND status = 'open' AND reviewed_at IS NULL);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_user_reports_status ON user_reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_user_reports_reported ON user_reports(reported_id);
+
+COMMENT ON TABLE user_reports IS 'Reports of abusive users, kept for review';
+
+-- Create a function to block a user, optionally filing a report
+-- Replaces any link between the pair, so a buddy stops being one. Leaves a shared circle
+-- alone; activity_visibility() hides the pair from each other there.
+CREATE OR REPLACE FUNCTION block_user(target_id UUID, reason_param TEXT DEFAULT NULL, details_param TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+    uid UUID := auth.uid();
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF target_id = uid THEN
+        RAISE EXCEPTION 'You cannot block yourself';
+    END IF;
+
+    INSERT INTO buddy_links (user_a, user_b, created_by, status, blocked_by)
+    VALUES (LEAST(uid, target_id), GREATEST(uid, target_id), uid, 'blocked', uid)
+    ON CONFLICT (user_a, user_b) DO UPDATE
+    SET status = 'blocked', blocked_by = uid, created_by = uid, receiver_seen_at = NULL
+    -- If the other user blocked first, their block stands
+    WHERE buddy_links.status <> 'blocked';
+
+    IF reason_param IS NOT NULL THEN
+        INSERT INTO user_reports (reporter_id, reported_id, reason, details)
+        VALUES (uid, target_id, reason_param, NULLIF(trim(details_param), ''));
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to remove the caller's block on a user
+CREATE OR REPLACE FUNCTION unblock_user(target_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM buddy_links
+    WHERE user_a = LEAST(auth.uid(), target_id)
+      AND user_b = GREATEST(auth.uid(), target_id)
+      AND status = 'blocked'
+      AND blocked_by = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function listing the users the caller has blocked
+-- buddy_profiles leaves blocked users out, so their names come from here
+CREATE OR REPLACE FUNCTION blocked_users()
+RETURNS TABLE(user_id UUID, display_name TEXT, blocked_at TIMESTAMP WITH TIME ZONE) AS $$
+    SELECT
+        p.id,
+        p.username,
+        bl.updated_at
+    FROM buddy_links bl
+    JOIN profiles p ON p.id = CASE WHEN bl.user_a = auth.uid() THEN bl.user_b ELSE bl.user_a END
+    WHERE bl.status = 'blocked' AND bl.blocked_by = auth.uid()
+    ORDER BY bl.updated_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Buddy requests: blocked pairs can't request each other, and aren't told why
+CREATE OR REPLACE FUNCTION create_buddy_request(requester UUID, target UUID)
+RETURNS TEXT AS $$
+DECLARE
+    existing buddy_links%ROWTYPE;
+BEGIN
+    SELECT * INTO existing FROM buddy_links
+    WHERE user_a = LEAST(requester, target) AND user_b = GREATEST(requester, target);
+
+    IF NOT FOUND THEN
+        INSERT INTO buddy_links (user_a, user_b, created_by, status, receiver_seen_at)
+        VALUES (LEAST(requester, target), GREATEST(requester, target), requester, 'pending', NULL)
+        RETURNING * INTO existing;
+    ELSIF existing.status = 'blocked' THEN
+        RAISE EXCEPTION 'User not found';
+    ELSIF existing.status = 'pending' AND existing.created_by = target THEN
+        UPDATE buddy_links SET status = 'accepted' WHERE id = existing.id
+        RETURNING * INTO existing;
+    ELSIF existing.status = 'rejected' THEN
+        UPDATE buddy_links
+        SET status = 'pending', created_by = requester, receiver_seen_at = NULL
+        WHERE id = existing.id
+        RETURNING * INTO existing;
+    END IF;
+
+    RETURN existing.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_buddy_request(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Username search leaves out blocked users in both directions, keeping the search
+-- limit from add_username_search.sql
+CREATE OR REPLACE FUNCTION search_usernames(query TEXT)
+RETURNS TABLE(user_id UUID, username TEXT) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    q TEXT := lower(trim(query));
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Usernames are letters, numbers and underscores; anything else can't match
+    IF q IS NULL OR length(q) < 3 OR q !~ '^[a-z0-9_]+$' THEN
+        RETURN;
+    END IF;
+
+    IF (SELECT COUNT(*) FROM username_lookups l
+        WHERE l.user_id = uid AND l.kind = 'search' AND l.looked_up_at > NOW() - INTERVAL '1 hour') >= 100 THEN
+        RAISE EXCEPTION 'Too many searches. Try again in an hour.';
+    END IF;
+    INSERT INTO username_lookups (user_id, kind) VALUES (uid, 'search');
+
+    RETURN QUERY
+    SELECT p.id, p.username
+    FROM profiles p
+    WHERE p.discoverable
+      AND p.username IS NOT NULL
+      AND p.id <> uid
+      -- Underscore is a LIKE wildcard, so escape it
+      AND lower(p.username) LIKE replace(q, '_', '\_') || '%'
+      AND NOT is_blocked(p.id, uid)
+    ORDER BY lower(p.username) = q DESC, length(p.username), lower(p.username)
+    LIMIT 10;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Circle invites: blocked pairs can't invite each other
+CREATE OR REPLACE FUNCTION invite_to_circle(circle_id_param UUID, user_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+    uid UUID := auth.uid();
+BEGIN
+    IF COALESCE(circle_role(circle_id_param, uid), 'member') = 'member' THEN
+        RAISE EXCEPTION 'Only the circle owner and admins can invite';
+    END IF;
+
+    IF is_blocked(uid, user_id_param) OR (
+        NOT EXISTS (
+            SELECT 1 FROM buddy_links
+            WHERE status = 'accepted'
+              AND ((user_a = uid AND user_b = user_id_param) OR (user_b = uid AND user_a = user_id_param))
+        ) AND NOT EXISTS (
+            SELECT 1 FROM profiles WHERE id = user_id_param AND discoverable AND username IS NOT NULL
+        )
+    ) THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM circle_members WHERE circle_id = circle_id_param AND user_id = user_id_param) THEN
+        RAISE EXCEPTION 'Already a member or invited';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM circle_members WHERE circle_id = circle_id_param) >= 50 THEN
+        RAISE EXCEPTION 'Circles are limited to 50 members';
+    END IF;
+
+    INSERT INTO circle_members (circle_id, user_id, role, status, invited_by)
+    VALUES (circle_id_param, user_id_param, 'member', 'invited', uid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Activity: blocked pairs see nothing of each other, even in a shared circle
+CREATE OR REPLACE FUNCTION activity_visibility(owner_param UUID, viewer_param UUID)
+RETURNS TEXT AS $$
+DECLARE
+    level_value TEXT;
+BEGIN
+    IF owner_param = viewer_param THEN
+        RETURN 'full';
+    END IF;
+
+    IF is_blocked(owner_param, viewer_param) THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM buddy_links
+        WHERE status = 'accepted'
+          AND user_a = LEAST(owner_param, viewer_param)
+          AND user_b = GREATEST(owner_param, viewer_param)
+    ) THEN
+        SELECT level INTO level_value FROM buddy_visibility
+        WHERE owner_id = owner_param AND viewer_id = viewer_param;
+        level_value := COALESCE(level_value, 'full');
+    ELSIF shares_circle(owner_param, viewer_param) THEN
+        level_value := 'full';
+    ELSE
+        RETURN NULL;
+    END IF;
+
+    IF (SELECT hide_activity FROM profiles WHERE id = owner_param) THEN
+        RETURN 'hidden';
+    END IF;
+    RETURN level_value;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
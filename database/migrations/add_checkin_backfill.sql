@@ -0,0 +1,35 @@
+-- Migration to allow check-ins for recent past days
+-- Past days can be backfilled within a limit; such rows are flagged so buddies can
+-- see they were logged late. Keep BACKFILL_DAYS in sync with MAX_BACKFILL_DAYS in
+-- services/checkinService.ts.
+
+-- Add backfilled column to prayer_checkins table
+ALTER TABLE prayer_checkins ADD COLUMN IF NOT EXISTS backfilled BOOLEAN NOT NULL DEFAULT false;
+
+-- Add comment for documentation
+COMMENT ON COLUMN prayer_checkins.backfilled IS 'True when the check-in was logged on a later day than the prayer';
+
+-- Create a function to reject check-ins older than the backfill window
+-- "Today" is the user's local day from profiles.tz
+CREATE OR REPLACE FUNCTION enforce_checkin_backfill_window()
+RETURNS TRIGGER AS $$
+DECLARE
+    backfill_days CONSTANT INTEGER := 3;
+    local_today DATE;
+BEGIN
+    SELECT (NOW() AT TIME ZONE COALESCE(tz, 'UTC'))::date INTO local_today
+    FROM profiles WHERE id = NEW.user_id;
+
+    IF local_today IS NOT NULL AND NEW.day < local_today - backfill_days THEN
+        RAISE EXCEPTION 'Check-ins can only be changed for the last % days', backfill_days;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create the trigger
+DROP TRIGGER IF EXISTS enforce_checkin_backfill_window_trigger ON prayer_checkins;
+CREATE TRIGGER enforce_checkin_backfill_window_trigger
+    BEFORE INSERT OR UPDATE ON prayer_checkins
+    FOR EACH ROW EXECUTE FUNCTION enforce_checkin_backfill_window();
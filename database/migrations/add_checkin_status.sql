@@ -0,0 +1,41 @@
+-- Migration to classify prayer check-ins against the prayer's window
+-- on_time: prayed before the next prayer began (plus the user's grace minutes)
+-- late:    prayed after that, but before the next day's Fajr
+-- qada:    made up after the prayer day ended
+
+-- Add completed_at column; the app has been sending it already
+ALTER TABLE prayer_checkins ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Add status column to prayer_checkins table (NULL when not completed or for older rows)
+ALTER TABLE prayer_checkins ADD COLUMN IF NOT EXISTS status TEXT;
+
+-- Add updated_at column, used for the buddy activity feed
+ALTER TABLE prayer_checkins ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Add check constraint for valid statuses
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints 
+        WHERE constraint_name = 'chk_prayer_checkins_status' 
+        AND table_name = 'prayer_checkins'
+    ) THEN
+        ALTER TABLE prayer_checkins ADD CONSTRAINT chk_prayer_checkins_status 
+          CHECK (status IS NULL OR status IN ('on_time', 'late', 'qada'));
+    END IF;
+END $$;
+
+-- Backfill completed_at for existing completed rows
+UPDATE prayer_checkins SET completed_at = created_at WHERE completed = true AND completed_at IS NULL;
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_prayer_checkins_updated_at ON prayer_checkins;
+CREATE TRIGGER update_prayer_checkins_updated_at BEFORE UPDATE ON prayer_checkins
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Create index for status breakdowns
+CREATE INDEX IF NOT EXISTS idx_prayer_checkins_user_status ON prayer_checkins(user_id, status);
+
+-- Add comments for documentation
+COMMENT ON COLUMN prayer_checkins.completed_at IS 'When the prayer was marked complete';
+COMMENT ON COLUMN prayer_checkins.status IS 'on_time, late or qada, classified by the app against the computed prayer window';
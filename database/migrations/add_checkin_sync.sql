@@ -0,0 +1,10 @@
+-- Migration to support the offline check-in queue
+-- Check-ins can reach the server long after they were made, so each row records
+-- when the change was made on the device. When two devices edit the same check-in
+-- the later change wins, regardless of which one syncs first.
+
+-- Add client_updated_at column to prayer_checkins table
+ALTER TABLE prayer_checkins ADD COLUMN IF NOT EXISTS client_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Add comment for documentation
+COMMENT ON COLUMN prayer_checkins.client_updated_at IS 'When the check-in was changed on the device, used to resolve sync conflicts';
@@ -0,0 +1,270 @@
+-- Migration to add circles: accountability groups beyond one-to-one buddy links
+-- A circle has one owner, admins who can invite and remove members, and members.
+-- Invited users join by accepting. Membership only changes through the functions below,
+-- which check the caller's role. Active members can read each other's check-ins.
+
+-- Create circles table
+CREATE TABLE IF NOT EXISTS circles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 50),
+    owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create circle_members table
+-- 'invited' rows are pending invites; the owner always has an 'owner' row
+CREATE TABLE IF NOT EXISTS circle_members (
+    circle_id UUID NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    status TEXT NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'active')),
+    invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    joined_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (circle_id, user_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_circle_members_user ON circle_members(user_id, status);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_circles_updated_at ON circles;
+CREATE TRIGGER update_circles_updated_at BEFORE UPDATE ON circles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE circles IS 'Accountability groups whose members see each other''s prayers';
+COMMENT ON TABLE circle_members IS 'Circle memberships and pending invites, with the member''s role';
+
+-- Create a function returning the user's role in a circle, or NULL if not an active member
+-- SECURITY DEFINER so policies on circle_members can use it without recursing
+CREATE OR REPLACE FUNCTION circle_role(circle_id_param UUID, user_id_param UUID)
+RETURNS TEXT AS $$
+    SELECT role FROM circle_members
+    WHERE circle_id = circle_id_param AND user_id = user_id_param AND status = 'active';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create a function checking whether two users are active members of the same circle
+CREATE OR REPLACE FUNCTION shares_circle(user_a_param UUID, user_b_param UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM circle_members a
+        JOIN circle_members b ON b.circle_id = a.circle_id
+        WHERE a.user_id = user_a_param AND a.status = 'active'
+          AND b.user_id = user_b_param AND b.status = 'active'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS on circles and circle_members
+-- There are no write policies; changes go through the functions below
+ALTER TABLE circles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE circle_members ENABLE ROW LEVEL SECURITY;
+
+-- Members, and users invited to a circle, can see it
+DROP POLICY IF EXISTS "Users can view their circles" ON circles;
+CREATE POLICY "Users can view their circles" ON circles
+    FOR SELECT USING (
+        id IN (SELECT circle_id FROM circle_members WHERE user_id = auth.uid())
+    );
+
+-- Users see their own memberships and invites, and the member list of circles they are in
+DROP POLICY IF EXISTS "Users can view circle members" ON circle_members;
+CREATE POLICY "Users can view circle members" ON circle_members
+    FOR SELECT USING (
+        user_id = auth.uid() OR circle_role(circle_id, auth.uid()) IS NOT NULL
+    );
+
+-- Active circle members can read each other's check-ins, alongside buddies
+DROP POLICY IF EXISTS "Circle members can view each other's prayer checkins" ON prayer_checkins;
+CREATE POLICY "Circle members can view each other's prayer checkins" ON prayer_checkins
+    FOR SELECT USING (shares_circle(auth.uid(), user_id));
+
+-- Create a function to create a circle owned by the caller; returns its id
+CREATE OR REPLACE FUNCTION create_circle(name_param TEXT)
+RETURNS UUID AS $$
+DECLARE
+    uid UUID := auth.uid();
+    new_id UUID;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    INSERT INTO circles (name, owner_id) VALUES (trim(name_param), uid)
+    RETURNING id INTO new_id;
+
+    INSERT INTO circle_members (circle_id, user_id, role, status, joined_at)
+    VALUES (new_id, uid, 'owner', 'active', NOW());
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to invite a user to a circle
+-- Owners and admins can invite their accepted buddies or any discoverable user.
+-- Circles are limited to 50 members, pending invites included.
+CREATE OR REPLACE FUNCTION invite_to_circle(circle_id_param UUID, user_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+    uid UUID := auth.uid();
+BEGIN
+    IF COALESCE(circle_role(circle_id_param, uid), 'member') = 'member' THEN
+        RAISE EXCEPTION 'Only the circle owner and admins can invite';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM buddy_links
+        WHERE status = 'accepted'
+          AND ((user_a = uid AND user_b = user_id_param) OR (user_b = uid AND user_a = user_id_param))
+    ) AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE id = user_id_param AND discoverable AND username IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM circle_members WHERE circle_id = circle_id_param AND user_id = user_id_param) THEN
+        RAISE EXCEPTION 'Already a member or invited';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM circle_members WHERE circle_id = circle_id_param) >= 50 THEN
+        RAISE EXCEPTION 'Circles are limited to 50 members';
+    END IF;
+
+    INSERT INTO circle_members (circle_id, user_id, role, status, invited_by)
+    VALUES (circle_id_param, user_id_param, 'member', 'invited', uid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to accept or decline an invite to a circle
+CREATE OR REPLACE FUNCTION respond_to_circle_invite(circle_id_param UUID, accept_param BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+    IF accept_param THEN
+        UPDATE circle_members SET status = 'active', joined_at = NOW()
+        WHERE circle_id = circle_id_param AND user_id = auth.uid() AND status = 'invited';
+    ELSE
+        DELETE FROM circle_members
+        WHERE circle_id = circle_id_param AND user_id = auth.uid() AND status = 'invited';
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invite not found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function for the caller to leave a circle
+-- An owner who leaves hands the circle to the longest-standing admin, or else member.
+-- The circle is deleted when its last member leaves.
+CREATE OR REPLACE FUNCTION leave_circle(circle_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+    uid UUID := auth.uid();
+    my_role TEXT := circle_role(circle_id_param, uid);
+    successor UUID;
+BEGIN
+    IF my_role IS NULL THEN
+        RAISE EXCEPTION 'Not a member of this circle';
+    END IF;
+
+    DELETE FROM circle_members WHERE circle_id = circle_id_param AND user_id = uid;
+
+    IF my_role = 'owner' THEN
+        SELECT user_id INTO successor FROM circle_members
+        WHERE circle_id = circle_id_param AND status = 'active'
+        ORDER BY role = 'admin' DESC, joined_at
+        LIMIT 1;
+
+        IF successor IS NULL THEN
+            DELETE FROM circles WHERE id = circle_id_param;
+        ELSE
+            UPDATE circle_members SET role = 'owner'
+            WHERE circle_id = circle_id_param AND user_id = successor;
+            UPDATE circles SET owner_id = successor WHERE id = circle_id_param;
+        END IF;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to remove a member or cancel an invite
+-- The owner can remove anyone else; admins can remove members only.
+CREATE OR REPLACE FUNCTION remove_circle_member(circle_id_param UUID, user_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+    my_role TEXT := circle_role(circle_id_param, auth.uid());
+    their_role TEXT;
+BEGIN
+    SELECT role INTO their_role FROM circle_members
+    WHERE circle_id = circle_id_param AND user_id = user_id_param;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of this circle';
+    END IF;
+
+    IF NOT (
+        (my_role = 'owner' AND their_role <> 'owner')
+        OR (my_role = 'admin' AND their_role = 'member')
+    ) THEN
+        RAISE EXCEPTION 'You cannot remove this member';
+    END IF;
+
+    DELETE FROM circle_members WHERE circle_id = circle_id_param AND user_id = user_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function for the owner to make a member an admin, or an admin a member
+CREATE OR REPLACE FUNCTION set_circle_role(circle_id_param UUID, user_id_param UUID, role_param TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF circle_role(circle_id_param, auth.uid()) IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Only the circle owner can change roles';
+    END IF;
+    IF role_param NOT IN ('admin', 'member') THEN
+        RAISE EXCEPTION 'Invalid role';
+    END IF;
+
+    UPDATE circle_members SET role = role_param
+    WHERE circle_id = circle_id_param AND user_id = user_id_param
+      AND status = 'active' AND role <> 'owner';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of this circle';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function returning each member's prayers for their own prayer day
+-- Only active members can read it. Invited users are listed without prayers.
+CREATE OR REPLACE FUNCTION circle_dashboard(circle_id_param UUID)
+RETURNS TABLE(
+    member_id UUID,
+    member_name TEXT,
+    member_role TEXT,
+    member_status TEXT,
+    member_day DATE,
+    completed_prayers TEXT[]
+) AS $$
+BEGIN
+    IF circle_role(circle_id_param, auth.uid()) IS NULL THEN
+        RAISE EXCEPTION 'Not a member of this circle';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        cm.user_id,
+        p.username,
+        cm.role,
+        cm.status,
+        d.day,
+        CASE WHEN cm.status = 'active' THEN COALESCE((
+            SELECT array_agg(pc.prayer ORDER BY pc.prayer)
+            FROM prayer_checkins pc
+            WHERE pc.user_id = cm.user_id AND pc.day = d.day AND pc.completed
+        ), ARRAY[]::TEXT[]) END
+    FROM circle_members cm
+    JOIN profiles p ON p.id = cm.user_id
+    CROSS JOIN LATERAL (SELECT prayer_day(cm.user_id) AS day) d
+    WHERE cm.circle_id = circle_id_param
+    ORDER BY cm.status, cm.role = 'owner' DESC, cm.role = 'admin' DESC, lower(p.username) NULLS LAST;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
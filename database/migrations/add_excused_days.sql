@@ -0,0 +1,209 @@
+-- Migration to add excused days and streak freezes
+-- An excused day (illness, travel, menstruation) keeps the streak from breaking without
+-- adding to it. Freezes do the same for a missed day and are earned, one for every
+-- 7 completed days in a run. Excused days are hidden from buddies unless shared.
+-- Keep in sync with computeStreak in services/streakEngine.ts.
+
+-- Create excused_days table: one row per user and day
+CREATE TABLE IF NOT EXISTS excused_days (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'excused' CHECK (kind IN ('excused', 'freeze')),
+    reason TEXT CHECK (reason IN ('illness', 'travel', 'menstruation', 'other')),
+    visible_to_buddies BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, day)
+);
+
+-- Enable RLS on excused_days
+ALTER TABLE excused_days ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for excused_days
+DROP POLICY IF EXISTS "Users can view own excused days" ON excused_days;
+CREATE POLICY "Users can view own excused days" ON excused_days
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Buddies can view shared excused days" ON excused_days;
+CREATE POLICY "Buddies can view shared excused days" ON excused_days
+    FOR SELECT USING (
+        visible_to_buddies AND
+        auth.uid() IN (
+            SELECT user_a FROM buddy_links WHERE user_b = excused_days.user_id AND status = 'accepted'
+            UNION
+            SELECT user_b FROM buddy_links WHERE user_a = excused_days.user_id AND status = 'accepted'
+        )
+    );
+
+-- Freezes are only created by use_streak_freeze, which checks the balance
+DROP POLICY IF EXISTS "Users can insert own excused days" ON excused_days;
+CREATE POLICY "Users can insert own excused days" ON excused_days
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND kind = 'excused');
+
+DROP POLICY IF EXISTS "Users can update own excused days" ON excused_days;
+CREATE POLICY "Users can update own excused days" ON excused_days
+    FOR UPDATE USING (auth.uid() = user_id AND kind = 'excused')
+    WITH CHECK (auth.uid() = user_id AND kind = 'excused');
+
+DROP POLICY IF EXISTS "Users can delete own excused days" ON excused_days;
+CREATE POLICY "Users can delete own excused days" ON excused_days
+    FOR DELETE USING (auth.uid() = user_id AND kind = 'excused');
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_excused_days_user_day ON excused_days(user_id, day);
+
+-- Add comments for documentation
+COMMENT ON TABLE excused_days IS 'Days that keep a streak going without counting towards it: excused days and used streak freezes';
+COMMENT ON COLUMN excused_days.visible_to_buddies IS 'Whether buddies can see this day was excused; hidden by default';
+
+-- Create a function to limit excused days to the recent past and the month ahead
+-- "Today" is the user's local day from profiles.tz; the past limit matches check-in backfill
+CREATE OR REPLACE FUNCTION enforce_excused_day_window()
+RETURNS TRIGGER AS $$
+DECLARE
+    backfill_days CONSTANT INTEGER := 3;
+    ahead_days CONSTANT INTEGER := 30;
+    local_today DATE;
+BEGIN
+    IF NEW.kind <> 'excused' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT (NOW() AT TIME ZONE COALESCE(tz, 'UTC'))::date INTO local_today
+    FROM profiles WHERE id = NEW.user_id;
+
+    IF local_today IS NOT NULL AND NEW.day < local_today - backfill_days THEN
+        RAISE EXCEPTION 'Days can only be excused back to % days ago', backfill_days;
+    END IF;
+    IF local_today IS NOT NULL AND NEW.day > local_today + ahead_days THEN
+        RAISE EXCEPTION 'Days can only be excused up to % days ahead', ahead_days;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_excused_day_window_trigger ON excused_days;
+CREATE TRIGGER enforce_excused_day_window_trigger
+    BEFORE INSERT OR UPDATE ON excused_days
+    FOR EACH ROW EXECUTE FUNCTION enforce_excused_day_window();
+
+-- Create a function listing a user's runs of consecutive completed or excused days
+-- run_length counts only completed days; excused days declared ahead don't count yet
+CREATE OR REPLACE FUNCTION streak_runs(user_id_param UUID)
+RETURNS TABLE(run_end DATE, run_length INTEGER) AS $$
+    WITH local AS (
+        SELECT COALESCE(
+            (SELECT (NOW() AT TIME ZONE COALESCE(tz, 'UTC'))::date FROM profiles WHERE id = user_id_param),
+            CURRENT_DATE
+        ) AS today
+    ),
+    marked AS (
+        SELECT all_days.day, BOOL_OR(all_days.completed) AS completed
+        FROM (
+            SELECT day, TRUE AS completed FROM prayer_completions WHERE user_id = user_id_param
+            UNION ALL
+            SELECT e.day, FALSE FROM excused_days e, local WHERE e.user_id = user_id_param AND e.day <= local.today
+        ) all_days
+        GROUP BY all_days.day
+    ),
+    -- Consecutive days share the same value of day minus their row number
+    grouped AS (
+        SELECT day, completed, day - (ROW_NUMBER() OVER (ORDER BY day))::INTEGER AS grp
+        FROM marked
+    )
+    SELECT MAX(day), (COUNT(*) FILTER (WHERE completed))::INTEGER
+    FROM grouped
+    GROUP BY grp;
+$$ LANGUAGE sql STABLE;
+
+-- Create a function to calculate streak for a user, bridging excused days
+CREATE OR REPLACE FUNCTION calculate_user_streak(user_id_param UUID)
+RETURNS TABLE(current_streak INTEGER, longest_streak INTEGER) AS $$
+DECLARE
+    local_today DATE;
+    last_day DATE;
+    last_run INTEGER;
+    longest_run INTEGER;
+BEGIN
+    SELECT (NOW() AT TIME ZONE COALESCE(tz, 'UTC'))::date INTO local_today
+    FROM profiles WHERE id = user_id_param;
+    local_today := COALESCE(local_today, CURRENT_DATE);
+
+    SELECT
+        COALESCE(MAX(r.run_length), 0),
+        COALESCE((ARRAY_AGG(r.run_length ORDER BY r.run_end DESC))[1], 0),
+        MAX(r.run_end)
+    INTO longest_run, last_run, last_day
+    FROM streak_runs(user_id_param) r;
+
+    -- A day still in progress doesn't break the streak; an earlier gap does
+    IF last_day IS NULL OR last_day < local_today - 1 THEN
+        last_run := 0;
+    END IF;
+
+    RETURN QUERY SELECT last_run, longest_run;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a function returning how many streak freezes a user has left
+CREATE OR REPLACE FUNCTION streak_freezes_available(user_id_param UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    days_per_freeze CONSTANT INTEGER := 7;
+    earned INTEGER;
+    used INTEGER;
+BEGIN
+    SELECT COALESCE(SUM(r.run_length / days_per_freeze), 0) INTO earned
+    FROM streak_runs(user_id_param) r;
+
+    SELECT COUNT(*) INTO used
+    FROM excused_days WHERE user_id = user_id_param AND kind = 'freeze';
+
+    RETURN GREATEST(earned - used, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a function to spend a freeze on a missed day within the check-in backfill window
+-- Returns the freezes left. Runs as owner, since freeze rows can't be inserted directly.
+CREATE OR REPLACE FUNCTION use_streak_freeze(day_param DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    backfill_days CONSTANT INTEGER := 3;
+    uid UUID := auth.uid();
+    local_today DATE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT (NOW() AT TIME ZONE COALESCE(tz, 'UTC'))::date INTO local_today
+    FROM profiles WHERE id = uid;
+
+    -- Today can still be completed, so only past days can be frozen
+    IF day_param >= local_today OR day_param < local_today - backfill_days THEN
+        RAISE EXCEPTION 'Freezes can only cover one of the last % days', backfill_days;
+    END IF;
+    IF EXISTS (SELECT 1 FROM prayer_completions WHERE user_id = uid AND day = day_param)
+        OR EXISTS (SELECT 1 FROM excused_days WHERE user_id = uid AND day = day_param) THEN
+        RAISE EXCEPTION 'That day is already covered';
+    END IF;
+    IF streak_freezes_available(uid) < 1 THEN
+        RAISE EXCEPTION 'No streak freezes available';
+    END IF;
+
+    INSERT INTO excused_days (user_id, day, kind)
+    VALUES (uid, day_param, 'freeze');
+
+    RETURN streak_freezes_available(uid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recalculate streaks when excused days change, like prayer_completions
+DROP TRIGGER IF EXISTS update_streak_excused_trigger ON excused_days;
+CREATE TRIGGER update_streak_excused_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON excused_days
+    FOR EACH ROW EXECUTE FUNCTION trigger_update_streak();
+
+-- Recalculate existing streaks with excused days taken into account
+SELECT update_all_streaks();
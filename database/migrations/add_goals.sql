@@ -0,0 +1,104 @@
+-- Migration to add weekly and monthly personal goals
+-- e.g. "30 on-time Fajrs this month" or "5 full days per week". Progress is counted from
+-- check-ins by goal_progress(), so goals never need updating by hand. Weeks start on
+-- Monday; periods follow the caller's prayer day (prayer_day()).
+
+-- Create goals table
+CREATE TABLE IF NOT EXISTS goals (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    period TEXT NOT NULL CHECK (period IN ('week', 'month')),
+    metric TEXT NOT NULL CHECK (metric IN ('prayers', 'on_time', 'full_days')),
+    -- Only count this prayer; any prayer when null. Full days always cover all five.
+    prayer TEXT CHECK (prayer IN ('fajr', 'dhuhr', 'asr', 'maghrib', 'isha')),
+    target INTEGER NOT NULL CHECK (target > 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (metric <> 'full_days' OR prayer IS NULL)
+);
+
+-- Enable RLS on goals
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for goals; goals are private
+DROP POLICY IF EXISTS "Users can view own goals" ON goals;
+CREATE POLICY "Users can view own goals" ON goals
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own goals" ON goals;
+CREATE POLICY "Users can insert own goals" ON goals
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own goals" ON goals;
+CREATE POLICY "Users can update own goals" ON goals
+    FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own goals" ON goals;
+CREATE POLICY "Users can delete own goals" ON goals
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_goals_user_active ON goals(user_id, active);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_goals_updated_at ON goals;
+CREATE TRIGGER update_goals_updated_at BEFORE UPDATE ON goals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE goals IS 'Weekly or monthly targets for prayers, on-time prayers or full days';
+
+-- Create a function returning progress on the caller's active goals in the current period
+-- Check-ins without a status count as on time unless they were backfilled, as in prayer_stats()
+CREATE OR REPLACE FUNCTION goal_progress()
+RETURNS TABLE(goal_id UUID, period_start DATE, period_end DATE, current_day DATE, progress INTEGER) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    local_today DATE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    local_today := prayer_day(uid);
+
+    RETURN QUERY
+    WITH periods AS (
+        SELECT
+            g.id,
+            g.metric,
+            g.prayer,
+            g.created_at,
+            CASE g.period
+                WHEN 'week' THEN date_trunc('week', local_today)::date
+                ELSE date_trunc('month', local_today)::date
+            END AS p_start,
+            CASE g.period
+                WHEN 'week' THEN date_trunc('week', local_today)::date + 6
+                ELSE (date_trunc('month', local_today) + INTERVAL '1 month')::date - 1
+            END AS p_end
+        FROM goals g
+        WHERE g.user_id = uid AND g.active
+    )
+    SELECT
+        p.id,
+        p.p_start,
+        p.p_end,
+        local_today,
+        CASE p.metric
+            WHEN 'full_days' THEN (
+                SELECT COUNT(*) FROM prayer_completions c
+                WHERE c.user_id = uid AND c.day BETWEEN p.p_start AND local_today
+            )::INTEGER
+            ELSE (
+                SELECT COUNT(*) FROM prayer_checkins c
+                WHERE c.user_id = uid AND c.completed AND c.day BETWEEN p.p_start AND local_today
+                    AND (p.prayer IS NULL OR c.prayer = p.prayer)
+                    AND (p.metric = 'prayers' OR c.status = 'on_time' OR (c.status IS NULL AND NOT c.backfilled))
+            )::INTEGER
+        END
+    FROM periods p
+    ORDER BY p.created_at;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,152 @@
+-- Migration to add buddy invite codes
+-- Every profile gets a short invite code, shared as a code or a deep link
+-- (prayeraccountabilityapp://invite/ABC123). Redeeming a code creates a pending buddy
+-- link the code's owner can accept, so nobody needs to look a user up by email.
+-- This replaces the "Users can search profiles by email for buddy invites" policy from
+-- fix_rls_for_buddy_invites.sql, which let any user read every profile; it is dropped below.
+
+-- Columns the app already relies on for invites
+ALTER TABLE buddy_links
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES profiles(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS receiver_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- Create a function returning a random code without look-alike characters (0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION generate_invite_code()
+RETURNS TEXT AS $$
+DECLARE
+    alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+    code TEXT := '';
+BEGIN
+    FOR i IN 1..6 LOOP
+        code := code || substr(alphabet, 1 + floor(random() * length(alphabet))::INTEGER, 1);
+    END LOOP;
+    RETURN code;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- Add invite_code column to profiles
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS invite_code TEXT UNIQUE;
+
+-- Give existing profiles a code
+UPDATE profiles SET invite_code = generate_invite_code() WHERE invite_code IS NULL;
+
+-- Create a function to give new profiles a code
+CREATE OR REPLACE FUNCTION set_invite_code()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.invite_code IS NULL THEN
+        NEW.invite_code := generate_invite_code();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_invite_code_trigger ON profiles;
+CREATE TRIGGER set_invite_code_trigger
+    BEFORE INSERT ON profiles
+    FOR EACH ROW EXECUTE FUNCTION set_invite_code();
+
+-- Add comments for documentation
+COMMENT ON COLUMN profiles.invite_code IS 'Code others redeem to send this user a buddy request';
+
+-- Create a function to replace the caller's code, e.g. after sharing it too widely
+CREATE OR REPLACE FUNCTION regenerate_invite_code()
+RETURNS TEXT AS $$
+DECLARE
+    new_code TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    LOOP
+        new_code := generate_invite_code();
+        BEGIN
+            UPDATE profiles SET invite_code = new_code WHERE id = auth.uid();
+            RETURN new_code;
+        EXCEPTION WHEN unique_violation THEN
+            -- Taken by someone else; try another
+        END;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create invite_code_attempts table: one row per code redeemed that matched nobody
+CREATE TABLE IF NOT EXISTS invite_code_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Enable RLS with no policies: only redeem_invite_code() reads and writes attempts
+ALTER TABLE invite_code_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Create index for the attempt limit
+CREATE INDEX IF NOT EXISTS idx_invite_code_attempts_user ON invite_code_attempts(user_id, attempted_at);
+
+-- Create a function to redeem an invite code as the caller
+-- Creates a pending link the code's owner can accept. If the owner already invited the
+-- caller, that invite is accepted instead. Returns the owner and the link's status, or
+-- no row when the code matches nobody. Six characters can be guessed, so a user may
+-- redeem at most 10 unknown codes an hour.
+CREATE OR REPLACE FUNCTION redeem_invite_code(code_param TEXT)
+RETURNS TABLE(buddy_id UUID, buddy_name TEXT, link_status TEXT) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    inviter profiles%ROWTYPE;
+    existing buddy_links%ROWTYPE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM invite_code_attempts
+        WHERE user_id = uid AND attempted_at > NOW() - INTERVAL '1 hour') >= 10 THEN
+        RAISE EXCEPTION 'Too many invite codes tried. Try again in an hour.';
+    END IF;
+
+    SELECT * INTO inviter FROM profiles WHERE invite_code = upper(trim(code_param));
+    IF NOT FOUND THEN
+        -- Return no row rather than raising, which would roll back the attempt
+        INSERT INTO invite_code_attempts (user_id) VALUES (uid);
+        RETURN;
+    END IF;
+    IF inviter.id = uid THEN
+        RAISE EXCEPTION 'That is your own invite code';
+    END IF;
+
+    SELECT * INTO existing FROM buddy_links
+    WHERE user_a = LEAST(uid, inviter.id) AND user_b = GREATEST(uid, inviter.id);
+
+    IF NOT FOUND THEN
+        INSERT INTO buddy_links (user_a, user_b, created_by, status, receiver_seen_at)
+        VALUES (LEAST(uid, inviter.id), GREATEST(uid, inviter.id), uid, 'pending', NULL)
+        RETURNING * INTO existing;
+    ELSIF existing.status = 'pending' AND existing.created_by = inviter.id THEN
+        UPDATE buddy_links SET status = 'accepted' WHERE id = existing.id
+        RETURNING * INTO existing;
+    ELSIF existing.status = 'rejected' THEN
+        UPDATE buddy_links
+        SET status = 'pending', created_by = uid, receiver_seen_at = NULL
+        WHERE id = existing.id
+        RETURNING * INTO existing;
+    END IF;
+
+    RETURN QUERY SELECT inviter.id, inviter.username, existing.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Drop the policy that let any user read every profile with an email
+DROP POLICY IF EXISTS "Users can search profiles by email for buddy invites" ON profiles;
+
+-- Buddies, and people with a pending request between them, can see each other's profile
+DROP POLICY IF EXISTS "Users can view linked profiles" ON profiles;
+CREATE POLICY "Users can view linked profiles" ON profiles
+    FOR SELECT USING (
+        id IN (
+            SELECT user_a FROM buddy_links WHERE user_b = auth.uid() AND status IN ('pending', 'accepted')
+            UNION
+            SELECT user_b FROM buddy_links WHERE user_a = auth.uid() AND status IN ('pending', 'accepted')
+        )
+    );
@@ -0,0 +1,29 @@
+-- Migration to add per-prayer notification preferences to profiles
+-- Each prayer can use the full adhan, a silent banner, or no notification,
+-- with an optional reminder a number of minutes before the prayer starts
+
+-- Add notification_prefs column to profiles table
+-- Shape: { "fajr": { "mode": "adhan" | "silent" | "off", "reminderMinutes": number | null }, ... }
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS notification_prefs JSONB NOT NULL DEFAULT '{
+    "fajr":    { "mode": "adhan", "reminderMinutes": null },
+    "dhuhr":   { "mode": "adhan", "reminderMinutes": null },
+    "asr":     { "mode": "adhan", "reminderMinutes": null },
+    "maghrib": { "mode": "adhan", "reminderMinutes": null },
+    "isha":    { "mode": "adhan", "reminderMinutes": null }
+}'::jsonb;
+
+-- Add check constraint to ensure the value is an object
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints 
+        WHERE constraint_name = 'chk_notification_prefs_object' 
+        AND table_name = 'profiles'
+    ) THEN
+        ALTER TABLE profiles ADD CONSTRAINT chk_notification_prefs_object 
+          CHECK (jsonb_typeof(notification_prefs) = 'object');
+    END IF;
+END $$;
+
+-- Add comment for documentation
+COMMENT ON COLUMN profiles.notification_prefs IS 'Per-prayer notification mode (adhan, silent, off) and optional reminder minutes before the prayer';
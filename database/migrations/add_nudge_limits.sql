@@ -0,0 +1,161 @@
+-- Migration to limit nudges on the server
+-- Nudges go through send_nudge(), which allows one nudge per prayer from a sender to a
+-- buddy each prayer day (the buddy's), caps each sender at 10 nudges in 24 hours, and
+-- refuses nudges while the buddy has do-not-disturb on or is in their quiet hours. Quiet
+-- hours are in the buddy's own timezone (profiles.tz) and may run past midnight.
+-- Sent nudges can't be deleted, since that would give back allowance, and the push
+-- notification is sent by the database for each nudge send_nudge() inserts, so clients
+-- never need a buddy's push token.
+
+-- Add nudge settings columns to profiles
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS do_not_disturb BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS chk_profiles_quiet_hours;
+ALTER TABLE profiles ADD CONSTRAINT chk_profiles_quiet_hours
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+-- Add comments for documentation
+COMMENT ON COLUMN profiles.do_not_disturb IS 'Refuses all nudges until turned off';
+COMMENT ON COLUMN profiles.quiet_hours_start IS 'Start of the daily window when nudges are refused, in the user timezone';
+COMMENT ON COLUMN profiles.quiet_hours_end IS 'End of the daily window when nudges are refused, in the user timezone';
+
+-- Create indexes for the limit checks
+CREATE INDEX IF NOT EXISTS idx_nudges_from_user_created ON nudges(from_user, created_at);
+CREATE INDEX IF NOT EXISTS idx_nudges_pair_day ON nudges(from_user, to_user, day, prayer);
+
+-- Nudges can only be sent through send_nudge(), and stay counted once sent
+DROP POLICY IF EXISTS "Users can send nudges to buddies" ON nudges;
+DROP POLICY IF EXISTS "Users can delete their sent nudges" ON nudges;
+
+-- pg_net makes HTTP requests from the database, sent once the transaction commits
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Create a function to push a new nudge to the recipient through Expo's push API
+-- Senders are named by username only; a message sent with the nudge replaces the text
+CREATE OR REPLACE FUNCTION send_nudge_push()
+RETURNS TRIGGER AS $$
+DECLARE
+    token TEXT;
+    sender TEXT;
+BEGIN
+    SELECT push_token INTO token FROM profiles WHERE id = NEW.to_user;
+    IF token IS NULL THEN
+        RETURN NEW;
+    END IF;
+    SELECT COALESCE(username, 'Your buddy') INTO sender FROM profiles WHERE id = NEW.from_user;
+
+    PERFORM net.http_post(
+        url := 'https://exp.host/--/api/v2/push/send',
+        headers := '{"Content-Type": "application/json", "Accept": "application/json"}'::jsonb,
+        body := jsonb_build_object(
+            'to', token,
+            'sound', 'default',
+            'title', '🔔 Prayer Nudge',
+            'body', CASE WHEN NEW.message IS NOT NULL
+                THEN format('%s (%s): %s', sender, NEW.prayer, NEW.message)
+                ELSE format('%s nudged you to complete %s prayer', sender, NEW.prayer)
+            END,
+            'data', jsonb_build_object('type', 'nudge', 'prayer', NEW.prayer, 'fromUser', sender, 'message', NEW.message)
+        )
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create the trigger
+DROP TRIGGER IF EXISTS send_nudge_push_trigger ON nudges;
+CREATE TRIGGER send_nudge_push_trigger
+    AFTER INSERT ON nudges
+    FOR EACH ROW EXECUTE FUNCTION send_nudge_push();
+
+-- Create a function returning how many more nudges the caller may send now
+CREATE OR REPLACE FUNCTION nudge_allowance()
+RETURNS INTEGER AS $$
+    SELECT GREATEST(10 - COUNT(*)::INTEGER, 0)
+    FROM nudges
+    WHERE from_user = auth.uid() AND created_at > NOW() - INTERVAL '24 hours';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create a function listing the prayers the caller has nudged each buddy about,
+-- on each buddy's current prayer day
+CREATE OR REPLACE FUNCTION nudges_sent_today()
+RETURNS TABLE(to_user UUID, prayer TEXT) AS $$
+    SELECT n.to_user, n.prayer
+    FROM nudges n
+    WHERE n.from_user = auth.uid() AND n.day = prayer_day(n.to_user);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create a function to nudge a buddy about a prayer
+-- Returns 'sent', or why the nudge was refused: 'not_buddy', 'daily_limit',
+-- 'already_nudged', 'do_not_disturb' or 'quiet_hours'; with the nudges left afterwards
+CREATE OR REPLACE FUNCTION send_nudge(to_user_param UUID, prayer_param TEXT)
+RETURNS TABLE(nudge_status TEXT, remaining INTEGER) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    target profiles%ROWTYPE;
+    target_day DATE;
+    local_time TIME;
+    left_count INTEGER;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF prayer_param NOT IN ('fajr', 'dhuhr', 'asr', 'maghrib', 'isha') THEN
+        RAISE EXCEPTION 'Unknown prayer';
+    END IF;
+
+    -- One check-and-insert at a time per sender, so parallel taps can't pass the limits
+    PERFORM pg_advisory_xact_lock(hashtext('send_nudge:' || uid::text));
+
+    left_count := nudge_allowance();
+
+    IF is_blocked(uid, to_user_param) OR NOT EXISTS (
+        SELECT 1 FROM buddy_links
+        WHERE status = 'accepted'
+          AND user_a = LEAST(uid, to_user_param)
+          AND user_b = GREATEST(uid, to_user_param)
+    ) THEN
+        RETURN QUERY SELECT 'not_buddy'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    IF left_count = 0 THEN
+        RETURN QUERY SELECT 'daily_limit'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    target_day := prayer_day(to_user_param);
+    IF EXISTS (
+        SELECT 1 FROM nudges
+        WHERE from_user = uid AND to_user = to_user_param AND day = target_day AND prayer = prayer_param
+    ) THEN
+        RETURN QUERY SELECT 'already_nudged'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    SELECT * INTO target FROM profiles WHERE id = to_user_param;
+    IF target.do_not_disturb THEN
+        RETURN QUERY SELECT 'do_not_disturb'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    local_time := (NOW() AT TIME ZONE COALESCE(target.tz, 'UTC'))::time;
+    IF target.quiet_hours_start IS NOT NULL AND (
+        CASE WHEN target.quiet_hours_start <= target.quiet_hours_end
+            THEN local_time >= target.quiet_hours_start AND local_time < target.quiet_hours_end
+            ELSE local_time >= target.quiet_hours_start OR local_time < target.quiet_hours_end
+        END
+    ) THEN
+        RETURN QUERY SELECT 'quiet_hours'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    INSERT INTO nudges (from_user, to_user, day, prayer)
+    VALUES (uid, to_user_param, target_day, prayer_param);
+
+    RETURN QUERY SELECT 'sent'::TEXT, left_count - 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
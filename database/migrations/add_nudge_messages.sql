@@ -0,0 +1,119 @@
+-- Migration to add personal messages to nudges
+-- A nudge may carry a short message, written by the sender or picked from the app's
+-- templates. Recipients read their nudges through nudge_inbox(), which names the sender
+-- even when they are no longer a buddy, and leaves out blocked users.
+
+-- Limit nudge messages to 140 characters
+ALTER TABLE nudges DROP CONSTRAINT IF EXISTS chk_nudges_message_length;
+ALTER TABLE nudges ADD CONSTRAINT chk_nudges_message_length
+    CHECK (message IS NULL OR length(message) BETWEEN 1 AND 140);
+
+-- Add comments for documentation
+COMMENT ON COLUMN nudges.message IS 'Optional note from the sender, up to 140 characters';
+
+-- Create an index for the inbox
+CREATE INDEX IF NOT EXISTS idx_nudges_to_user_created ON nudges(to_user, created_at DESC);
+
+-- send_nudge() takes the message as a new argument; drop the old signature so
+-- calls without a message aren't ambiguous
+DROP FUNCTION IF EXISTS send_nudge(UUID, TEXT);
+CREATE OR REPLACE FUNCTION send_nudge(to_user_param UUID, prayer_param TEXT, message_param TEXT DEFAULT NULL)
+RETURNS TABLE(nudge_status TEXT, remaining INTEGER) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    target profiles%ROWTYPE;
+    target_day DATE;
+    local_time TIME;
+    left_count INTEGER;
+    note TEXT := NULLIF(trim(message_param), '');
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF prayer_param NOT IN ('fajr', 'dhuhr', 'asr', 'maghrib', 'isha') THEN
+        RAISE EXCEPTION 'Unknown prayer';
+    END IF;
+    IF length(note) > 140 THEN
+        RAISE EXCEPTION 'Messages are limited to 140 characters';
+    END IF;
+
+    -- One check-and-insert at a time per sender, so parallel taps can't pass the limits
+    PERFORM pg_advisory_xact_lock(hashtext('send_nudge:' || uid::text));
+
+    left_count := nudge_allowance();
+
+    IF is_blocked(uid, to_user_param) OR NOT EXISTS (
+        SELECT 1 FROM buddy_links
+        WHERE status = 'accepted'
+          AND user_a = LEAST(uid, to_user_param)
+          AND user_b = GREATEST(uid, to_user_param)
+    ) THEN
+        RETURN QUERY SELECT 'not_buddy'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    IF left_count = 0 THEN
+        RETURN QUERY SELECT 'daily_limit'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    target_day := prayer_day(to_user_param);
+    IF EXISTS (
+        SELECT 1 FROM nudges
+        WHERE from_user = uid AND to_user = to_user_param AND day = target_day AND prayer = prayer_param
+    ) THEN
+        RETURN QUERY SELECT 'already_nudged'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    SELECT * INTO target FROM profiles WHERE id = to_user_param;
+    IF target.do_not_disturb THEN
+        RETURN QUERY SELECT 'do_not_disturb'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    local_time := (NOW() AT TIME ZONE COALESCE(target.tz, 'UTC'))::time;
+    IF target.quiet_hours_start IS NOT NULL AND (
+        CASE WHEN target.quiet_hours_start <= target.quiet_hours_end
+            THEN local_time >= target.quiet_hours_start AND local_time < target.quiet_hours_end
+            ELSE local_time >= target.quiet_hours_start OR local_time < target.quiet_hours_end
+        END
+    ) THEN
+        RETURN QUERY SELECT 'quiet_hours'::TEXT, left_count;
+        RETURN;
+    END IF;
+
+    INSERT INTO nudges (from_user, to_user, day, prayer, message)
+    VALUES (uid, to_user_param, target_day, prayer_param, note);
+
+    RETURN QUERY SELECT 'sent'::TEXT, left_count - 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function listing the caller's nudges from the last 30 days, newest first
+CREATE OR REPLACE FUNCTION nudge_inbox()
+RETURNS TABLE(
+    nudge_id UUID,
+    from_user UUID,
+    from_name TEXT,
+    prayer TEXT,
+    message TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    seen_at TIMESTAMP WITH TIME ZONE
+) AS $$
+    SELECT
+        n.id,
+        n.from_user,
+        p.username,
+        n.prayer,
+        n.message,
+        n.created_at,
+        n.seen_at
+    FROM nudges n
+    JOIN profiles p ON p.id = n.from_user
+    WHERE n.to_user = auth.uid()
+      AND n.created_at > NOW() - INTERVAL '30 days'
+      AND NOT is_blocked(n.from_user, n.to_user)
+    ORDER BY n.created_at DESC
+    LIMIT 100;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,207 @@
+-- Migration to attribute check-ins and streaks to the prayer day
+-- A prayer day runs from Fajr to the next Fajr in the user's timezone (profiles.tz), so
+-- Isha prayed after midnight belongs to the day whose Maghrib preceded it. The app keeps
+-- day_starts_at at today's local Fajr time. Matches prayerDayOf in services/prayerTimes.ts.
+
+-- Add day_starts_at column to profiles table
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS day_starts_at TIME;
+
+-- Add comment for documentation
+COMMENT ON COLUMN profiles.day_starts_at IS 'Local time the prayer day starts (Fajr), kept current by the app; NULL means midnight';
+
+-- Create a function returning the prayer day an instant belongs to for a user
+CREATE OR REPLACE FUNCTION prayer_day(user_id_param UUID, at_param TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS DATE AS $$
+    SELECT COALESCE(
+        (
+            SELECT CASE
+                WHEN (at_param AT TIME ZONE COALESCE(tz, 'UTC'))::time < COALESCE(day_starts_at, '00:00'::time)
+                THEN (at_param AT TIME ZONE COALESCE(tz, 'UTC'))::date - 1
+                ELSE (at_param AT TIME ZONE COALESCE(tz, 'UTC'))::date
+            END
+            FROM profiles WHERE id = user_id_param
+        ),
+        (at_param AT TIME ZONE 'UTC')::date
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Reject check-ins older than the backfill window, counted in prayer days
+CREATE OR REPLACE FUNCTION enforce_checkin_backfill_window()
+RETURNS TRIGGER AS $$
+DECLARE
+    backfill_days CONSTANT INTEGER := 3;
+BEGIN
+    IF NEW.day < prayer_day(NEW.user_id) - backfill_days THEN
+        RAISE EXCEPTION 'Check-ins can only be changed for the last % days', backfill_days;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Limit excused days to the recent past and the month ahead, counted in prayer days
+CREATE OR REPLACE FUNCTION enforce_excused_day_window()
+RETURNS TRIGGER AS $$
+DECLARE
+    backfill_days CONSTANT INTEGER := 3;
+    ahead_days CONSTANT INTEGER := 30;
+    local_today DATE;
+BEGIN
+    IF NEW.kind <> 'excused' THEN
+        RETURN NEW;
+    END IF;
+
+    local_today := prayer_day(NEW.user_id);
+    IF NEW.day < local_today - backfill_days THEN
+        RAISE EXCEPTION 'Days can only be excused back to % days ago', backfill_days;
+    END IF;
+    IF NEW.day > local_today + ahead_days THEN
+        RAISE EXCEPTION 'Days can only be excused up to % days ahead', ahead_days;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- List a user's runs of consecutive completed or excused days up to the current prayer day
+CREATE OR REPLACE FUNCTION streak_runs(user_id_param UUID)
+RETURNS TABLE(run_end DATE, run_length INTEGER) AS $$
+    WITH marked AS (
+        SELECT all_days.day, BOOL_OR(all_days.completed) AS completed
+        FROM (
+            SELECT day, TRUE AS completed FROM prayer_completions WHERE user_id = user_id_param
+            UNION ALL
+            SELECT day, FALSE FROM excused_days WHERE user_id = user_id_param AND day <= prayer_day(user_id_param)
+        ) all_days
+        GROUP BY all_days.day
+    ),
+    -- Consecutive days share the same value of day minus their row number
+    grouped AS (
+        SELECT day, completed, day - (ROW_NUMBER() OVER (ORDER BY day))::INTEGER AS grp
+        FROM marked
+    )
+    SELECT MAX(day), (COUNT(*) FILTER (WHERE completed))::INTEGER
+    FROM grouped
+    GROUP BY grp;
+$$ LANGUAGE sql STABLE;
+
+-- Calculate streak for a user; the current prayer day still in progress doesn't break it
+CREATE OR REPLACE FUNCTION calculate_user_streak(user_id_param UUID)
+RETURNS TABLE(current_streak INTEGER, longest_streak INTEGER) AS $$
+DECLARE
+    local_today DATE := prayer_day(user_id_param);
+    last_day DATE;
+    last_run INTEGER;
+    longest_run INTEGER;
+BEGIN
+    SELECT
+        COALESCE(MAX(r.run_length), 0),
+        COALESCE((ARRAY_AGG(r.run_length ORDER BY r.run_end DESC))[1], 0),
+        MAX(r.run_end)
+    INTO longest_run, last_run, last_day
+    FROM streak_runs(user_id_param) r;
+
+    IF last_day IS NULL OR last_day < local_today - 1 THEN
+        last_run := 0;
+    END IF;
+
+    RETURN QUERY SELECT last_run, longest_run;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Spend a freeze on a missed past prayer day within the check-in backfill window
+CREATE OR REPLACE FUNCTION use_streak_freeze(day_param DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    backfill_days CONSTANT INTEGER := 3;
+    uid UUID := auth.uid();
+    local_today DATE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    local_today := prayer_day(uid);
+
+    -- Today can still be completed, so only past days can be frozen
+    IF day_param >= local_today OR day_param < local_today - backfill_days THEN
+        RAISE EXCEPTION 'Freezes can only cover one of the last % days', backfill_days;
+    END IF;
+    IF EXISTS (SELECT 1 FROM prayer_completions WHERE user_id = uid AND day = day_param)
+        OR EXISTS (SELECT 1 FROM excused_days WHERE user_id = uid AND day = day_param) THEN
+        RAISE EXCEPTION 'That day is already covered';
+    END IF;
+    IF streak_freezes_available(uid) < 1 THEN
+        RAISE EXCEPTION 'No streak freezes available';
+    END IF;
+
+    INSERT INTO excused_days (user_id, day, kind)
+    VALUES (uid, day_param, 'freeze');
+
+    RETURN streak_freezes_available(uid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add unchecked past prayer days to the caller's qada balances
+-- Counts days from from_param (or the day after the last seed, or the first check-in)
+-- through the last prayer day that can no longer be backfilled where a prayer has no
+-- completed check-in.
+-- Excused days owe no prayers; frozen days were missed and still count.
+CREATE OR REPLACE FUNCTION seed_qada_from_checkins(from_param DATE DEFAULT NULL)
+RETURNS TABLE(prayer_name TEXT, added INTEGER) AS $$
+DECLARE
+    backfill_days CONSTANT INTEGER := 3;
+    uid UUID := auth.uid();
+    end_day DATE;
+    start_day DATE;
+    p TEXT;
+    missed INTEGER;
+    last_seeded DATE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    end_day := prayer_day(uid) - backfill_days - 1;
+
+    FOREACH p IN ARRAY ARRAY['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'] LOOP
+        SELECT seeded_through INTO last_seeded
+        FROM qada_balances WHERE user_id = uid AND qada_balances.prayer = p;
+
+        -- GREATEST ignores NULLs, so either bound alone is enough
+        start_day := COALESCE(
+            GREATEST(last_seeded + 1, from_param),
+            (SELECT MIN(day) FROM prayer_checkins WHERE user_id = uid)
+        );
+
+        missed := 0;
+        IF start_day IS NOT NULL AND start_day <= end_day THEN
+            SELECT COUNT(*) INTO missed
+            FROM generate_series(start_day, end_day, INTERVAL '1 day') AS d(day)
+            WHERE NOT EXISTS (
+                SELECT 1 FROM prayer_checkins c
+                WHERE c.user_id = uid AND c.day = d.day::date AND c.prayer = p AND c.completed
+            )
+            AND NOT EXISTS (
+                SELECT 1 FROM excused_days e
+                WHERE e.user_id = uid AND e.day = d.day::date AND e.kind = 'excused'
+            );
+        END IF;
+
+        INSERT INTO qada_balances (user_id, prayer, outstanding, seeded_through)
+        VALUES (uid, p, missed, end_day)
+        ON CONFLICT (user_id, prayer) DO UPDATE
+        SET outstanding = qada_balances.outstanding + missed,
+            seeded_through = GREATEST(qada_balances.seeded_through, end_day);
+
+        IF missed > 0 THEN
+            INSERT INTO qada_entries (user_id, prayer, delta, reason, note)
+            VALUES (uid, p, missed, 'seed', format('Unchecked days %s to %s', start_day, end_day));
+        END IF;
+
+        prayer_name := p;
+        added := missed;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,128 @@
+-- Migration to add prayer statistics functions
+-- Aggregates the caller's check-ins on the server so the app never pulls every row.
+-- Windows end at the current prayer day (prayer_day()) and start no earlier than the
+-- first check-in, so new users aren't penalised for days before they joined.
+-- Check-ins without a status count as on time unless they were backfilled.
+-- Excused days (excused_days.kind = 'excused') are left out of every window; freezes
+-- cover missed days, so those still count.
+
+-- Create a function returning the first day of a stats window for the caller
+CREATE OR REPLACE FUNCTION prayer_stats_window_start(user_id_param UUID, days_param INTEGER)
+RETURNS DATE AS $$
+    SELECT GREATEST(
+        prayer_day(user_id_param) - GREATEST(days_param, 1) + 1,
+        COALESCE((SELECT MIN(day) FROM prayer_checkins WHERE user_id = user_id_param), prayer_day(user_id_param))
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Create a function returning per-prayer completion over the last days_param prayer days
+CREATE OR REPLACE FUNCTION prayer_stats(days_param INTEGER DEFAULT 30)
+RETURNS TABLE(prayer_name TEXT, days_counted INTEGER, completed INTEGER, on_time INTEGER, late INTEGER, qada INTEGER) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    end_day DATE;
+    start_day DATE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    end_day := prayer_day(uid);
+    start_day := prayer_stats_window_start(uid, days_param);
+
+    RETURN QUERY
+    SELECT
+        p.name,
+        (end_day - start_day + 1 - excused.days)::INTEGER,
+        (COUNT(c.prayer) FILTER (WHERE c.completed))::INTEGER,
+        (COUNT(c.prayer) FILTER (WHERE c.completed AND (c.status = 'on_time' OR (c.status IS NULL AND NOT c.backfilled))))::INTEGER,
+        (COUNT(c.prayer) FILTER (WHERE c.completed AND c.status = 'late'))::INTEGER,
+        (COUNT(c.prayer) FILTER (WHERE c.completed AND c.status = 'qada'))::INTEGER
+    FROM unnest(ARRAY['fajr', 'dhuhr', 'asr', 'maghrib', 'isha']) AS p(name)
+    CROSS JOIN (
+        SELECT COUNT(*)::INTEGER AS days
+        FROM excused_days e
+        WHERE e.user_id = uid AND e.kind = 'excused' AND e.day BETWEEN start_day AND end_day
+    ) excused
+    LEFT JOIN prayer_checkins c
+        ON c.user_id = uid AND c.prayer = p.name AND c.day BETWEEN start_day AND end_day
+        AND NOT EXISTS (
+            SELECT 1 FROM excused_days e
+            WHERE e.user_id = uid AND e.day = c.day AND e.kind = 'excused'
+        )
+    GROUP BY p.name, excused.days;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a function returning prayers completed per weekday (0 = Sunday) over the window
+CREATE OR REPLACE FUNCTION prayer_weekday_stats(days_param INTEGER DEFAULT 90)
+RETURNS TABLE(weekday INTEGER, days_counted INTEGER, prayers INTEGER) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    end_day DATE;
+    start_day DATE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    end_day := prayer_day(uid);
+    start_day := prayer_stats_window_start(uid, days_param);
+
+    RETURN QUERY
+    SELECT
+        EXTRACT(DOW FROM d.day)::INTEGER,
+        (COUNT(DISTINCT d.day) FILTER (WHERE e.day IS NULL))::INTEGER,
+        COUNT(c.prayer)::INTEGER
+    FROM generate_series(start_day, end_day, INTERVAL '1 day') AS d(day)
+    LEFT JOIN excused_days e
+        ON e.user_id = uid AND e.day = d.day::date AND e.kind = 'excused'
+    LEFT JOIN prayer_checkins c
+        ON c.user_id = uid AND c.day = d.day::date AND c.completed AND e.day IS NULL
+    GROUP BY EXTRACT(DOW FROM d.day)
+    ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a function returning completion in consecutive buckets of bucket_days, oldest first
+-- The last bucket ends today; the first may be shorter
+CREATE OR REPLACE FUNCTION prayer_trend(days_param INTEGER DEFAULT 90, bucket_days INTEGER DEFAULT 7)
+RETURNS TABLE(bucket_start DATE, days_counted INTEGER, prayers INTEGER, on_time INTEGER) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    end_day DATE;
+    start_day DATE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    end_day := prayer_day(uid);
+    start_day := prayer_stats_window_start(uid, days_param);
+
+    RETURN QUERY
+    SELECT
+        MIN(d.day)::date,
+        (COUNT(DISTINCT d.day) FILTER (WHERE e.day IS NULL))::INTEGER,
+        COUNT(c.prayer)::INTEGER,
+        (COUNT(c.prayer) FILTER (WHERE c.status = 'on_time' OR (c.status IS NULL AND NOT c.backfilled)))::INTEGER
+    FROM generate_series(start_day, end_day, INTERVAL '1 day') AS d(day)
+    LEFT JOIN excused_days e
+        ON e.user_id = uid AND e.day = d.day::date AND e.kind = 'excused'
+    LEFT JOIN prayer_checkins c
+        ON c.user_id = uid AND c.day = d.day::date AND c.completed AND e.day IS NULL
+    GROUP BY (end_day - d.day::date) / GREATEST(bucket_days, 1)
+    ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a function returning all-time totals for a user, for the Profile stats
+CREATE OR REPLACE FUNCTION prayer_totals(user_id_param UUID)
+RETURNS TABLE(total_prayers INTEGER, full_days INTEGER) AS $$
+    SELECT
+        (SELECT COUNT(*) FROM prayer_checkins WHERE user_id = user_id_param AND completed)::INTEGER,
+        (SELECT COUNT(*) FROM prayer_completions WHERE user_id = user_id_param)::INTEGER;
+$$ LANGUAGE sql STABLE;
+
+-- Speeds up the per-prayer and range aggregates
+CREATE INDEX IF NOT EXISTS idx_prayer_checkins_user_prayer_day ON prayer_checkins(user_id, prayer, day);
@@ -0,0 +1,56 @@
+-- Migration to add per-prayer streaks
+-- A prayer's streak counts consecutive prayer days on which that prayer was checked in,
+-- independent of the other four. Excused days and freezes keep it going without adding
+-- to it, as for the all-five streak in streak_runs().
+-- Keep in sync with getUserPrayerStreaks in services/streakService.ts.
+
+-- List a user's runs of consecutive days with a prayer completed or excused
+CREATE OR REPLACE FUNCTION prayer_streak_runs(user_id_param UUID, prayer_param TEXT)
+RETURNS TABLE(run_end DATE, run_length INTEGER) AS $$
+    WITH marked AS (
+        SELECT all_days.day, BOOL_OR(all_days.completed) AS completed
+        FROM (
+            SELECT day, TRUE AS completed FROM prayer_checkins
+            WHERE user_id = user_id_param AND prayer = prayer_param AND completed
+            UNION ALL
+            SELECT day, FALSE FROM excused_days WHERE user_id = user_id_param AND day <= prayer_day(user_id_param)
+        ) all_days
+        GROUP BY all_days.day
+    ),
+    -- Consecutive days share the same value of day minus their row number
+    grouped AS (
+        SELECT day, completed, day - (ROW_NUMBER() OVER (ORDER BY day))::INTEGER AS grp
+        FROM marked
+    )
+    SELECT MAX(day), (COUNT(*) FILTER (WHERE completed))::INTEGER
+    FROM grouped
+    GROUP BY grp;
+$$ LANGUAGE sql STABLE;
+
+-- Create a function returning each prayer's streak for the caller and their buddies
+-- Other users are skipped. Runs as definer so hidden excused days still bridge a buddy's
+-- streak without revealing which days they were.
+CREATE OR REPLACE FUNCTION prayer_streaks(user_ids UUID[])
+RETURNS TABLE(user_id UUID, prayer_name TEXT, current_streak INTEGER, longest_streak INTEGER, done_today BOOLEAN) AS $$
+    SELECT
+        u.id,
+        p.name,
+        -- The current streak is the run ending today or yesterday
+        COALESCE((
+            SELECT r.run_length FROM prayer_streak_runs(u.id, p.name) r
+            WHERE r.run_end >= prayer_day(u.id) - 1
+            ORDER BY r.run_end DESC LIMIT 1
+        ), 0),
+        COALESCE((SELECT MAX(r.run_length) FROM prayer_streak_runs(u.id, p.name) r), 0),
+        EXISTS (
+            SELECT 1 FROM prayer_checkins c
+            WHERE c.user_id = u.id AND c.prayer = p.name AND c.day = prayer_day(u.id) AND c.completed
+        )
+    FROM unnest(user_ids) AS u(id)
+    CROSS JOIN unnest(ARRAY['fajr', 'dhuhr', 'asr', 'maghrib', 'isha']) AS p(name)
+    WHERE u.id = auth.uid() OR u.id IN (
+        SELECT user_a FROM buddy_links WHERE user_b = auth.uid() AND status = 'accepted'
+        UNION
+        SELECT user_b FROM buddy_links WHERE user_a = auth.uid() AND status = 'accepted'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
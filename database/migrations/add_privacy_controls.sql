@@ -0,0 +1,218 @@
+-- Migration to add per-buddy privacy controls
+-- Each user chooses what each buddy sees: full per-prayer detail, a daily summary
+-- (prayers completed per day), or their streak only. Hiding activity hides all of it from
+-- everyone. Circle members who aren't buddies see full detail unless activity is hidden.
+-- Other users' profiles are only readable through the buddy_profiles view, which leaves
+-- out emails, and daily summaries through buddy_daily_summaries. Names shown to other
+-- users are usernames only, never derived from an email; the app shows a placeholder
+-- for users without one.
+
+-- Add hide_activity column to profiles
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS hide_activity BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Add comments for documentation
+COMMENT ON COLUMN profiles.hide_activity IS 'Hides check-ins, summaries, streaks and badges from buddies and circles';
+
+-- Create buddy_visibility table; no row means full detail
+CREATE TABLE IF NOT EXISTS buddy_visibility (
+    owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    viewer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    level TEXT NOT NULL CHECK (level IN ('full', 'summary', 'streak')),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (owner_id, viewer_id)
+);
+
+-- Enable RLS on buddy_visibility
+ALTER TABLE buddy_visibility ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for buddy_visibility; viewers learn their level from buddy_profiles
+DROP POLICY IF EXISTS "Users can view own buddy visibility" ON buddy_visibility;
+CREATE POLICY "Users can view own buddy visibility" ON buddy_visibility
+    FOR SELECT USING (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can insert own buddy visibility" ON buddy_visibility;
+CREATE POLICY "Users can insert own buddy visibility" ON buddy_visibility
+    FOR INSERT WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can update own buddy visibility" ON buddy_visibility;
+CREATE POLICY "Users can update own buddy visibility" ON buddy_visibility
+    FOR UPDATE USING (auth.uid() = owner_id) WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can delete own buddy visibility" ON buddy_visibility;
+CREATE POLICY "Users can delete own buddy visibility" ON buddy_visibility
+    FOR DELETE USING (auth.uid() = owner_id);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_buddy_visibility_updated_at ON buddy_visibility;
+CREATE TRIGGER update_buddy_visibility_updated_at BEFORE UPDATE ON buddy_visibility
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE buddy_visibility IS 'How much of their activity a user shares with each buddy';
+
+-- Create a function returning what viewer may see of owner's activity:
+-- 'full', 'summary' or 'streak'; 'hidden' when owner hides their activity;
+-- NULL when they are neither buddies nor in a circle together.
+-- A buddy's level applies even when they also share a circle.
+CREATE OR REPLACE FUNCTION activity_visibility(owner_param UUID, viewer_param UUID)
+RETURNS TEXT AS $$
+DECLARE
+    level_value TEXT;
+BEGIN
+    IF owner_param = viewer_param THEN
+        RETURN 'full';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM buddy_links
+        WHERE status = 'accepted'
+          AND user_a = LEAST(owner_param, viewer_param)
+          AND user_b = GREATEST(owner_param, viewer_param)
+    ) THEN
+        SELECT level INTO level_value FROM buddy_visibility
+        WHERE owner_id = owner_param AND viewer_id = viewer_param;
+        level_value := COALESCE(level_value, 'full');
+    ELSIF shares_circle(owner_param, viewer_param) THEN
+        level_value := 'full';
+    ELSE
+        RETURN NULL;
+    END IF;
+
+    IF (SELECT hide_activity FROM profiles WHERE id = owner_param) THEN
+        RETURN 'hidden';
+    END IF;
+    RETURN level_value;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Check-ins: per-prayer detail needs full visibility
+-- Replaces the buddy policy from init_schema.sql and the circle policy from add_circles.sql
+DROP POLICY IF EXISTS "Users can view prayer checkins" ON prayer_checkins;
+DROP POLICY IF EXISTS "Circle members can view each other's prayer checkins" ON prayer_checkins;
+CREATE POLICY "Users can view prayer checkins" ON prayer_checkins
+    FOR SELECT USING (
+        auth.uid() = user_id OR activity_visibility(user_id, auth.uid()) = 'full'
+    );
+
+-- Excused days the owner shares: visible at every level, but not when activity is hidden
+-- Replaces the buddy policy from add_excused_days.sql
+DROP POLICY IF EXISTS "Buddies can view shared excused days" ON excused_days;
+CREATE POLICY "Buddies can view shared excused days" ON excused_days
+    FOR SELECT USING (
+        visible_to_buddies AND
+        activity_visibility(user_id, auth.uid()) IN ('full', 'summary', 'streak')
+    );
+
+-- Badges: visible at every level, but not when activity is hidden
+DROP POLICY IF EXISTS "Buddies can view badges" ON user_badges;
+CREATE POLICY "Buddies can view badges" ON user_badges
+    FOR SELECT USING (
+        activity_visibility(user_id, auth.uid()) IN ('full', 'summary', 'streak')
+    );
+
+-- Profiles: only your own row; everyone else goes through buddy_profiles
+DROP POLICY IF EXISTS "Users can view buddy usernames" ON profiles;
+DROP POLICY IF EXISTS "Users can view linked profiles" ON profiles;
+
+-- Create a view of the profiles of buddies, circle members and pending requests
+-- Streaks follow the owner's visibility; last active needs a daily summary or more.
+-- Push tokens stay private: nudge pushes are sent by the database. Runs with the view
+-- owner's rights, so it filters on auth.uid() itself.
+CREATE OR REPLACE VIEW buddy_profiles AS
+SELECT
+    p.id,
+    p.username,
+    p.username AS display_name,
+    v.visibility,
+    CASE WHEN v.visibility IN ('full', 'summary', 'streak') THEN p.current_streak END AS current_streak,
+    CASE WHEN v.visibility IN ('full', 'summary', 'streak') THEN p.longest_streak END AS longest_streak,
+    CASE WHEN v.visibility IN ('full', 'summary') THEN p.last_active_at END AS last_active_at
+FROM profiles p
+CROSS JOIN LATERAL (SELECT activity_visibility(p.id, auth.uid()) AS visibility) v
+LEFT JOIN buddy_links bl
+    ON bl.user_a = LEAST(p.id, auth.uid()) AND bl.user_b = GREATEST(p.id, auth.uid())
+WHERE v.visibility IS NOT NULL OR bl.status = 'pending';
+
+REVOKE ALL ON buddy_profiles FROM anon;
+GRANT SELECT ON buddy_profiles TO authenticated;
+
+-- Create a view of prayers completed per day, for summary and full visibility
+CREATE OR REPLACE VIEW buddy_daily_summaries AS
+SELECT
+    c.user_id,
+    c.day,
+    COUNT(*) FILTER (WHERE c.completed)::INTEGER AS prayers_completed
+FROM prayer_checkins c
+WHERE activity_visibility(c.user_id, auth.uid()) IN ('full', 'summary')
+GROUP BY c.user_id, c.day;
+
+REVOKE ALL ON buddy_daily_summaries FROM anon;
+GRANT SELECT ON buddy_daily_summaries TO authenticated;
+
+-- Per-prayer streaks are per-prayer detail, so they need full visibility
+CREATE OR REPLACE FUNCTION prayer_streaks(user_ids UUID[])
+RETURNS TABLE(user_id UUID, prayer_name TEXT, current_streak INTEGER, longest_streak INTEGER, done_today BOOLEAN) AS $$
+    SELECT
+        u.id,
+        p.name,
+        -- The current streak is the run ending today or yesterday
+        COALESCE((
+            SELECT r.run_length FROM prayer_streak_runs(u.id, p.name) r
+            WHERE r.run_end >= prayer_day(u.id) - 1
+            ORDER BY r.run_end DESC LIMIT 1
+        ), 0),
+        COALESCE((SELECT MAX(r.run_length) FROM prayer_streak_runs(u.id, p.name) r), 0),
+        EXISTS (
+            SELECT 1 FROM prayer_checkins c
+            WHERE c.user_id = u.id AND c.prayer = p.name AND c.day = prayer_day(u.id) AND c.completed
+        )
+    FROM unnest(user_ids) AS u(id)
+    CROSS JOIN unnest(ARRAY['fajr', 'dhuhr', 'asr', 'maghrib', 'isha']) AS p(name)
+    WHERE activity_visibility(u.id, auth.uid()) = 'full';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The circle dashboard follows each member's visibility too; the return type changes,
+-- so drop it first
+DROP FUNCTION IF EXISTS circle_dashboard(UUID);
+CREATE OR REPLACE FUNCTION circle_dashboard(circle_id_param UUID)
+RETURNS TABLE(
+    member_id UUID,
+    member_name TEXT,
+    member_role TEXT,
+    member_status TEXT,
+    member_day DATE,
+    member_visibility TEXT,
+    prayers_done INTEGER,
+    completed_prayers TEXT[]
+) AS $$
+BEGIN
+    IF circle_role(circle_id_param, auth.uid()) IS NULL THEN
+        RAISE EXCEPTION 'Not a member of this circle';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        cm.user_id,
+        p.username,
+        cm.role,
+        cm.status,
+        d.day,
+        v.visibility,
+        -- Counts for summary or full visibility; the prayers themselves for full only
+        CASE WHEN cm.status = 'active' AND v.visibility IN ('full', 'summary') THEN (
+            SELECT COUNT(*)::INTEGER FROM prayer_checkins pc
+            WHERE pc.user_id = cm.user_id AND pc.day = d.day AND pc.completed
+        ) END,
+        CASE WHEN cm.status = 'active' AND v.visibility = 'full' THEN COALESCE((
+            SELECT array_agg(pc.prayer ORDER BY pc.prayer)
+            FROM prayer_checkins pc
+            WHERE pc.user_id = cm.user_id AND pc.day = d.day AND pc.completed
+        ), ARRAY[]::TEXT[]) END
+    FROM circle_members cm
+    JOIN profiles p ON p.id = cm.user_id
+    CROSS JOIN LATERAL (SELECT prayer_day(cm.user_id) AS day) d
+    CROSS JOIN LATERAL (SELECT activity_visibility(cm.user_id, auth.uid()) AS visibility) v
+    WHERE cm.circle_id = circle_id_param
+    ORDER BY cm.status, cm.role = 'owner' DESC, cm.role = 'admin' DESC, lower(p.username) NULLS LAST;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
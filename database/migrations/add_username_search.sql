@@ -0,0 +1,159 @@
+-- Migration to add username search for adding buddies
+-- Profiles are not readable by other users, so search goes through search_usernames(),
+-- which returns only the id and username of exact or prefix matches. Users who turn off
+-- discoverable never appear in results and can only be added by invite code.
+
+-- Add discoverable column to profiles
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS discoverable BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Add comments for documentation
+COMMENT ON COLUMN profiles.discoverable IS 'Whether other users can find this profile by username';
+
+-- Prefix search on the case-insensitive username
+CREATE INDEX IF NOT EXISTS idx_profiles_username_prefix
+  ON profiles(LOWER(username) text_pattern_ops)
+  WHERE username IS NOT NULL AND discoverable;
+
+-- Create username_lookups table: one row per search or request made by username
+CREATE TABLE IF NOT EXISTS username_lookups (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('search', 'request')),
+    looked_up_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Enable RLS with no policies: only search_usernames() and request_buddy() read and write lookups
+ALTER TABLE username_lookups ENABLE ROW LEVEL SECURITY;
+
+-- Create index for the lookup limits
+CREATE INDEX IF NOT EXISTS idx_username_lookups_user ON username_lookups(user_id, kind, looked_up_at);
+
+-- Create a function to search discoverable users by username
+-- Needs at least 3 characters; an exact match sorts first. Excludes the caller.
+-- Prefixes can be walked to list every username, so a user may search at most
+-- 100 times an hour.
+CREATE OR REPLACE FUNCTION search_usernames(query TEXT)
+RETURNS TABLE(user_id UUID, username TEXT) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    q TEXT := lower(trim(query));
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Usernames are letters, numbers and underscores; anything else can't match
+    IF q IS NULL OR length(q) < 3 OR q !~ '^[a-z0-9_]+$' THEN
+        RETURN;
+    END IF;
+
+    IF (SELECT COUNT(*) FROM username_lookups l
+        WHERE l.user_id = uid AND l.kind = 'search' AND l.looked_up_at > NOW() - INTERVAL '1 hour') >= 100 THEN
+        RAISE EXCEPTION 'Too many searches. Try again in an hour.';
+    END IF;
+    INSERT INTO username_lookups (user_id, kind) VALUES (uid, 'search');
+
+    RETURN QUERY
+    SELECT p.id, p.username
+    FROM profiles p
+    WHERE p.discoverable
+      AND p.username IS NOT NULL
+      AND p.id <> uid
+      -- Underscore is a LIKE wildcard, so escape it
+      AND lower(p.username) LIKE replace(q, '_', '\_') || '%'
+    ORDER BY lower(p.username) = q DESC, length(p.username), lower(p.username)
+    LIMIT 10;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to send a buddy request from one user to another
+-- Shared by invite codes and username search. Creates a pending link, accepts the other
+-- user's pending request if there is one, and re-opens a rejected link.
+-- Returns the link's status. Not callable by clients, since it takes the requester's id.
+CREATE OR REPLACE FUNCTION create_buddy_request(requester UUID, target UUID)
+RETURNS TEXT AS $$
+DECLARE
+    existing buddy_links%ROWTYPE;
+BEGIN
+    SELECT * INTO existing FROM buddy_links
+    WHERE user_a = LEAST(requester, target) AND user_b = GREATEST(requester, target);
+
+    IF NOT FOUND THEN
+        INSERT INTO buddy_links (user_a, user_b, created_by, status, receiver_seen_at)
+        VALUES (LEAST(requester, target), GREATEST(requester, target), requester, 'pending', NULL)
+        RETURNING * INTO existing;
+    ELSIF existing.status = 'pending' AND existing.created_by = target THEN
+        UPDATE buddy_links SET status = 'accepted' WHERE id = existing.id
+        RETURNING * INTO existing;
+    ELSIF existing.status = 'rejected' THEN
+        UPDATE buddy_links
+        SET status = 'pending', created_by = requester, receiver_seen_at = NULL
+        WHERE id = existing.id
+        RETURNING * INTO existing;
+    END IF;
+
+    RETURN existing.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_buddy_request(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Redeem invite codes through the shared function, keeping the attempt limit from
+-- add_invite_codes.sql
+CREATE OR REPLACE FUNCTION redeem_invite_code(code_param TEXT)
+RETURNS TABLE(buddy_id UUID, buddy_name TEXT, link_status TEXT) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    inviter profiles%ROWTYPE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM invite_code_attempts
+        WHERE user_id = uid AND attempted_at > NOW() - INTERVAL '1 hour') >= 10 THEN
+        RAISE EXCEPTION 'Too many invite codes tried. Try again in an hour.';
+    END IF;
+
+    SELECT * INTO inviter FROM profiles WHERE invite_code = upper(trim(code_param));
+    IF NOT FOUND THEN
+        -- Return no row rather than raising, which would roll back the attempt
+        INSERT INTO invite_code_attempts (user_id) VALUES (uid);
+        RETURN;
+    END IF;
+    IF inviter.id = uid THEN
+        RAISE EXCEPTION 'That is your own invite code';
+    END IF;
+
+    RETURN QUERY SELECT inviter.id, inviter.username, create_buddy_request(uid, inviter.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a function to send a buddy request to a user found by username search
+-- Only discoverable users can be requested this way, at most 20 an hour.
+CREATE OR REPLACE FUNCTION request_buddy(target_id UUID)
+RETURNS TABLE(buddy_id UUID, buddy_name TEXT, link_status TEXT) AS $$
+DECLARE
+    uid UUID := auth.uid();
+    target profiles%ROWTYPE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM username_lookups l
+        WHERE l.user_id = uid AND l.kind = 'request' AND l.looked_up_at > NOW() - INTERVAL '1 hour') >= 20 THEN
+        RAISE EXCEPTION 'Too many buddy requests. Try again in an hour.';
+    END IF;
+    INSERT INTO username_lookups (user_id, kind) VALUES (uid, 'request');
+
+    SELECT * INTO target FROM profiles
+    WHERE id = target_id AND discoverable AND username IS NOT NULL;
+    IF NOT FOUND OR target.id = uid THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    RETURN QUERY SELECT target.id, target.username, create_buddy_request(uid, target.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
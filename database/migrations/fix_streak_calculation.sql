@@ -0,0 +1,96 @@
+-- Migration to fix streak calculation
+-- The original loop reset the current streak whenever the latest run was longer than
+-- one day, and never let a missed day break it. Streaks are now counted on the user's
+-- local days (profiles.tz): the current streak is the run ending today or yesterday.
+-- Keep in sync with computeStreak in services/streakEngine.ts.
+
+-- Create a function to calculate streak for a user
+CREATE OR REPLACE FUNCTION calculate_user_streak(user_id_param UUID)
+RETURNS TABLE(current_streak INTEGER, longest_streak INTEGER) AS $$
+DECLARE
+    local_today DATE;
+    last_day DATE;
+    last_run INTEGER;
+    longest_run INTEGER;
+BEGIN
+    SELECT (NOW() AT TIME ZONE COALESCE(tz, 'UTC'))::date INTO local_today
+    FROM profiles WHERE id = user_id_param;
+    local_today := COALESCE(local_today, CURRENT_DATE);
+
+    -- Consecutive days share the same value of day minus their row number
+    SELECT
+        COALESCE(MAX(runs.run_length), 0),
+        COALESCE((ARRAY_AGG(runs.run_length ORDER BY runs.run_end DESC))[1], 0),
+        MAX(runs.run_end)
+    INTO longest_run, last_run, last_day
+    FROM (
+        SELECT MAX(d.day) AS run_end, COUNT(*)::INTEGER AS run_length
+        FROM (
+            SELECT c.day, c.day - (ROW_NUMBER() OVER (ORDER BY c.day))::INTEGER AS grp
+            FROM (SELECT DISTINCT day FROM prayer_completions WHERE user_id = user_id_param) c
+        ) d
+        GROUP BY d.grp
+    ) runs;
+
+    -- A day still in progress doesn't break the streak; an earlier gap does
+    IF last_day IS NULL OR last_day < local_today - 1 THEN
+        last_run := 0;
+    END IF;
+
+    RETURN QUERY SELECT last_run, longest_run;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a function to update all user streaks
+-- The current streak is set outright so missed days reset it
+CREATE OR REPLACE FUNCTION update_all_streaks()
+RETURNS INTEGER AS $$
+DECLARE
+    user_record RECORD;
+    streak_result RECORD;
+    updated_count INTEGER := 0;
+BEGIN
+    FOR user_record IN SELECT id FROM profiles LOOP
+        SELECT * INTO streak_result FROM calculate_user_streak(user_record.id);
+
+        UPDATE profiles
+        SET
+            current_streak = streak_result.current_streak,
+            longest_streak = GREATEST(longest_streak, streak_result.longest_streak),
+            streak_updated_at = CURRENT_DATE
+        WHERE id = user_record.id;
+
+        updated_count := updated_count + 1;
+    END LOOP;
+
+    RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a trigger function to update streaks when prayer_completions changes
+CREATE OR REPLACE FUNCTION trigger_update_streak()
+RETURNS TRIGGER AS $$
+DECLARE
+    streak_result RECORD;
+    affected_user UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        affected_user := OLD.user_id;
+    ELSE
+        affected_user := NEW.user_id;
+    END IF;
+
+    SELECT * INTO streak_result FROM calculate_user_streak(affected_user);
+    UPDATE profiles
+    SET
+        current_streak = streak_result.current_streak,
+        longest_streak = GREATEST(longest_streak, streak_result.longest_streak),
+        streak_updated_at = CURRENT_DATE
+    WHERE id = affected_user;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recalculate existing streaks with the fixed function
+SELECT update_all_streaks();
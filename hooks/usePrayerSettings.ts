@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { prayerSettingsService, PrayerSettings } from '@/services/prayerSettings';
+
+/**
+ * Returns the user's prayer calculation settings and re-renders when they change.
+ * Pass the user id to refresh the settings from their profile.
+ */
+export function usePrayerSettings(userId?: string | null): PrayerSettings {
+  const [settings, setSettings] = useState<PrayerSettings>(prayerSettingsService.getSettings());
+
+  useEffect(() => {
+    const unsubscribe = prayerSettingsService.subscribe(setSettings);
+    prayerSettingsService.loadCached().then(setSettings);
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    prayerSettingsService.loadForUser(userId).then(setSettings);
+  }, [userId]);
+
+  return settings;
+}
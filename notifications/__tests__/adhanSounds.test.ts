@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import appConfig from '../../app.json';
+import { ADHAN_SOUNDS, DEFAULT_FAJR_ADHAN_SOUND, adhanSoundsFor, getAdhanSound } from '../adhanSounds';
+
+type NotificationsPluginOptions = {
+  sounds: string[];
+  ios: { sounds: string[] };
+  android: { sounds: string[] };
+};
+
+const plugin = appConfig.expo.plugins.find((p) => Array.isArray(p) && p[0] === 'expo-notifications') as
+  | [string, NotificationsPluginOptions]
+  | undefined;
+
+describe('adhan sound catalog', () => {
+  it('bundles every recording for iOS and the Android channels', () => {
+    expect(plugin).toBeDefined();
+    const options = plugin![1];
+    for (const sound of ADHAN_SOUNDS) {
+      const asset = `./assets/sounds/${sound.file}`;
+      expect(fs.existsSync(path.join(__dirname, '../..', asset))).toBe(true);
+      expect(options.sounds).toContain(asset);
+      expect(options.ios.sounds).toContain(asset);
+      expect(options.android.sounds).toContain(asset);
+    }
+  });
+
+  it('has unique ids and file names', () => {
+    expect(new Set(ADHAN_SOUNDS.map((s) => s.id)).size).toBe(ADHAN_SOUNDS.length);
+    expect(new Set(ADHAN_SOUNDS.map((s) => s.file)).size).toBe(ADHAN_SOUNDS.length);
+  });
+
+  it('keeps Fajr-only recordings out of the other prayers', () => {
+    expect(adhanSoundsFor('other').some((s) => s.fajr)).toBe(false);
+    expect(adhanSoundsFor('fajr')).toEqual(ADHAN_SOUNDS);
+  });
+
+  it('defaults Fajr to a Fajr recording when one is bundled', () => {
+    const fajr = ADHAN_SOUNDS.find((s) => s.fajr);
+    expect(DEFAULT_FAJR_ADHAN_SOUND).toBe(fajr ? fajr.id : getAdhanSound(null).id);
+  });
+});
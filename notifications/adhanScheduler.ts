@@ -1,184 +1,230 @@
 import * as Notifications from 'expo-notifications';
 import dayjs from 'dayjs';
-import {
-  Coordinates,
-  CalculationMethod,
-  Madhab as AdhanMadhab,
-  HighLatitudeRule as AdhanHighLat,
-  PrayerTimes,
-  CalculationParameters,
-} from 'adhan';
 import { Platform } from 'react-native';
-
-export type PrayerKey = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
-export type PrayerPrefs = {
-  calcMethod:
-    | 'MuslimWorldLeague'
-    | 'Egyptian'
-    | 'Karachi'
-    | 'NorthAmerica'
-    | 'Kuwait'
-    | 'Qatar'
-    | 'Singapore'
-    | 'UmmAlQura'
-    | 'Dubai'
-    | 'MoonsightingCommittee'
-    | 'Turkey'
-    | 'Tehran';
-  madhab: 'Shafi' | 'Hanafi';
-  highLat: 'MiddleOfTheNight' | 'SeventhOfTheNight' | 'TwilightAngle';
+import { computePrayerDay, PRAYER_KEYS, PrayerKey, PrayerPrefs, Coords } from '../services/prayerTimes';
+import {
+  prayerSettingsService,
+  DEFAULT_NOTIFICATION_PREFS,
+  NotificationPrefs,
+} from '../services/prayerSettings';
+import { saveLastCoords, loadLastCoords } from '../services/lastLocation';
+import { DEFAULT_ADHAN_SOUND, DEFAULT_FAJR_ADHAN_SOUND } from './adhanSounds';
+import { PRAYER_CATEGORY, PrayerNotificationData, isPrayerNotificationData } from './prayerActions';
+
+// Days of adhans kept queued ahead of now
+export const ROLLING_DAYS = 5;
+// iOS keeps at most 64 pending local notifications per app; leave room for others
+const MAX_PENDING = 50;
+
+const ID_PREFIX = 'prayer-';
+// Bump when the notification content changes so already-pending notifications get replaced
+const SIGNATURE_VERSION = 2;
+
+export type ScheduleOptions = {
+  graceMinutes?: number;
+  // Per-prayer adhan/silent/off and pre-reminder; defaults to adhan for every prayer
+  notifications?: NotificationPrefs;
+  adhanSound?: string;
+  fajrAdhanSound?: string;
 };
 
-export type Coords = { latitude: number; longitude: number };
-
-// Single standard method used app-wide
-export const FIXED_MWL_PREFS: PrayerPrefs = {
-  calcMethod: 'MuslimWorldLeague',
-  madhab: 'Shafi',
-  highLat: 'MiddleOfTheNight',
+export type PlannedPrayerNotification = {
+  identifier: string;
+  day: string;
+  prayer: PrayerKey;
+  kind: 'prayer' | 'reminder';
+  mode: 'adhan' | 'silent';
+  fireAt: Date;
+  reminderMinutes?: number;
+  sound?: string;
 };
 
-function buildParams(prefs: PrayerPrefs): CalculationParameters {
-  let params: CalculationParameters;
-  switch (prefs.calcMethod) {
-    case 'Egyptian':
-      params = CalculationMethod.Egyptian();
-      break;
-    case 'Karachi':
-      params = CalculationMethod.Karachi();
-      break;
-    case 'NorthAmerica':
-      params = CalculationMethod.NorthAmerica();
-      break;
-    case 'Kuwait':
-      params = CalculationMethod.Kuwait();
-      break;
-    case 'Qatar':
-      params = CalculationMethod.Qatar();
-      break;
-    case 'Singapore':
-      params = CalculationMethod.Singapore();
-      break;
-    case 'UmmAlQura':
-      params = CalculationMethod.UmmAlQura();
-      break;
-    case 'Dubai':
-      params = CalculationMethod.Dubai();
-      break;
-    case 'MoonsightingCommittee':
-      params = CalculationMethod.MoonsightingCommittee();
-      break;
-    case 'Turkey':
-      params = CalculationMethod.Turkey();
-      break;
-    case 'Tehran':
-      params = CalculationMethod.Tehran();
-      break;
-    default:
-      params = CalculationMethod.MuslimWorldLeague();
-  }
-  params.madhab = prefs.madhab === 'Hanafi' ? AdhanMadhab.Hanafi : AdhanMadhab.Shafi;
-  params.highLatitudeRule =
-    prefs.highLat === 'SeventhOfTheNight'
-      ? AdhanHighLat.SeventhOfTheNight
-      : prefs.highLat === 'TwilightAngle'
-      ? AdhanHighLat.TwilightAngle
-      : AdhanHighLat.MiddleOfTheNight;
-  return params;
+/**
+ * Stable identifier for a prayer's notification on a given day (YYYY-MM-DD)
+ */
+export function prayerNotificationId(day: string, prayer: PrayerKey, kind: 'prayer' | 'reminder' = 'prayer') {
+  return kind === 'reminder' ? `${ID_PREFIX}${day}-${prayer}-reminder` : `${ID_PREFIX}${day}-${prayer}`;
 }
 
-export function computeTodayPrayerDates(coords: Coords, prefs: PrayerPrefs) {
-  const params = buildParams(prefs);
-  const pt = new PrayerTimes(new Coordinates(coords.latitude, coords.longitude), new Date(), params);
-  return {
-    fajr: pt.fajr,
-    dhuhr: pt.dhuhr,
-    asr: pt.asr,
-    maghrib: pt.maghrib,
-    isha: pt.isha,
-  } as Record<PrayerKey, Date>;
+function isPrayerNotificationId(identifier: string) {
+  return identifier.startsWith(ID_PREFIX);
 }
 
-export async function cancelAllPrayerNotifications() {
-  await Notifications.cancelAllScheduledNotificationsAsync();
+// Anything that changes what the notification does goes into the signature,
+// so a reschedule only replaces notifications that actually differ.
+function signatureOf(plan: PlannedPrayerNotification) {
+  return `v${SIGNATURE_VERSION}|${plan.kind}|${plan.fireAt.toISOString()}|${plan.mode}|${plan.sound ?? ''}`;
 }
 
 /**
- * Schedules exactly one notification: the next upcoming prayer today.
- * Returns the scheduled prayer key, or null if none left today.
+ * Works out which prayer notifications should be pending from `now` over the rolling window.
  */
-export async function scheduleNextPrayerNotification(
+export function planPrayerNotifications(
   coords: Coords,
   prefs: PrayerPrefs,
-  options?: {
-    graceMinutes?: number;
-    playSound?: boolean;
-    androidChannelId?: string; // defaults to 'adhan'
-    iosSound?: string; // defaults to 'adhan.wav' if playSound is true
-  }
-): Promise<PrayerKey | null> {
+  options?: ScheduleOptions,
+  now: Date = new Date()
+): PlannedPrayerNotification[] {
   const grace = options?.graceMinutes ?? 0;
-  const playSound = options?.playSound !== false;
+  const notifications = options?.notifications ?? DEFAULT_NOTIFICATION_PREFS;
+  const plans: PlannedPrayerNotification[] = [];
+
+  const firstDay = computePrayerDay(coords, now, prefs).date;
+  for (let i = 0; i < ROLLING_DAYS; i++) {
+    const day = dayjs(firstDay).add(i, 'day').format('YYYY-MM-DD');
+    const times = computePrayerDay(coords, day, prefs);
+    for (const prayer of PRAYER_KEYS) {
+      const pref = notifications[prayer];
+      if (pref.mode === 'off') continue;
+
+      if (pref.reminderMinutes) {
+        const remindAt = dayjs(times[prayer]).subtract(pref.reminderMinutes, 'minute');
+        if (remindAt.isAfter(now)) {
+          plans.push({
+            identifier: prayerNotificationId(day, prayer, 'reminder'),
+            day,
+            prayer,
+            kind: 'reminder',
+            mode: 'silent',
+            fireAt: remindAt.toDate(),
+            reminderMinutes: pref.reminderMinutes,
+          });
+        }
+      }
+
+      const fireAt = dayjs(times[prayer]).add(grace, 'minute');
+      if (!fireAt.isAfter(now)) continue;
+      plans.push({
+        identifier: prayerNotificationId(day, prayer),
+        day,
+        prayer,
+        kind: 'prayer',
+        mode: pref.mode,
+        fireAt: fireAt.toDate(),
+        sound:
+          pref.mode !== 'adhan'
+            ? undefined
+            : prayer === 'fajr'
+            ? options?.fajrAdhanSound ?? DEFAULT_FAJR_ADHAN_SOUND
+            : options?.adhanSound ?? DEFAULT_ADHAN_SOUND,
+      });
+    }
+  }
+
+  plans.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+  const capped = plans.slice(0, MAX_PENDING);
+  // Don't keep a reminder whose prayer fell outside the cap
+  if (capped.length && capped[capped.length - 1].kind === 'reminder') capped.pop();
+  return capped;
+}
 
-  const times = computeTodayPrayerDates(coords, prefs);
+/**
+ * Cancels only the prayer notifications this scheduler owns, leaving anything else queued.
+ */
+export async function cancelAllPrayerNotifications() {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((n) => isPrayerNotificationId(n.identifier))
+      .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier))
+  );
+}
 
-  const now = dayjs();
-  const order: PrayerKey[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
-  let nextKey: PrayerKey | null = null;
-  let nextTime: Date | null = null;
+/**
+ * Brings the pending prayer notifications in line with the rolling window.
+ * Unchanged notifications are left alone; stale or changed ones are replaced.
+ * Returns the number of prayer notifications pending afterwards.
+ */
+export async function syncPrayerNotifications(
+  coords: Coords,
+  prefs: PrayerPrefs,
+  options?: ScheduleOptions
+): Promise<number> {
+  await saveLastCoords(coords);
+
+  const plans = planPrayerNotifications(coords, prefs, options);
+  const wanted = new Map(plans.map((p) => [p.identifier, p]));
+
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  const current = new Map<string, string | undefined>();
+  for (const n of scheduled) {
+    if (!isPrayerNotificationId(n.identifier)) continue;
+    const data = n.content.data;
+    current.set(n.identifier, isPrayerNotificationData(data) ? data.signature : undefined);
+  }
 
-  for (const key of order) {
-    const t = dayjs(times[key]).add(grace, 'minute');
-    if (t.isAfter(now)) {
-      nextKey = key;
-      nextTime = t.toDate();
-      break;
+  for (const [identifier, signature] of current) {
+    const plan = wanted.get(identifier);
+    if (!plan || signatureOf(plan) !== signature) {
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+      current.delete(identifier);
     }
   }
 
-  await cancelAllPrayerNotifications();
-
-  if (nextKey && nextTime) {
-    if (playSound) {
-      // Use hybrid notification system for audio
-      const { audioNotificationService } = await import('./audioService');
-      await audioNotificationService.scheduleHybridNotification({
-        title: 'Time to Pray',
-        body: `It's time for ${capitalize(nextKey)}.`,
-        triggerDate: nextTime,
-        data: { type: 'prayer', prayer: nextKey },
-      });
-    } else {
-      // Use regular silent notification
-      const trigger =
-        Platform.OS === 'android'
-          ? {
-              type: Notifications.SchedulableTriggerInputTypes.DATE as const,
-              channelId: options?.androidChannelId || 'adhan',
-              date: nextTime,
-            }
-          : {
-              type: Notifications.SchedulableTriggerInputTypes.DATE as const,
-              date: nextTime,
-            };
-
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: 'Time to Pray',
-          body: `It's time for ${capitalize(nextKey)}.`,
-          sound: undefined, // Silent notification
-          data: { type: 'prayer', prayer: nextKey },
-        },
-        trigger: trigger,
-      });
-    }
+  for (const plan of plans) {
+    if (current.has(plan.identifier)) continue;
+    await schedulePlanned(plan);
+  }
+
+  return plans.length;
+}
+
+/**
+ * Tops up the rolling window using the last known location and cached settings.
+ * Used where no screen is around to supply them, e.g. the background refresh task.
+ */
+export async function topUpPrayerNotifications(): Promise<number> {
+  const coords = await loadLastCoords();
+  if (!coords) return 0;
+  const settings = await prayerSettingsService.loadCached();
+  return syncPrayerNotifications(coords, settings, {
+    notifications: settings.notifications,
+    adhanSound: settings.adhanSound,
+    fajrAdhanSound: settings.fajrAdhanSound,
+  });
+}
 
-    return nextKey;
+async function schedulePlanned(plan: PlannedPrayerNotification) {
+  const data: PrayerNotificationData = {
+    type: plan.kind === 'reminder' ? 'prayer_reminder' : 'prayer',
+    prayer: plan.prayer,
+    day: plan.day,
+    signature: signatureOf(plan),
+  };
+
+  if (plan.kind === 'reminder') {
+    await Notifications.scheduleNotificationAsync({
+      identifier: plan.identifier,
+      content: {
+        title: 'Prayer Reminder',
+        body: `${capitalize(plan.prayer)} is in ${plan.reminderMinutes} minutes.`,
+        sound: 'default',
+        data,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: plan.fireAt,
+        ...(Platform.OS === 'android' && { channelId: 'reminders' }),
+      },
+    });
+    return;
   }
 
-  return null;
+  // Adhan and silent prayer notifications both go through the hybrid service,
+  // which picks the sound and channel for the mode
+  const { audioNotificationService } = await import('./audioService');
+  await audioNotificationService.scheduleHybridNotification({
+    identifier: plan.identifier,
+    title: 'Time to Pray',
+    body: `It's time for ${capitalize(plan.prayer)}.`,
+    triggerDate: plan.fireAt,
+    mode: plan.mode,
+    soundId: plan.sound,
+    categoryIdentifier: PRAYER_CATEGORY,
+    data,
+  });
 }
 
 function capitalize(s: string) {
   return s.charAt(0).toUpperCase() + s.slice(1);
-}
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+export interface AdhanSound {
+  id: string;
+  label: string;
+  /** File name as bundled by the expo-notifications plugin (iOS bundle, Android res/raw) */
+  file: string;
+  /** Asset module used for in-app playback */
+  source: number;
+  /** Fajr recordings include "as-salatu khayrun min an-nawm" and are offered for Fajr only */
+  fajr?: boolean;
+}
+
+// Every recording listed here must also be listed under the expo-notifications
+// plugin "sounds" (top level, ios and android) in app.json so it ships with the native
+// build; notifications/__tests__/adhanSounds.test.ts checks this. Add a Fajr recording
+// with `fajr: true` and it becomes the Fajr default.
+export const ADHAN_SOUNDS: AdhanSound[] = [
+  {
+    id: 'adhan1',
+    label: 'Classic Adhan',
+    file: 'adhan1.wav',
+    source: require('../assets/sounds/adhan1.wav'),
+  },
+];
+
+export const DEFAULT_ADHAN_SOUND = 'adhan1';
+// Falls back to the regular recording until a Fajr-specific one is bundled
+export const DEFAULT_FAJR_ADHAN_SOUND = ADHAN_SOUNDS.find((s) => s.fajr)?.id ?? DEFAULT_ADHAN_SOUND;
+
+export function getAdhanSound(id?: string | null): AdhanSound {
+  return (
+    ADHAN_SOUNDS.find((s) => s.id === id) ??
+    ADHAN_SOUNDS.find((s) => s.id === DEFAULT_ADHAN_SOUND) ??
+    ADHAN_SOUNDS[0]
+  );
+}
+
+/**
+ * Sounds offered for a prayer: Fajr can use any recording, the others skip Fajr-only ones
+ */
+export function adhanSoundsFor(prayer: 'fajr' | 'other'): AdhanSound[] {
+  return prayer === 'fajr' ? ADHAN_SOUNDS : ADHAN_SOUNDS.filter((s) => !s.fajr);
+}
+
+/**
+ * Android channel for a sound. Channel sounds are fixed once created, so each recording gets its own.
+ */
+export function adhanChannelId(id: string) {
+  return `adhan-${getAdhanSound(id).id}`;
+}
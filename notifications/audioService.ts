@@ -1,9 +1,13 @@
 import { useAudioPlayer } from 'expo-audio';
 import { AppState, Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
+import type { NotificationMode } from '../services/prayerSettings';
+import { adhanChannelId, getAdhanSound } from './adhanSounds';
 
 class AudioNotificationService {
   private audioPlayer: any = null;
+  private previewPlayer: any = null;
+  private previewTimer: ReturnType<typeof setTimeout> | null = null;
   private isInitialized = false;
 
   async initialize() {
@@ -12,7 +16,7 @@ class AudioNotificationService {
     try {
       // Initialize audio player with the adhan sound
       const { useAudioPlayer } = await import('expo-audio');
-      const audioSource = require('../assets/sounds/adhan1.wav');
+      const audioSource = getAdhanSound().source;
       
       // We'll create the player when needed to avoid hook issues
       this.isInitialized = true;
@@ -22,10 +26,10 @@ class AudioNotificationService {
     }
   }
 
-  async playAdhanSound() {
+  async playAdhanSound(soundId?: string) {
     try {
       const { createAudioPlayer } = await import('expo-audio');
-      const audioSource = require('../assets/sounds/adhan1.wav');
+      const audioSource = getAdhanSound(soundId).source;
       
       // Create a new player instance for each playback
       const player = createAudioPlayer(audioSource);
@@ -49,6 +53,37 @@ class AudioNotificationService {
     }
   }
 
+  /**
+   * Plays the opening of a recording so the user can pick one. Starting a new preview stops the last.
+   */
+  async previewAdhanSound(soundId: string, durationMs = 15000) {
+    this.stopPreview();
+    try {
+      const { createAudioPlayer } = await import('expo-audio');
+      this.previewPlayer = createAudioPlayer(getAdhanSound(soundId).source);
+      this.previewPlayer.play();
+      this.previewTimer = setTimeout(() => this.stopPreview(), durationMs);
+    } catch (error) {
+      console.error('Failed to preview adhan sound:', error);
+    }
+  }
+
+  stopPreview() {
+    if (this.previewTimer) {
+      clearTimeout(this.previewTimer);
+      this.previewTimer = null;
+    }
+    if (this.previewPlayer) {
+      try {
+        this.previewPlayer.pause();
+        this.previewPlayer.release();
+      } catch (e) {
+        console.log('Preview player already released');
+      }
+      this.previewPlayer = null;
+    }
+  }
+
   isAppInForeground(): boolean {
     return AppState.currentState === 'active';
   }
@@ -57,13 +92,16 @@ class AudioNotificationService {
     // Check if this is a prayer notification
     const notificationData = notification.request.content.data;
     
-    if (notificationData?.type === 'prayer' || notificationData?.type === 'test') {
+    // Silent-mode prayer notifications are scheduled without custom audio
+    const wantsAdhan = notificationData?.type === 'test' || (notificationData?.type === 'prayer' && notificationData?.useCustomAudio);
+
+    if (wantsAdhan) {
       console.log('Prayer notification received:', notificationData);
       
       // If app is in foreground, play audio directly
       if (this.isAppInForeground()) {
         console.log('App in foreground, playing audio directly');
-        await this.playAdhanSound();
+        await this.playAdhanSound(notificationData?.soundId as string | undefined);
       } else {
         console.log('App in background, relying on system notification sound');
       }
@@ -71,38 +109,57 @@ class AudioNotificationService {
   }
 
   async scheduleHybridNotification({
+    identifier,
     title,
     body,
     triggerDate,
+    mode = 'adhan',
+    soundId,
+    categoryIdentifier,
     data = {},
   }: {
+    identifier?: string;
     title: string;
     body: string;
     triggerDate: Date;
+    mode?: NotificationMode;
+    soundId?: string;
+    /** Notification category whose action buttons are shown with the notification */
+    categoryIdentifier?: string;
     data?: any;
   }) {
+    if (mode === 'off') return;
+
     try {
+      const withAdhan = mode === 'adhan';
+      const sound = getAdhanSound(soundId);
+
       // Schedule notification with adhan sound for background, custom audio for foreground
       const notificationContent: any = {
         title,
         body,
-        data: { ...data, useCustomAudio: true, type: 'prayer' },
+        data: { ...data, useCustomAudio: withAdhan, mode, soundId: sound.id, type: 'prayer' },
+        ...(categoryIdentifier && { categoryIdentifier }),
       };
 
       // Configure sound based on platform
-      if (Platform.OS === 'ios') {
-        notificationContent.sound = 'adhan1.wav';
+      if (!withAdhan) {
+        // Silent banner: no sound on iOS, silent channel on Android
+        notificationContent.sound = undefined;
+      } else if (Platform.OS === 'ios') {
+        notificationContent.sound = sound.file;
       } else {
         // For Android, sound is handled by the channel configuration
-        notificationContent.sound = 'adhan1.wav';
+        notificationContent.sound = sound.file;
       }
 
       await Notifications.scheduleNotificationAsync({
+        identifier,
         content: notificationContent,
         trigger: {
           type: Notifications.SchedulableTriggerInputTypes.DATE,
           date: triggerDate,
-          ...(Platform.OS === 'android' && { channelId: 'adhan' }),
+          ...(Platform.OS === 'android' && { channelId: withAdhan ? adhanChannelId(sound.id) : 'prayer-silent' }),
         },
       });
       
@@ -119,7 +176,7 @@ class AudioNotificationService {
 export const audioNotificationService = new AudioNotificationService();
 
 // Export hook for React components that need audio player
-export function useAdhanAudioPlayer() {
-  const audioSource = require('../assets/sounds/adhan1.wav');
+export function useAdhanAudioPlayer(soundId?: string) {
+  const audioSource = getAdhanSound(soundId).source;
   return useAudioPlayer(audioSource);
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import * as TaskManager from 'expo-task-manager';
+import * as BackgroundTask from 'expo-background-task';
+import { topUpPrayerNotifications } from './adhanScheduler';
+import { supabase } from '../lib/supabase';
+import { goalService } from '../services/goalService';
+
+export const PRAYER_REFRESH_TASK = 'prayer-notification-refresh';
+
+// The OS decides when this actually runs; ask for roughly twice a day
+const MINIMUM_INTERVAL_MINUTES = 12 * 60;
+
+// Must be defined at module scope so the task exists when the OS wakes the app headless
+TaskManager.defineTask(PRAYER_REFRESH_TASK, async () => {
+  try {
+    const pending = await topUpPrayerNotifications();
+    console.log('Background refresh topped up prayer notifications:', pending);
+    // Goal notices also go out on days the app isn't opened
+    const { data } = await supabase.auth.getSession();
+    if (data.session?.user?.id) await goalService.refresh(data.session.user.id);
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error('Background prayer notification refresh failed:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+export async function registerPrayerRefreshTask() {
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+      console.warn('Background tasks unavailable; prayer notifications refresh on app resume only');
+      return;
+    }
+    const registered = await TaskManager.isTaskRegisteredAsync(PRAYER_REFRESH_TASK);
+    if (!registered) {
+      await BackgroundTask.registerTaskAsync(PRAYER_REFRESH_TASK, {
+        minimumInterval: MINIMUM_INTERVAL_MINUTES,
+      });
+    }
+  } catch (error) {
+    console.error('Failed to register prayer refresh task:', error);
+  }
+}
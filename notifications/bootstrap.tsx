@@ -1,11 +1,19 @@
 import { useEffect } from 'react';
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
+import { router } from 'expo-router';
 import { audioNotificationService } from './audioService';
+import { registerPrayerRefreshTask } from './backgroundRefresh';
+import { ADHAN_SOUNDS, adhanChannelId } from './adhanSounds';
+import { registerPrayerNotificationCategory, handlePrayerNotificationResponse } from './prayerActions';
+import { syncQueue } from '../services/syncQueue';
 
 export default function NotificationsBootstrap() {
   useEffect(() => {
     const run = async () => {
+      // Replay check-ins saved offline, now and whenever the connection comes back
+      syncQueue.start();
+
       // Initialize audio service
       await audioNotificationService.initialize();
 
@@ -17,16 +25,48 @@ export default function NotificationsBootstrap() {
         });
       }
 
-      // Android channel for fallback sound
+      // Keep the rolling adhan window topped up even if the app isn't opened
+      await registerPrayerRefreshTask();
+
+      // "Mark prayed" / snooze / dismiss buttons on prayer notifications
+      await registerPrayerNotificationCategory();
+
+      // Android channels: one per adhan recording, since a channel's sound is fixed once created
       if (Platform.OS === 'android') {
-        await Notifications.setNotificationChannelAsync('adhan', {
-          name: 'Adhan',
-          importance: Notifications.AndroidImportance.MAX,
-          sound: 'adhan1.wav', // Use custom adhan sound
-          vibrationPattern: [0, 300, 250, 300],
-          lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
-          enableLights: true,
-          enableVibrate: true
+        const wanted = new Set(ADHAN_SOUNDS.map((s) => adhanChannelId(s.id)));
+        for (const sound of ADHAN_SOUNDS) {
+          await Notifications.setNotificationChannelAsync(adhanChannelId(sound.id), {
+            name: `Adhan - ${sound.label}`,
+            importance: Notifications.AndroidImportance.MAX,
+            sound: sound.file,
+            vibrationPattern: [0, 300, 250, 300],
+            lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+            enableLights: true,
+            enableVibrate: true
+          });
+        }
+
+        // Drop the legacy 'adhan' channel and any for recordings no longer in the catalog
+        const existing = await Notifications.getNotificationChannelsAsync();
+        for (const channel of existing) {
+          if ((channel.id === 'adhan' || channel.id.startsWith('adhan-')) && !wanted.has(channel.id)) {
+            await Notifications.deleteNotificationChannelAsync(channel.id);
+          }
+        }
+
+        // Channel sounds can't be overridden per notification, so silent banners and
+        // pre-prayer reminders need channels of their own
+        await Notifications.setNotificationChannelAsync('prayer-silent', {
+          name: 'Prayer (silent)',
+          importance: Notifications.AndroidImportance.HIGH,
+          sound: null,
+          lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC
+        });
+        await Notifications.setNotificationChannelAsync('reminders', {
+          name: 'Prayer reminders',
+          importance: Notifications.AndroidImportance.HIGH,
+          sound: 'default',
+          lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC
         });
       }
 
@@ -36,29 +76,44 @@ export default function NotificationsBootstrap() {
           await audioNotificationService.handleNotificationReceived(notification);
           
           const notificationData = notification.request.content.data;
-          const isPrayerNotification = notificationData?.type === 'prayer' || notificationData?.type === 'test';
+          const playsSound =
+            (notificationData?.type === 'prayer' && notificationData?.mode !== 'silent') ||
+            notificationData?.type === 'test' ||
+            notificationData?.type === 'prayer_reminder';
           
           return {
             shouldShowAlert: true,
             shouldShowBanner: true,
             shouldShowList: true,
-            // Always play sound for prayer notifications
-            shouldPlaySound: isPrayerNotification,
+            // Play sound for prayer notifications and reminders unless the prayer is set to silent
+            shouldPlaySound: playsSound,
             shouldSetBadge: false
           };
         }
       });
 
-      // Listen for notification responses (when user taps notification)
+      // Listen for notification responses (taps and action buttons)
       const responseSubscription = Notifications.addNotificationResponseReceivedListener(
         async (response) => {
+          if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+            await handlePrayerNotificationResponse(response);
+            return;
+          }
           const data = response.notification.request.content.data;
+          if (data?.type === 'nudge') {
+            router.push('/nudges');
+            return;
+          }
           if (data?.useCustomAudio && audioNotificationService.isAppInForeground()) {
-            await audioNotificationService.playAdhanSound();
+            await audioNotificationService.playAdhanSound(data.soundId as string | undefined);
           }
         }
       );
 
+      // An action pressed while the app was not running is delivered on launch
+      const lastResponse = await Notifications.getLastNotificationResponseAsync();
+      if (lastResponse) await handlePrayerNotificationResponse(lastResponse);
+
       return () => {
         responseSubscription.remove();
       };
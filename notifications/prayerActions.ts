@@ -0,0 +1,135 @@
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { checkinService } from '../services/checkinService';
+import { PRAYER_KEYS, PrayerKey } from '../services/prayerTimes';
+
+export const PRAYER_CATEGORY = 'prayer';
+
+export const PRAYER_ACTIONS = {
+  markPrayed: 'mark-prayed',
+  snooze: 'snooze',
+  dismiss: 'dismiss',
+} as const;
+
+const SNOOZE_MINUTES = 10;
+// Kept apart from the scheduler's 'prayer-' ids so a sync doesn't cancel a snooze
+const SNOOZE_PREFIX = 'snooze-';
+const LAST_HANDLED_KEY = 'last_handled_notification_action';
+
+/** Data carried by prayer, reminder and snoozed notifications */
+export type PrayerNotificationData = {
+  type: 'prayer' | 'prayer_reminder';
+  prayer: PrayerKey;
+  /** Prayer day (YYYY-MM-DD) the notification is for */
+  day: string;
+  /** Set by the scheduler to tell whether a pending notification is still current */
+  signature?: string;
+  snoozed?: boolean;
+};
+
+export function isPrayerNotificationData(data: unknown): data is PrayerNotificationData {
+  if (!data || typeof data !== 'object') return false;
+  const d = data as Record<string, unknown>;
+  return (
+    (d.type === 'prayer' || d.type === 'prayer_reminder') &&
+    PRAYER_KEYS.includes(d.prayer as PrayerKey) &&
+    typeof d.day === 'string'
+  );
+}
+
+/**
+ * Registers the actions shown on prayer notifications. None of them open the app.
+ */
+export async function registerPrayerNotificationCategory() {
+  try {
+    await Notifications.setNotificationCategoryAsync(PRAYER_CATEGORY, [
+      {
+        identifier: PRAYER_ACTIONS.markPrayed,
+        buttonTitle: 'Mark prayed',
+        options: { opensAppToForeground: false },
+      },
+      {
+        identifier: PRAYER_ACTIONS.snooze,
+        buttonTitle: `Remind me in ${SNOOZE_MINUTES} min`,
+        options: { opensAppToForeground: false },
+      },
+      {
+        identifier: PRAYER_ACTIONS.dismiss,
+        buttonTitle: 'Dismiss',
+        options: { opensAppToForeground: false, isDestructive: true },
+      },
+    ]);
+  } catch (error) {
+    console.error('Failed to register prayer notification actions:', error);
+  }
+}
+
+/**
+ * Handles an action button pressed on a prayer notification. A plain tap
+ * (the default action) only opens the app and is ignored here.
+ */
+export async function handlePrayerNotificationResponse(response: Notifications.NotificationResponse) {
+  const { actionIdentifier, notification } = response;
+  if (actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) return;
+
+  const data = notification.request.content.data;
+  if (!isPrayerNotificationData(data)) return;
+  const { prayer } = data;
+
+  // The same response can be delivered to the live listener and again on a cold start
+  const responseKey = `${notification.request.identifier}|${actionIdentifier}|${notification.date}`;
+  if ((await AsyncStorage.getItem(LAST_HANDLED_KEY)) === responseKey) return;
+  await AsyncStorage.setItem(LAST_HANDLED_KEY, responseKey);
+
+  try {
+    switch (actionIdentifier) {
+      case PRAYER_ACTIONS.markPrayed:
+        await markPrayed(data.day, prayer);
+        break;
+      case PRAYER_ACTIONS.snooze:
+        await snooze(data, prayer);
+        break;
+      case PRAYER_ACTIONS.dismiss:
+        break;
+      default:
+        return;
+    }
+    await Notifications.dismissNotificationAsync(notification.request.identifier);
+  } catch (error) {
+    console.error('Failed to handle prayer notification action:', error);
+  }
+}
+
+async function markPrayed(day: string, prayer: PrayerKey) {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user?.id;
+  if (!userId) {
+    console.warn('Cannot mark prayer from notification without a signed-in user');
+    return;
+  }
+  const { error } = await checkinService.saveCheckin(userId, day, prayer, true);
+  if (error) console.warn('Could not mark prayer from notification:', error);
+}
+
+async function snooze(data: PrayerNotificationData, prayer: PrayerKey) {
+  const name = prayer.charAt(0).toUpperCase() + prayer.slice(1);
+  const snoozed: PrayerNotificationData = { type: 'prayer_reminder', prayer, day: data.day, snoozed: true };
+  await Notifications.scheduleNotificationAsync({
+    identifier: `${SNOOZE_PREFIX}${data.day}-${prayer}`,
+    content: {
+      title: 'Prayer Reminder',
+      body: `Have you prayed ${name} yet?`,
+      sound: 'default',
+      categoryIdentifier: PRAYER_CATEGORY,
+      // Snoozes keep the prayer's actions but ring as a reminder rather than a second adhan
+      data: snoozed,
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+      seconds: SNOOZE_MINUTES * 60,
+      ...(Platform.OS === 'android' && { channelId: 'reminders' }),
+    },
+  });
+}
@@ -79,58 +79,6 @@ class PushNotificationService {
     }
   }
 
-  async sendNudgeNotification(toUserId: string, fromUserEmail: string, prayer: string) {
-    try {
-      // Get the recipient's push token
-      const { data: profile, error } = await supabase
-        .from('profiles')
-        .select('push_token')
-        .eq('id', toUserId)
-        .single();
-      
-      if (error || !profile?.push_token) {
-        console.warn('No push token found for user:', toUserId);
-        return false;
-      }
-
-      // Send push notification using Expo's push API
-      const message = {
-        to: profile.push_token,
-        sound: 'default',
-        title: '🔔 Prayer Nudge',
-        body: `${fromUserEmail} nudged you to complete ${prayer} prayer`,
-        data: {
-          type: 'nudge',
-          prayer: prayer,
-          fromUser: fromUserEmail
-        },
-      };
-
-      const response = await fetch('https://exp.host/--/api/v2/push/send', {
-        method: 'POST',
-        headers: {
-          Accept: 'application/json',
-          'Accept-encoding': 'gzip, deflate',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(message),
-      });
-
-      const result = await response.json();
-      
-      if (result.data?.status === 'ok') {
-        console.log('Nudge notification sent successfully');
-        return true;
-      } else {
-        console.error('Failed to send nudge notification:', result);
-        return false;
-      }
-    } catch (error) {
-      console.error('Error sending nudge notification:', error);
-      return false;
-    }
-  }
-
   async refreshPushToken(userId: string) {
     try {
       let token;
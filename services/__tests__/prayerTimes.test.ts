@@ -0,0 +1,140 @@
+import {
+  computePrayerDay,
+  classifyCheckin,
+  prayerDayOf,
+  timeInTimeZone,
+  CalcMethodKey,
+  HighLatKey,
+  MadhabKey,
+  PrayerDay,
+} from '../prayerTimes';
+
+// Local times (HH:MM) for fajr, sunrise, dhuhr, asr, maghrib and isha
+type Golden = [string, string, string, string, string, string];
+
+function localTimes(day: PrayerDay, tz: string): Golden {
+  return [day.fajr, day.sunrise, day.dhuhr, day.asr, day.maghrib, day.isha].map((t) => timeInTimeZone(t, tz)) as Golden;
+}
+
+describe('computePrayerDay', () => {
+  // One city per calculation method, on 2024-03-15
+  const cities: [string, number, number, string, CalcMethodKey, MadhabKey, Golden][] = [
+    ['Makkah', 21.4225, 39.8262, 'Asia/Riyadh', 'UmmAlQura', 'Shafi', ['05:13', '06:29', '12:29', '15:54', '18:30', '20:00']],
+    ['London', 51.5072, -0.1276, 'Europe/London', 'MuslimWorldLeague', 'Shafi', ['04:21', '06:14', '12:10', '15:22', '18:06', '19:52']],
+    ['New York', 40.7128, -74.006, 'America/New_York', 'NorthAmerica', 'Shafi', ['05:52', '07:07', '13:06', '16:27', '19:03', '20:19']],
+    ['Cairo', 30.0444, 31.2357, 'Africa/Cairo', 'Egyptian', 'Shafi', ['04:38', '06:05', '12:05', '15:30', '18:04', '19:21']],
+    ['Karachi', 24.8607, 67.0011, 'Asia/Karachi', 'Karachi', 'Hanafi', ['05:25', '06:41', '12:42', '17:01', '18:41', '19:57']],
+    ['Kuwait City', 29.3759, 47.9774, 'Asia/Kuwait', 'Kuwait', 'Shafi', ['04:39', '05:58', '11:57', '15:23', '17:57', '19:13']],
+    ['Doha', 25.2854, 51.531, 'Asia/Qatar', 'Qatar', 'Shafi', ['04:27', '05:43', '11:43', '15:08', '17:43', '19:13']],
+    ['Singapore', 1.3521, 103.8198, 'Asia/Singapore', 'Singapore', 'Shafi', ['05:54', '07:11', '13:15', '16:20', '19:17', '20:26']],
+    ['Dubai', 25.2048, 55.2708, 'Asia/Dubai', 'Dubai', 'Shafi', ['05:11', '06:25', '12:31', '15:56', '18:31', '19:45']],
+    ['Toronto', 43.6532, -79.3832, 'America/Toronto', 'MoonsightingCommittee', 'Shafi', ['05:58', '07:29', '13:31', '16:47', '19:28', '20:42']],
+    ['Istanbul', 41.0082, 28.9784, 'Europe/Istanbul', 'Turkey', 'Shafi', ['05:44', '07:08', '13:18', '16:39', '19:18', '20:38']],
+    ['Tehran', 35.6892, 51.389, 'Asia/Tehran', 'Tehran', 'Shafi', ['04:52', '06:15', '12:13', '15:38', '18:30', '19:17']],
+  ];
+
+  it.each(cities)('matches golden times for %s (%s)', (_name, latitude, longitude, tz, calcMethod, madhab, golden) => {
+    const day = computePrayerDay({ latitude, longitude }, '2024-03-15', { calcMethod, madhab, highLat: 'MiddleOfTheNight' }, tz);
+    expect(day.date).toBe('2024-03-15');
+    expect(localTimes(day, tz)).toEqual(golden);
+  });
+
+  // Oslo at midsummer, where the sun never gets 18° below the horizon
+  const oslo: [HighLatKey, string, string][] = [
+    ['MiddleOfTheNight', '01:19', '01:19'],
+    ['SeventhOfTheNight', '03:09', '23:28'],
+    ['TwilightAngle', '02:21', '00:12'],
+  ];
+
+  it.each(oslo)('applies the %s high-latitude rule', (highLat, fajr, isha) => {
+    const day = computePrayerDay(
+      { latitude: 59.9139, longitude: 10.7522 },
+      '2024-06-21',
+      { calcMethod: 'MuslimWorldLeague', madhab: 'Shafi', highLat },
+      'Europe/Oslo'
+    );
+    const [f, sunrise, dhuhr, asr, maghrib, i] = localTimes(day, 'Europe/Oslo');
+    expect([f, i]).toEqual([fajr, isha]);
+    // The rule only moves Fajr and Isha
+    expect([sunrise, dhuhr, asr, maghrib]).toEqual(['03:54', '13:20', '18:01', '22:44']);
+  });
+
+  it('picks the calendar day in the given timezone', () => {
+    // 02:00 UTC on the 16th is still the 15th in New York
+    const day = computePrayerDay(
+      { latitude: 40.7128, longitude: -74.006 },
+      new Date('2024-03-16T02:00:00Z'),
+      { calcMethod: 'NorthAmerica', madhab: 'Shafi', highLat: 'MiddleOfTheNight' },
+      'America/New_York'
+    );
+    expect(day.date).toBe('2024-03-15');
+  });
+
+  it('chains each window to the next prayer and ends Isha at the next Fajr', () => {
+    const prefs = { calcMethod: 'MuslimWorldLeague' as const, madhab: 'Shafi' as const, highLat: 'MiddleOfTheNight' as const };
+    const coords = { latitude: 51.5072, longitude: -0.1276 };
+    const day = computePrayerDay(coords, '2024-03-15', prefs, 'Europe/London');
+    const next = computePrayerDay(coords, '2024-03-16', prefs, 'Europe/London');
+    expect(day.windows.fajr).toEqual({ start: day.fajr, end: day.sunrise });
+    expect(day.windows.dhuhr).toEqual({ start: day.dhuhr, end: day.asr });
+    expect(day.windows.asr).toEqual({ start: day.asr, end: day.maghrib });
+    expect(day.windows.maghrib).toEqual({ start: day.maghrib, end: day.isha });
+    expect(day.windows.isha).toEqual({ start: day.isha, end: next.fajr });
+  });
+
+  it('keeps local times steady across a DST change', () => {
+    // US clocks went forward on 2024-03-10
+    const prefs = { calcMethod: 'NorthAmerica' as const, madhab: 'Shafi' as const, highLat: 'MiddleOfTheNight' as const };
+    const coords = { latitude: 40.7128, longitude: -74.006 };
+    const before = computePrayerDay(coords, '2024-03-09', prefs, 'America/New_York');
+    const after = computePrayerDay(coords, '2024-03-10', prefs, 'America/New_York');
+    expect(timeInTimeZone(before.dhuhr, 'America/New_York')).toBe('12:07');
+    expect(timeInTimeZone(after.dhuhr, 'America/New_York')).toBe('13:07');
+    // Isha's window ends at the next Fajr even though the night is an hour shorter
+    expect(before.windows.isha.end).toEqual(after.fajr);
+  });
+});
+
+describe('classifyCheckin', () => {
+  const day = computePrayerDay(
+    { latitude: 51.5072, longitude: -0.1276 },
+    '2024-03-15',
+    { calcMethod: 'MuslimWorldLeague', madhab: 'Shafi', highLat: 'MiddleOfTheNight' },
+    'Europe/London'
+  );
+  const minutes = (d: Date, n: number) => new Date(d.getTime() + n * 60 * 1000);
+
+  it('is on time within the window and its grace', () => {
+    expect(classifyCheckin(day, 'dhuhr', minutes(day.dhuhr, 5))).toBe('on_time');
+    expect(classifyCheckin(day, 'dhuhr', minutes(day.asr, 10), 15)).toBe('on_time');
+  });
+
+  it('is late after the window until the next Fajr', () => {
+    expect(classifyCheckin(day, 'dhuhr', minutes(day.asr, 1))).toBe('late');
+    expect(classifyCheckin(day, 'fajr', minutes(day.isha, 60))).toBe('late');
+  });
+
+  it('is qada once the prayer day is over', () => {
+    expect(classifyCheckin(day, 'dhuhr', minutes(day.windows.isha.end, 1))).toBe('qada');
+  });
+
+  it('keeps Isha on time until the next Fajr', () => {
+    expect(classifyCheckin(day, 'isha', day.windows.isha.end)).toBe('on_time');
+    expect(classifyCheckin(day, 'isha', minutes(day.windows.isha.end, 1))).toBe('qada');
+  });
+});
+
+describe('prayerDayOf', () => {
+  it('counts time before the day start as the previous day', () => {
+    expect(prayerDayOf(new Date('2024-03-16T03:00:00Z'), 'Europe/London', '04:19')).toBe('2024-03-15');
+    expect(prayerDayOf(new Date('2024-03-16T05:00:00Z'), 'Europe/London', '04:19')).toBe('2024-03-16');
+  });
+
+  it('starts at midnight without a day start', () => {
+    expect(prayerDayOf(new Date('2024-03-16T00:30:00Z'), 'Europe/London')).toBe('2024-03-16');
+  });
+
+  it('rolls back across a month boundary', () => {
+    expect(prayerDayOf(new Date('2024-03-01T02:00:00Z'), 'UTC', '05:00')).toBe('2024-02-29');
+  });
+});
@@ -0,0 +1,182 @@
+import { computeStreak, ExcusedMark } from '../streakEngine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `count` consecutive days (YYYY-MM-DD) starting at `from`
+function run(from: string, count: number): string[] {
+  const start = Date.parse(`${from}T00:00:00Z`);
+  return Array.from({ length: count }, (_, i) => new Date(start + i * DAY_MS).toISOString().slice(0, 10));
+}
+
+function addDays(day: string, n: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + n * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Noon UTC on 2024-03-20, so "today" is 2024-03-20 in UTC
+const NOW = new Date('2024-03-20T12:00:00Z');
+const utc = { timeZone: 'UTC', now: NOW };
+
+/**
+ * Port of streak_runs() and calculate_user_streak() in database/migrations/add_prayer_day.sql,
+ * used as the reference the client engine must agree with.
+ */
+function sqlStreak(completions: string[], excused: string[], today: string) {
+  const marked = new Map<string, boolean>();
+  completions.forEach((d) => marked.set(d, true));
+  excused.filter((d) => d <= today).forEach((d) => marked.set(d, marked.get(d) ?? false));
+  const days = [...marked.keys()].sort();
+
+  const runs: { end: string; length: number }[] = [];
+  days.forEach((d, i) => {
+    if (i === 0 || addDays(days[i - 1], 1) !== d) runs.push({ end: d, length: 0 });
+    const current = runs[runs.length - 1];
+    current.end = d;
+    if (marked.get(d)) current.length++;
+  });
+
+  const longest = Math.max(0, ...runs.map((r) => r.length));
+  const last = runs[runs.length - 1];
+  const current = !last || last.end < addDays(today, -1) ? 0 : last.length;
+  return { currentStreak: current, longestStreak: longest };
+}
+
+// Small seeded generator so the agreement cases are the same on every run
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+}
+
+describe('computeStreak', () => {
+  it('has no streak without completions', () => {
+    expect(computeStreak([], utc)).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+      status: 'none',
+      lastDay: null,
+      freezesAvailable: 0,
+    });
+  });
+
+  it('counts a run ending today as active', () => {
+    const result = computeStreak(run('2024-03-16', 5), utc);
+    expect(result.currentStreak).toBe(5);
+    expect(result.status).toBe('active');
+    expect(result.lastDay).toBe('2024-03-20');
+  });
+
+  it('keeps the streak while today is not done yet', () => {
+    const result = computeStreak(run('2024-03-15', 5), utc);
+    expect(result.currentStreak).toBe(5);
+    expect(result.status).toBe('at_risk');
+  });
+
+  it('breaks the streak after a missed day', () => {
+    const result = computeStreak(run('2024-03-14', 5), utc);
+    expect(result.currentStreak).toBe(0);
+    expect(result.longestStreak).toBe(5);
+    expect(result.status).toBe('broken');
+  });
+
+  it('starts a new run after a gap and remembers the longest', () => {
+    const days = [...run('2024-03-01', 8), ...run('2024-03-17', 3)];
+    const result = computeStreak(days, utc);
+    expect(result.currentStreak).toBe(3);
+    expect(result.longestStreak).toBe(8);
+  });
+
+  it('ignores order and duplicates', () => {
+    const days = ['2024-03-20', '2024-03-18', '2024-03-19', '2024-03-19'];
+    expect(computeStreak(days, utc).currentStreak).toBe(3);
+  });
+
+  it('treats completions dated after today as today', () => {
+    const result = computeStreak(['2024-03-19', '2024-03-20', '2024-03-21'], utc);
+    expect(result.status).toBe('active');
+    expect(result.currentStreak).toBe(3);
+  });
+
+  describe('excused days and freezes', () => {
+    it('bridges a gap without adding to the run', () => {
+      const days = ['2024-03-15', '2024-03-16', '2024-03-18', '2024-03-19'];
+      const excused: ExcusedMark[] = [{ day: '2024-03-17', kind: 'excused' }];
+      const result = computeStreak(days, { ...utc, excused });
+      expect(result.currentStreak).toBe(4);
+      expect(result.status).toBe('at_risk');
+    });
+
+    it('keeps the streak active when today is excused', () => {
+      const excused: ExcusedMark[] = [{ day: '2024-03-20', kind: 'excused' }];
+      const result = computeStreak(run('2024-03-17', 3), { ...utc, excused });
+      expect(result.currentStreak).toBe(3);
+      expect(result.status).toBe('active');
+      expect(result.lastDay).toBe('2024-03-20');
+    });
+
+    it('ignores excused days that have not arrived yet', () => {
+      const excused: ExcusedMark[] = [{ day: '2024-03-22', kind: 'excused' }];
+      const result = computeStreak(run('2024-03-17', 3), { ...utc, excused });
+      expect(result.status).toBe('at_risk');
+      expect(result.lastDay).toBe('2024-03-19');
+    });
+
+    it('earns a freeze for every seven completed days and spends used ones', () => {
+      expect(computeStreak(run('2024-03-07', 14), utc).freezesAvailable).toBe(2);
+
+      const days = run('2024-03-07', 14).filter((d) => d !== '2024-03-12');
+      const excused: ExcusedMark[] = [{ day: '2024-03-12', kind: 'freeze' }];
+      const result = computeStreak(days, { ...utc, excused });
+      expect(result.currentStreak).toBe(13);
+      expect(result.freezesAvailable).toBe(0);
+    });
+  });
+
+  describe('prayer days', () => {
+    const newYork = { timeZone: 'America/New_York', dayStartsAt: '05:30' };
+
+    it('counts the hours before Fajr as the previous day', () => {
+      // 04:00 EDT on 2024-03-20 is still the 19th's prayer day
+      const result = computeStreak(run('2024-03-15', 5), { ...newYork, now: new Date('2024-03-20T08:00:00Z') });
+      expect(result.status).toBe('active');
+    });
+
+    it('rolls over at Fajr on the day clocks go forward', () => {
+      const days = run('2024-03-05', 5);
+      // 05:00 EDT on 2024-03-10, before Fajr
+      expect(computeStreak(days, { ...newYork, now: new Date('2024-03-10T09:00:00Z') }).status).toBe('active');
+      // 06:00 EDT, after Fajr
+      const after = computeStreak(days, { ...newYork, now: new Date('2024-03-10T10:00:00Z') });
+      expect(after.status).toBe('at_risk');
+      expect(after.currentStreak).toBe(5);
+    });
+
+    it('rolls over at Fajr on the day clocks go back', () => {
+      const days = run('2024-10-29', 5);
+      // 05:00 EST on 2024-11-03, before Fajr
+      expect(computeStreak(days, { ...newYork, now: new Date('2024-11-03T10:00:00Z') }).status).toBe('active');
+      // 06:00 EST, after Fajr
+      expect(computeStreak(days, { ...newYork, now: new Date('2024-11-03T11:00:00Z') }).status).toBe('at_risk');
+    });
+
+    it('keeps a run going across clock changes', () => {
+      const now = new Date('2024-11-05T17:00:00Z');
+      expect(computeStreak(run('2024-10-30', 7), { ...newYork, now }).currentStreak).toBe(7);
+      expect(computeStreak(run('2024-03-08', 5), { ...newYork, now: new Date('2024-03-12T17:00:00Z') }).currentStreak).toBe(5);
+    });
+  });
+
+  it('agrees with calculate_user_streak', () => {
+    const next = random(42);
+    const window = run('2024-02-25', 28);
+    for (let i = 0; i < 300; i++) {
+      const completions = window.filter(() => next() < 0.7);
+      const excused = window.filter((d) => !completions.includes(d) && next() < 0.2);
+      const marks: ExcusedMark[] = excused.map((day) => ({ day, kind: next() < 0.5 ? 'excused' : 'freeze' }));
+
+      const result = computeStreak(completions, { ...utc, excused: marks });
+      const expected = sqlStreak(completions, excused, '2024-03-20');
+      expect({ currentStreak: result.currentStreak, longestStreak: result.longestStreak }).toEqual(expected);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import type { Ionicons } from '@expo/vector-icons';
+import { supabase } from '../lib/supabase';
+
+export type BadgeId = 'first_full_day' | 'streak_7' | 'streak_30' | 'streak_100' | 'fajr_40' | 'first_buddy';
+
+export interface BadgeDefinition {
+  id: BadgeId;
+  title: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}
+
+export interface EarnedBadge {
+  badge: BadgeId;
+  earnedAt: string;
+}
+
+// Display order; the conditions are checked by award_badges() in the database
+export const BADGES: BadgeDefinition[] = [
+  { id: 'first_full_day', title: 'First Full Day', description: 'Prayed all five prayers in a day', icon: 'sunny', color: '#F59E0B' },
+  { id: 'streak_7', title: 'One Week', description: 'Kept a 7-day streak', icon: 'flame', color: '#F97316' },
+  { id: 'streak_30', title: 'One Month', description: 'Kept a 30-day streak', icon: 'flame', color: '#EF4444' },
+  { id: 'streak_100', title: 'Hundred Days', description: 'Kept a 100-day streak', icon: 'trophy', color: '#7C3AED' },
+  { id: 'fajr_40', title: 'Dawn Keeper', description: 'Prayed Fajr on 40 days', icon: 'moon', color: '#4F46E5' },
+  { id: 'first_buddy', title: 'Better Together', description: 'Gained your first prayer buddy', icon: 'people', color: '#10B981' },
+];
+
+const byId = Object.fromEntries(BADGES.map((b) => [b.id, b])) as Record<BadgeId, BadgeDefinition>;
+
+class BadgeService {
+  getDefinition(badge: BadgeId): BadgeDefinition {
+    return byId[badge];
+  }
+
+  /**
+   * Badges a user has earned, oldest first. Works for buddies too.
+   */
+  async getEarned(userId: string): Promise<EarnedBadge[]> {
+    const { data, error } = await supabase
+      .from('user_badges')
+      .select('badge, earned_at')
+      .eq('user_id', userId)
+      .order('earned_at', { ascending: true });
+    if (error) {
+      console.error('Error fetching badges:', error);
+      return [];
+    }
+    return (data || [])
+      .filter((row) => row.badge in byId)
+      .map((row) => ({ badge: row.badge as BadgeId, earnedAt: row.earned_at }));
+  }
+
+  /**
+   * Earned badges for several users in one query, keyed by user id
+   */
+  async getEarnedForUsers(userIds: string[]): Promise<Record<string, BadgeId[]>> {
+    const result: Record<string, BadgeId[]> = {};
+    if (!userIds.length) return result;
+    const { data, error } = await supabase
+      .from('user_badges')
+      .select('user_id, badge')
+      .in('user_id', userIds)
+      .order('earned_at', { ascending: true });
+    if (error) {
+      console.error('Error fetching buddy badges:', error);
+      return result;
+    }
+    (data || []).forEach((row) => {
+      if (!(row.badge in byId)) return;
+      if (!result[row.user_id]) result[row.user_id] = [];
+      result[row.user_id].push(row.badge as BadgeId);
+    });
+    return result;
+  }
+
+  /**
+   * Badges the user earned but the app hasn't announced yet
+   */
+  async getUnseen(userId: string): Promise<EarnedBadge[]> {
+    const { data, error } = await supabase
+      .from('user_badges')
+      .select('badge, earned_at')
+      .eq('user_id', userId)
+      .is('seen_at', null)
+      .order('earned_at', { ascending: true });
+    if (error) {
+      console.error('Error fetching new badges:', error);
+      return [];
+    }
+    return (data || [])
+      .filter((row) => row.badge in byId)
+      .map((row) => ({ badge: row.badge as BadgeId, earnedAt: row.earned_at }));
+  }
+
+  async markSeen(badges: BadgeId[]): Promise<void> {
+    if (!badges.length) return;
+    const { error } = await supabase.rpc('mark_badges_seen', { badges_param: badges });
+    if (error) console.error('Error marking badges seen:', error);
+  }
+}
+
+export const badgeService = new BadgeService();
@@ -0,0 +1,62 @@
+import { supabase } from '../lib/supabase';
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'other';
+
+export const REPORT_REASONS: { key: ReportReason; label: string }[] = [
+  { key: 'spam', label: 'Spam' },
+  { key: 'harassment', label: 'Harassment' },
+  { key: 'inappropriate', label: 'Inappropriate' },
+  { key: 'other', label: 'Other' },
+];
+
+export interface BlockedUser {
+  userId: string;
+  name: string;
+  blockedAt: string;
+}
+
+class BlockService {
+  /**
+   * Users the signed-in user has blocked, most recent first
+   */
+  async getBlocked(): Promise<BlockedUser[]> {
+    const { data, error } = await supabase.rpc('blocked_users');
+    if (error) {
+      console.error('Error fetching blocked users:', error);
+      return [];
+    }
+    return (data || []).map((row: { user_id: string; display_name: string | null; blocked_at: string }) => ({
+      userId: row.user_id,
+      name: row.display_name || 'User',
+      blockedAt: row.blocked_at,
+    }));
+  }
+
+  /**
+   * Blocks a user, ending any buddy link or request with them. With a reason, also files
+   * a report for review.
+   */
+  async block(userId: string, report?: { reason: ReportReason; details?: string }): Promise<{ error: string | null }> {
+    const { error } = await supabase.rpc('block_user', {
+      target_id: userId,
+      reason_param: report?.reason ?? null,
+      details_param: report?.details ?? null,
+    });
+    if (error) {
+      console.error('Error blocking user:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  async unblock(userId: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.rpc('unblock_user', { target_id: userId });
+    if (error) {
+      console.error('Error unblocking user:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+}
+
+export const blockService = new BlockService();
@@ -0,0 +1,211 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import dayjs from 'dayjs';
+import { supabase } from '../lib/supabase';
+import { PRAYER_KEYS, PrayerKey, CheckinStatus, classifyCheckin, computePrayerDay } from './prayerTimes';
+import { prayerSettingsService } from './prayerSettings';
+import { loadLastCoords } from './lastLocation';
+import { streakService } from './streakService';
+import { syncQueue } from './syncQueue';
+import { prayerDayClock } from './prayerDay';
+
+// How many past days can still be checked in or edited.
+// The database enforces the same limit in migrations/add_checkin_backfill.sql.
+export const MAX_BACKFILL_DAYS = 3;
+
+export interface DayCheckin {
+  completed: boolean;
+  status: CheckinStatus | null;
+  backfilled: boolean;
+}
+
+export type DayCheckins = Partial<Record<PrayerKey, DayCheckin>>;
+
+export interface CheckinChange extends DayCheckin {
+  userId: string;
+  day: string;
+  prayer: PrayerKey;
+}
+
+export interface SaveCheckinOptions {
+  /** Logging a past day after the fact: no on-time classification, flagged as backfilled */
+  backfill?: boolean;
+  /** A missed prayer made up later: recorded as qada, whichever day it is logged for */
+  qada?: boolean;
+}
+
+export interface SaveCheckinResult {
+  error: string | null;
+  status: CheckinStatus | null;
+  /** True when this save completed all five prayers for the day */
+  allDone: boolean;
+}
+
+type Listener = (change: CheckinChange) => void;
+
+// Last known check-ins per user and day, so the checklist still loads offline
+const DAY_CACHE_KEY = 'checkin_day_cache';
+
+class CheckinService {
+  private listeners = new Set<Listener>();
+  private dayCache: Record<string, DayCheckins> = {};
+  private cacheLoading: Promise<void> | null = null;
+
+  /**
+   * Subscribe to check-ins saved from anywhere in the app, including notification actions.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Prayer days (YYYY-MM-DD) that can be checked in, newest first, starting with today
+   */
+  editableDays(today: string = prayerDayClock.today()): string[] {
+    return Array.from({ length: MAX_BACKFILL_DAYS + 1 }, (_, i) =>
+      dayjs(today).subtract(i, 'day').format('YYYY-MM-DD')
+    );
+  }
+
+  /**
+   * Check-ins for a day: the server's copy with changes still waiting to sync on top.
+   * Falls back to the last cached copy when the server can't be reached.
+   */
+  async loadDay(userId: string, day: string): Promise<{ checkins: DayCheckins; offline: boolean }> {
+    await this.loadCache();
+    const key = `${userId}|${day}`;
+    let checkins: DayCheckins = { ...this.dayCache[key] };
+    let offline = false;
+
+    const { data, error } = await supabase
+      .from('prayer_checkins')
+      .select('prayer, completed, status, backfilled')
+      .eq('user_id', userId)
+      .eq('day', day);
+
+    if (error) {
+      console.error('Error loading check-ins, using cached copy:', error);
+      offline = true;
+    } else {
+      checkins = {};
+      (data || []).forEach((row) => {
+        checkins[row.prayer as PrayerKey] = {
+          completed: !!row.completed,
+          status: row.completed ? row.status : null,
+          backfilled: !!row.completed && !!row.backfilled,
+        };
+      });
+    }
+
+    // Queued changes are newer than anything the server has
+    const pending = await syncQueue.pendingCheckins(userId, day);
+    pending.forEach((op) => {
+      checkins[op.prayer] = { completed: op.completed, status: op.status, backfilled: op.backfilled };
+    });
+
+    this.rememberDay(key, checkins);
+    return { checkins, offline };
+  }
+
+  /**
+   * Save a prayer check-in for a day (YYYY-MM-DD), classified as on time, late or qada.
+   * The change applies locally straight away and is queued for the server, so it works offline.
+   * When all five prayers are done in their day (qada doesn't count) the day is recorded
+   * in prayer_completions, which the streak trigger picks up; unticking a prayer removes it.
+   */
+  async saveCheckin(
+    userId: string,
+    day: string,
+    prayer: PrayerKey,
+    completed: boolean,
+    options: SaveCheckinOptions = {}
+  ): Promise<SaveCheckinResult> {
+    const backfilled = !!options.backfill && !options.qada && completed;
+    // Notification actions can run before any screen has loaded the clock
+    await prayerDayClock.load();
+    // Applies to every save, including marking a prayer from an old notification
+    if (!this.editableDays().includes(day)) {
+      return { error: `Check-ins can only be changed for the last ${MAX_BACKFILL_DAYS} days`, status: null, allDone: false };
+    }
+
+    const completedAt = new Date();
+    // A backfill records that the prayer was done, not when, so it isn't classified
+    let status: CheckinStatus | null = null;
+    if (completed && options.qada) status = 'qada';
+    else if (completed && !options.backfill) status = await this.classify(day, prayer, completedAt);
+
+    await this.loadCache();
+    const key = `${userId}|${day}`;
+    // Saves from a notification action may come before the day was ever loaded
+    const current = this.dayCache[key] ?? (await this.loadDay(userId, day)).checkins;
+    const checkins: DayCheckins = { ...current, [prayer]: { completed, status, backfilled } };
+    this.rememberDay(key, checkins);
+
+    await syncQueue.enqueue({
+      kind: 'checkin',
+      userId,
+      day,
+      prayer,
+      completed,
+      completedAt: completed ? completedAt.toISOString() : null,
+      status,
+      backfilled,
+    });
+    await syncQueue.enqueue({ kind: 'completion', userId, day });
+
+    this.listeners.forEach((listener) => listener({ userId, day, prayer, completed, status, backfilled }));
+
+    // Qada doesn't count towards the streak
+    const dayComplete = PRAYER_KEYS.every((p) => checkins[p]?.completed && checkins[p]?.status !== 'qada');
+    // Lets the streak show the change before it syncs
+    await streakService.noteLocalCompletion(userId, day, dayComplete);
+
+    // Update last active timestamp when user completes a prayer; best effort, not queued
+    streakService.updateLastActive(userId);
+
+    const allDone = completed && dayComplete;
+    return { error: null, status, allDone };
+  }
+
+  /**
+   * Classifies a check-in against the prayer's window at the last known location.
+   * Returns null when no location is known yet; such rows count as prayed in their day.
+   */
+  async classify(day: string, prayer: PrayerKey, at: Date): Promise<CheckinStatus | null> {
+    const coords = await loadLastCoords();
+    if (!coords) return null;
+    const settings = await prayerSettingsService.loadCached();
+    return classifyCheckin(computePrayerDay(coords, day, settings), prayer, at, settings.graceMinutes);
+  }
+
+  private loadCache(): Promise<void> {
+    if (!this.cacheLoading) {
+      this.cacheLoading = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(DAY_CACHE_KEY);
+          if (raw) this.dayCache = { ...JSON.parse(raw), ...this.dayCache };
+        } catch (error) {
+          console.error('Error reading check-in cache:', error);
+        }
+      })();
+    }
+    return this.cacheLoading;
+  }
+
+  private rememberDay(key: string, checkins: DayCheckins) {
+    this.dayCache[key] = checkins;
+    // Only days that can still be edited are worth keeping
+    const keep = new Set(this.editableDays());
+    Object.keys(this.dayCache).forEach((k) => {
+      if (!keep.has(k.split('|')[1])) delete this.dayCache[k];
+    });
+    AsyncStorage.setItem(DAY_CACHE_KEY, JSON.stringify(this.dayCache)).catch((error) =>
+      console.error('Error caching check-ins:', error)
+    );
+  }
+}
+
+export const checkinService = new CheckinService();
@@ -0,0 +1,142 @@
+import { supabase } from '../lib/supabase';
+import { PrayerKey } from './prayerTimes';
+import type { SharedVisibility } from './privacyService';
+
+export type CircleRole = 'owner' | 'admin' | 'member';
+export type CircleMemberStatus = 'invited' | 'active';
+
+export interface Circle {
+  id: string;
+  name: string;
+  /** The signed-in user's role and whether they have joined or are only invited */
+  role: CircleRole;
+  status: CircleMemberStatus;
+}
+
+export interface CircleMember {
+  userId: string;
+  name: string;
+  role: CircleRole;
+  status: CircleMemberStatus;
+  /** The member's own prayer day, which may differ from the viewer's across timezones */
+  day: string | null;
+  /** What the member shares with the viewer; null for invited users */
+  visibility: SharedVisibility | null;
+  /** How many prayers were completed that day, for members sharing a summary or more */
+  prayersDone: number | null;
+  /** Which prayers were completed that day, for members sharing full detail */
+  completed: PrayerKey[] | null;
+}
+
+/**
+ * Whether a user with `role` may remove a member with `target` role, as in remove_circle_member()
+ */
+export function canRemoveMember(role: CircleRole, target: CircleRole): boolean {
+  return (role === 'owner' && target !== 'owner') || (role === 'admin' && target === 'member');
+}
+
+class CircleService {
+  /**
+   * Circles the user belongs to or is invited to
+   */
+  async getCircles(userId: string): Promise<Circle[]> {
+    const { data, error } = await supabase
+      .from('circle_members')
+      .select('role, status, circles(id, name)')
+      .eq('user_id', userId);
+    if (error) {
+      console.error('Error fetching circles:', error);
+      return [];
+    }
+    return (data || []).flatMap((row) => {
+      // Embedded as an object at runtime; the untyped client infers an array
+      const circle = Array.isArray(row.circles) ? row.circles[0] : row.circles;
+      return circle
+        ? [{ id: circle.id as string, name: circle.name as string, role: row.role as CircleRole, status: row.status as CircleMemberStatus }]
+        : [];
+    });
+  }
+
+  async createCircle(name: string): Promise<{ id: string | null; error: string | null }> {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed.length > 50) {
+      return { id: null, error: 'Circle names are 1-50 characters.' };
+    }
+    const { data, error } = await supabase.rpc('create_circle', { name_param: trimmed });
+    if (error) {
+      console.error('Error creating circle:', error);
+      return { id: null, error: error.message };
+    }
+    return { id: data as string, error: null };
+  }
+
+  /**
+   * Members and pending invites with each member's prayers today, as much as they share
+   */
+  async getDashboard(circleId: string): Promise<CircleMember[]> {
+    const { data, error } = await supabase.rpc('circle_dashboard', { circle_id_param: circleId });
+    if (error) {
+      console.error('Error loading circle dashboard:', error);
+      return [];
+    }
+    return (data || []).map((row: {
+      member_id: string;
+      member_name: string | null;
+      member_role: CircleRole;
+      member_status: CircleMemberStatus;
+      member_day: string | null;
+      member_visibility: SharedVisibility | null;
+      prayers_done: number | null;
+      completed_prayers: string[] | null;
+    }) => ({
+      userId: row.member_id,
+      name: row.member_name ?? 'Member',
+      role: row.member_role,
+      status: row.member_status,
+      day: row.member_day,
+      visibility: row.member_visibility,
+      prayersDone: row.prayers_done,
+      completed: row.completed_prayers as PrayerKey[] | null,
+    }));
+  }
+
+  /**
+   * Invite an accepted buddy or a user found by username search
+   */
+  async invite(circleId: string, userId: string): Promise<{ error: string | null }> {
+    return this.call('invite_to_circle', { circle_id_param: circleId, user_id_param: userId }, 'inviting to circle');
+  }
+
+  async respondToInvite(circleId: string, accept: boolean): Promise<{ error: string | null }> {
+    return this.call('respond_to_circle_invite', { circle_id_param: circleId, accept_param: accept }, 'responding to circle invite');
+  }
+
+  /**
+   * Leave a circle; an owner who leaves hands it to an admin or the longest-standing member
+   */
+  async leave(circleId: string): Promise<{ error: string | null }> {
+    return this.call('leave_circle', { circle_id_param: circleId }, 'leaving circle');
+  }
+
+  /**
+   * Remove a member or cancel an invite
+   */
+  async removeMember(circleId: string, userId: string): Promise<{ error: string | null }> {
+    return this.call('remove_circle_member', { circle_id_param: circleId, user_id_param: userId }, 'removing circle member');
+  }
+
+  async setRole(circleId: string, userId: string, role: Exclude<CircleRole, 'owner'>): Promise<{ error: string | null }> {
+    return this.call('set_circle_role', { circle_id_param: circleId, user_id_param: userId, role_param: role }, 'changing circle role');
+  }
+
+  private async call(fn: string, args: Record<string, unknown>, action: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.rpc(fn, args);
+    if (error) {
+      console.error(`Error ${action}:`, error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+}
+
+export const circleService = new CircleService();
@@ -0,0 +1,216 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { PRAYER_KEYS, PrayerKey } from './prayerTimes';
+
+export type GoalPeriod = 'week' | 'month';
+export type GoalMetric = 'prayers' | 'on_time' | 'full_days';
+
+export interface Goal {
+  id: string;
+  period: GoalPeriod;
+  metric: GoalMetric;
+  /** Only this prayer counts; any prayer when null. Always null for full days. */
+  prayer: PrayerKey | null;
+  target: number;
+}
+
+export type NewGoal = Omit<Goal, 'id'>;
+
+/**
+ * - completed: the target is reached for this period
+ * - on_track: keeping pace with the target
+ * - at_risk: behind pace but still reachable
+ * - missed: can no longer be reached this period
+ */
+export type GoalStatus = 'completed' | 'on_track' | 'at_risk' | 'missed';
+
+export interface GoalProgress {
+  goal: Goal;
+  periodStart: string;
+  periodEnd: string;
+  progress: number;
+  /** Days left in the period, today included */
+  daysLeft: number;
+  status: GoalStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const progressCacheKey = (userId: string) => `goal_progress_${userId}`;
+// Which notices have been sent for a goal in a period, so each is sent once
+const noticeKey = (goalId: string, periodStart: string) => `goal_notice_${goalId}_${periodStart}`;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// Most that can be counted towards a goal in one day
+function perDay(goal: Pick<Goal, 'metric' | 'prayer'>): number {
+  return goal.metric === 'full_days' || goal.prayer ? 1 : PRAYER_KEYS.length;
+}
+
+/**
+ * The largest target a goal can have: every countable day in the longest period
+ */
+export function maxGoalTarget(goal: Pick<Goal, 'period' | 'metric' | 'prayer'>): number {
+  return perDay(goal) * (goal.period === 'week' ? 7 : 31);
+}
+
+/**
+ * e.g. "30 on-time Fajr prayers this month" or "5 full days this week"
+ */
+export function describeGoal(goal: NewGoal): string {
+  const when = goal.period === 'week' ? 'this week' : 'this month';
+  if (goal.metric === 'full_days') {
+    return `${goal.target} full ${goal.target === 1 ? 'day' : 'days'} ${when}`;
+  }
+  const prayer = goal.prayer ? `${goal.prayer.charAt(0).toUpperCase()}${goal.prayer.slice(1)} ` : '';
+  const onTime = goal.metric === 'on_time' ? 'on-time ' : '';
+  return `${goal.target} ${onTime}${prayer}${goal.target === 1 ? 'prayer' : 'prayers'} ${when}`;
+}
+
+/**
+ * Pace is judged on the days already over, so a goal isn't at risk just because
+ * today's prayers haven't been prayed yet
+ */
+function statusOf(goal: Goal, progress: number, periodStart: string, periodEnd: string, today: string): GoalStatus {
+  if (progress >= goal.target) return 'completed';
+  const periodDays = daysBetween(periodStart, periodEnd) + 1;
+  const daysLeft = daysBetween(today, periodEnd) + 1;
+  if (goal.target - progress > perDay(goal) * daysLeft) return 'missed';
+  const expected = (goal.target * (periodDays - daysLeft)) / periodDays;
+  return progress < expected ? 'at_risk' : 'on_track';
+}
+
+function toGoal(row: { id: string; period: string; metric: string; prayer: string | null; target: number }): Goal {
+  return {
+    id: row.id,
+    period: row.period as GoalPeriod,
+    metric: row.metric as GoalMetric,
+    prayer: (row.prayer as PrayerKey | null) ?? null,
+    target: row.target,
+  };
+}
+
+class GoalService {
+  /**
+   * Create a goal for the signed-in user
+   */
+  async createGoal(userId: string, goal: NewGoal): Promise<{ error: string | null }> {
+    if (!Number.isInteger(goal.target) || goal.target < 1 || goal.target > maxGoalTarget(goal)) {
+      return { error: `Choose a target between 1 and ${maxGoalTarget(goal)}.` };
+    }
+    const { error } = await supabase.from('goals').insert({
+      user_id: userId,
+      period: goal.period,
+      metric: goal.metric,
+      prayer: goal.metric === 'full_days' ? null : goal.prayer,
+      target: goal.target,
+    });
+    if (error) {
+      console.error('Error creating goal:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  async deleteGoal(goalId: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('goals').delete().eq('id', goalId);
+    if (error) {
+      console.error('Error deleting goal:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  /**
+   * Progress on the user's active goals in the current week or month, counted on the
+   * server by goal_progress(). Sends a notification the first time a goal is completed
+   * or falls behind in a period. Uses the last known progress when offline.
+   */
+  async refresh(userId: string): Promise<{ goals: GoalProgress[]; offline: boolean }> {
+    const [goalsResult, progressResult] = await Promise.all([
+      supabase.from('goals').select('id, period, metric, prayer, target').eq('user_id', userId).eq('active', true),
+      supabase.rpc('goal_progress'),
+    ]);
+
+    const error = goalsResult.error || progressResult.error;
+    if (error) {
+      console.error('Error loading goal progress:', error);
+      return { goals: await this.readCache(userId), offline: true };
+    }
+
+    const byId = new Map((goalsResult.data || []).map((row) => [row.id as string, toGoal(row)]));
+    const goals: GoalProgress[] = [];
+    (progressResult.data || []).forEach((row: {
+      goal_id: string;
+      period_start: string;
+      period_end: string;
+      current_day: string;
+      progress: number;
+    }) => {
+      const goal = byId.get(row.goal_id);
+      if (!goal) return;
+      goals.push({
+        goal,
+        periodStart: row.period_start,
+        periodEnd: row.period_end,
+        progress: row.progress,
+        daysLeft: daysBetween(row.current_day, row.period_end) + 1,
+        status: statusOf(goal, row.progress, row.period_start, row.period_end, row.current_day),
+      });
+    });
+
+    await this.writeCache(userId, goals);
+    await this.notifyChanges(goals);
+    return { goals, offline: false };
+  }
+
+  private async notifyChanges(goals: GoalProgress[]) {
+    for (const item of goals) {
+      if (item.status !== 'completed' && item.status !== 'at_risk') continue;
+      const key = noticeKey(item.goal.id, item.periodStart);
+      try {
+        const sent: GoalStatus[] = JSON.parse((await AsyncStorage.getItem(key)) || '[]');
+        // Once completed, a goal no longer needs an at-risk warning this period
+        if (sent.includes(item.status) || sent.includes('completed')) continue;
+
+        const description = describeGoal(item.goal);
+        await Notifications.scheduleNotificationAsync({
+          content: item.status === 'completed'
+            ? { title: 'Goal reached!', body: `Mashallah, you reached your goal: ${description}.`, data: { type: 'goal' } }
+            : {
+                title: 'Goal at risk',
+                body: `${item.progress} of ${item.goal.target} so far with ${item.daysLeft} ${item.daysLeft === 1 ? 'day' : 'days'} left: ${description}.`,
+                data: { type: 'goal' },
+              },
+          trigger: Platform.OS === 'android' ? { channelId: 'reminders' } : null,
+        });
+        await AsyncStorage.setItem(key, JSON.stringify([...sent, item.status]));
+      } catch (error) {
+        console.error('Error sending goal notification:', error);
+      }
+    }
+  }
+
+  private async readCache(userId: string): Promise<GoalProgress[]> {
+    try {
+      const raw = await AsyncStorage.getItem(progressCacheKey(userId));
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Error reading cached goal progress:', error);
+      return [];
+    }
+  }
+
+  private async writeCache(userId: string, goals: GoalProgress[]) {
+    try {
+      await AsyncStorage.setItem(progressCacheKey(userId), JSON.stringify(goals));
+    } catch (error) {
+      console.error('Error caching goal progress:', error);
+    }
+  }
+}
+
+export const goalService = new GoalService();
@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import dayjs from 'dayjs';
+import { supabase } from '../lib/supabase';
+import { PrayerKey, CheckinStatus } from './prayerTimes';
+import { checkinService } from './checkinService';
+import { syncQueue } from './syncQueue';
+
+export interface HistoryPrayer {
+  status: CheckinStatus | null;
+  backfilled: boolean;
+}
+
+export interface HistoryDay {
+  /** Completed prayers; missing keys were not checked in */
+  prayers: Partial<Record<PrayerKey, HistoryPrayer>>;
+  completed: number;
+  excused: boolean;
+}
+
+export interface MonthHistory {
+  /** First day of the month (YYYY-MM-01) */
+  month: string;
+  days: Record<string, HistoryDay>;
+  /** True when the server couldn't be reached and cached data was used */
+  offline: boolean;
+  /** Fetched once no day in the month could be edited any more, so the copy is final */
+  settled: boolean;
+}
+
+const cacheKey = (userId: string, month: string) => `history_${userId}_${month}`;
+
+function emptyDay(): HistoryDay {
+  return { prayers: {}, completed: 0, excused: false };
+}
+
+class HistoryService {
+  private memory = new Map<string, MonthHistory>();
+
+  /**
+   * Check-ins for every day of a month (any day in it, YYYY-MM-DD) with range queries.
+   * Months that can no longer change are served from the local cache; recent ones are
+   * refetched, falling back to the cache offline.
+   */
+  async getMonth(userId: string, anyDay: string): Promise<MonthHistory> {
+    const start = dayjs(anyDay).startOf('month');
+    const month = start.format('YYYY-MM-DD');
+    const end = start.endOf('month').format('YYYY-MM-DD');
+    const key = cacheKey(userId, month);
+
+    // Check-ins can't change before the oldest editable day
+    const editable = checkinService.editableDays();
+    const settled = end < editable[editable.length - 1];
+    if (settled) {
+      const cached = this.memory.get(key) ?? (await this.readCache(key));
+      if (cached?.settled) {
+        this.memory.set(key, cached);
+        return cached;
+      }
+    }
+
+    const [checkins, excused] = await Promise.all([
+      supabase
+        .from('prayer_checkins')
+        .select('day, prayer, status, backfilled')
+        .eq('user_id', userId)
+        .eq('completed', true)
+        .gte('day', month)
+        .lte('day', end),
+      supabase.from('excused_days').select('day').eq('user_id', userId).gte('day', month).lte('day', end),
+    ]);
+
+    const error = checkins.error || excused.error;
+    if (error) {
+      console.error('Error loading prayer history:', error);
+      const cached = this.memory.get(key) ?? (await this.readCache(key));
+      const fallback: MonthHistory = { month, days: cached?.days ?? {}, offline: true, settled: false };
+      return this.withPending(userId, fallback, end);
+    }
+
+    const days: Record<string, HistoryDay> = {};
+    (checkins.data || []).forEach((row) => {
+      if (!days[row.day]) days[row.day] = emptyDay();
+      const day = days[row.day];
+      day.prayers[row.prayer as PrayerKey] = { status: row.status, backfilled: !!row.backfilled };
+      day.completed++;
+    });
+    (excused.data || []).forEach((row) => {
+      days[row.day] = { ...(days[row.day] ?? emptyDay()), excused: true };
+    });
+
+    const history: MonthHistory = { month, days, offline: false, settled };
+    this.memory.set(key, history);
+    await this.writeCache(key, history);
+    return this.withPending(userId, history, end);
+  }
+
+  // Check-ins saved offline show up before they reach the server
+  private async withPending(userId: string, history: MonthHistory, end: string): Promise<MonthHistory> {
+    const days = { ...history.days };
+    for (const d of checkinService.editableDays()) {
+      if (d < history.month || d > end) continue;
+      const pending = await syncQueue.pendingCheckins(userId, d);
+      if (!pending.length) continue;
+      const day: HistoryDay = { ...(days[d] ?? emptyDay()), prayers: { ...days[d]?.prayers } };
+      pending.forEach((op) => {
+        if (op.completed) day.prayers[op.prayer] = { status: op.status, backfilled: op.backfilled };
+        else delete day.prayers[op.prayer];
+      });
+      day.completed = Object.keys(day.prayers).length;
+      days[d] = day;
+    }
+    return { ...history, days };
+  }
+
+  private async readCache(key: string): Promise<MonthHistory | null> {
+    try {
+      const raw = await AsyncStorage.getItem(key);
+      return raw ? { ...(JSON.parse(raw) as MonthHistory), offline: false } : null;
+    } catch (error) {
+      console.error('Error reading cached prayer history:', error);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, history: MonthHistory) {
+    try {
+      await AsyncStorage.setItem(key, JSON.stringify(history));
+    } catch (error) {
+      console.error('Error caching prayer history:', error);
+    }
+  }
+}
+
+export const historyService = new HistoryService();
@@ -0,0 +1,145 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Linking from 'expo-linking';
+import { supabase } from '../lib/supabase';
+
+export interface RedeemResult {
+  buddyId: string;
+  buddyName: string;
+  /** 'pending' until the code's owner accepts; 'accepted' if they had already invited you */
+  status: 'pending' | 'accepted';
+}
+
+export interface UsernameMatch {
+  userId: string;
+  username: string;
+}
+
+// A code from a link opened while signed out, redeemed after sign-in
+const PENDING_CODE_KEY = 'pending_invite_code';
+const CODE_PATTERN = /^[A-Z0-9]{4,12}$/;
+// Shortest query search_usernames() answers
+export const MIN_USERNAME_QUERY = 3;
+
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Alert title and message for a redeemed code
+ */
+export function describeRedeemResult(result: RedeemResult): { title: string; message: string } {
+  return result.status === 'accepted'
+    ? { title: 'Buddies!', message: `You and ${result.buddyName} are now prayer buddies.` }
+    : { title: 'Request sent', message: `${result.buddyName} will see your buddy request.` };
+}
+
+function toRedeemResult(row: { buddy_id: string; buddy_name: string | null; link_status: RedeemResult['status'] }): RedeemResult {
+  return { buddyId: row.buddy_id, buddyName: row.buddy_name ?? 'your buddy', status: row.link_status };
+}
+
+class InviteService {
+  /**
+   * The signed-in user's own invite code
+   */
+  async getInviteCode(userId: string): Promise<string | null> {
+    const { data, error } = await supabase.from('profiles').select('invite_code').eq('id', userId).single();
+    if (error) {
+      console.error('Error fetching invite code:', error);
+      return null;
+    }
+    return data?.invite_code ?? null;
+  }
+
+  /**
+   * Swap the user's code for a new one; links already shared stop working
+   */
+  async regenerateInviteCode(): Promise<{ code: string | null; error: string | null }> {
+    const { data, error } = await supabase.rpc('regenerate_invite_code');
+    if (error) {
+      console.error('Error regenerating invite code:', error);
+      return { code: null, error: error.message };
+    }
+    return { code: data as string, error: null };
+  }
+
+  /**
+   * Deep link that opens the app on the invite screen, e.g.
+   * prayeraccountabilityapp://invite/ABC123
+   */
+  inviteLink(code: string): string {
+    return Linking.createURL(`invite/${code}`);
+  }
+
+  /**
+   * Send the code's owner a buddy request, or accept theirs if they already sent one
+   */
+  async redeem(code: string): Promise<{ result: RedeemResult | null; error: string | null }> {
+    const normalized = normalizeInviteCode(code);
+    if (!CODE_PATTERN.test(normalized)) {
+      return { result: null, error: "That doesn't look like an invite code." };
+    }
+    const { data, error } = await supabase.rpc('redeem_invite_code', { code_param: normalized });
+    if (error) {
+      console.error('Error redeeming invite code:', error);
+      return { result: null, error: error.message };
+    }
+    const row = data?.[0];
+    if (!row) return { result: null, error: 'Invite code not found' };
+    return { result: toRedeemResult(row), error: null };
+  }
+
+  /**
+   * Discoverable users whose username matches or starts with the query
+   */
+  async searchUsernames(query: string): Promise<UsernameMatch[]> {
+    const q = query.trim();
+    if (q.length < MIN_USERNAME_QUERY) return [];
+    const { data, error } = await supabase.rpc('search_usernames', { query: q });
+    if (error) {
+      console.error('Error searching usernames:', error);
+      return [];
+    }
+    return (data || []).map((row: { user_id: string; username: string }) => ({
+      userId: row.user_id,
+      username: row.username,
+    }));
+  }
+
+  /**
+   * Send a buddy request to a user found by username search
+   */
+  async requestBuddy(userId: string): Promise<{ result: RedeemResult | null; error: string | null }> {
+    const { data, error } = await supabase.rpc('request_buddy', { target_id: userId });
+    if (error) {
+      console.error('Error sending buddy request:', error);
+      return { result: null, error: error.message };
+    }
+    const row = data?.[0];
+    if (!row) return { result: null, error: 'User not found' };
+    return { result: toRedeemResult(row), error: null };
+  }
+
+  async savePendingCode(code: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PENDING_CODE_KEY, normalizeInviteCode(code));
+    } catch (error) {
+      console.error('Error saving invite code:', error);
+    }
+  }
+
+  /**
+   * Take the code saved while signed out, if any, so it's only redeemed once
+   */
+  async takePendingCode(): Promise<string | null> {
+    try {
+      const code = await AsyncStorage.getItem(PENDING_CODE_KEY);
+      if (code) await AsyncStorage.removeItem(PENDING_CODE_KEY);
+      return code;
+    } catch (error) {
+      console.error('Error reading saved invite code:', error);
+      return null;
+    }
+  }
+}
+
+export const inviteService = new InviteService();
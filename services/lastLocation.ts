@@ -0,0 +1,22 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Coords } from './prayerTimes';
+
+const LAST_COORDS_KEY = 'last_prayer_coords';
+
+/**
+ * Remember the last location prayer times were computed for, so work done
+ * without a screen (background refresh, notification actions) can reuse it
+ */
+export async function saveLastCoords(coords: Coords): Promise<void> {
+  await AsyncStorage.setItem(LAST_COORDS_KEY, JSON.stringify(coords));
+}
+
+export async function loadLastCoords(): Promise<Coords | null> {
+  try {
+    const raw = await AsyncStorage.getItem(LAST_COORDS_KEY);
+    return raw ? (JSON.parse(raw) as Coords) : null;
+  } catch (error) {
+    console.error('Error reading last prayer location:', error);
+    return null;
+  }
+}
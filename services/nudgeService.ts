@@ -0,0 +1,201 @@
+import { supabase } from '../lib/supabase';
+import type { PrayerKey } from './prayerTimes';
+
+/** What send_nudge() did: sent, or why it refused */
+export type NudgeStatus = 'sent' | 'not_buddy' | 'daily_limit' | 'already_nudged' | 'do_not_disturb' | 'quiet_hours';
+
+export interface NudgeResult {
+  status: NudgeStatus;
+  /** Nudges the sender has left in the current 24 hours */
+  remaining: number;
+}
+
+/** A daily window, as 'HH:MM' in the user's own timezone; it may run past midnight */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface NudgeSettings {
+  doNotDisturb: boolean;
+  quietHours: QuietHours | null;
+}
+
+/** A nudge received, as listed by nudge_inbox() */
+export interface InboxNudge {
+  id: string;
+  fromUserId: string;
+  fromName: string;
+  prayer: PrayerKey;
+  message: string | null;
+  sentAt: string;
+  seenAt: string | null;
+}
+
+// Longest message send_nudge() accepts
+export const NUDGE_MESSAGE_MAX = 140;
+
+/** Curated messages to send with a nudge */
+export const NUDGE_TEMPLATES: { id: string; label: string; text: string }[] = [
+  { id: 'patience', label: 'Quran 2:45', text: 'Seek help through patience and prayer. (Quran 2:45)' },
+  { id: 'remembrance', label: 'Quran 20:14', text: 'Establish prayer for My remembrance. (Quran 20:14)' },
+  {
+    id: 'accountability',
+    label: 'Hadith',
+    text: 'The first deed we will be asked about on the Day of Judgement is the prayer. (Tirmidhi)',
+  },
+  {
+    id: 'dua',
+    label: 'Dua',
+    text: 'My Lord, make me one who establishes prayer, and from my descendants. (Quran 14:40)',
+  },
+  { id: 'together', label: 'Together', text: 'Praying for you. Let us not miss this one together!' },
+];
+
+export const QUIET_HOURS_OPTIONS: (QuietHours | null)[] = [
+  null,
+  { start: '21:00', end: '06:00' },
+  { start: '22:00', end: '06:00' },
+  { start: '22:00', end: '07:00' },
+  { start: '23:00', end: '07:00' },
+];
+
+export function formatQuietHours(quietHours: QuietHours | null): string {
+  return quietHours ? `${quietHours.start}–${quietHours.end}` : 'Off';
+}
+
+/**
+ * Alert title and message for a nudge to `buddyName`
+ */
+export function describeNudgeResult(result: NudgeResult, buddyName: string, prayer: PrayerKey): { title: string; message: string } {
+  switch (result.status) {
+    case 'sent':
+      return { title: 'Nudge sent!', message: `${buddyName} has been nudged about ${prayer} prayer.` };
+    case 'already_nudged':
+      return { title: 'Already nudged', message: `You already nudged ${buddyName} about ${prayer} prayer today.` };
+    case 'daily_limit':
+      return { title: 'Out of nudges', message: 'You have used all your nudges for now. More become available over the next 24 hours.' };
+    case 'do_not_disturb':
+      return { title: 'Do not disturb', message: `${buddyName} is not taking nudges right now.` };
+    case 'quiet_hours':
+      return { title: 'Quiet hours', message: `It is quiet hours for ${buddyName}. Try again later.` };
+    case 'not_buddy':
+      return { title: 'Nudge failed', message: `${buddyName} is no longer your buddy.` };
+  }
+}
+
+// Postgres returns TIME as 'HH:MM:SS'
+function toQuietHours(start: string | null, end: string | null): QuietHours | null {
+  return start && end ? { start: start.slice(0, 5), end: end.slice(0, 5) } : null;
+}
+
+class NudgeService {
+  async send(
+    toUserId: string,
+    prayer: PrayerKey,
+    message?: string | null
+  ): Promise<{ result: NudgeResult | null; error: string | null }> {
+    const { data, error } = await supabase.rpc('send_nudge', {
+      to_user_param: toUserId,
+      prayer_param: prayer,
+      message_param: message?.trim() || null,
+    });
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      console.error('Error sending nudge:', error);
+      return { result: null, error: error?.message ?? 'Nudge failed' };
+    }
+    return { result: { status: row.nudge_status, remaining: row.remaining }, error: null };
+  }
+
+  /**
+   * How many more nudges the signed-in user may send now
+   */
+  async getRemaining(): Promise<number | null> {
+    const { data, error } = await supabase.rpc('nudge_allowance');
+    if (error) {
+      console.error('Error fetching nudge allowance:', error);
+      return null;
+    }
+    return data as number;
+  }
+
+  /**
+   * Prayers the signed-in user has nudged each buddy about on that buddy's prayer day
+   */
+  async getSentToday(): Promise<Record<string, Partial<Record<PrayerKey, boolean>>>> {
+    const { data, error } = await supabase.rpc('nudges_sent_today');
+    if (error) {
+      console.error('Error fetching sent nudges:', error);
+      return {};
+    }
+    const sent: Record<string, Partial<Record<PrayerKey, boolean>>> = {};
+    (data || []).forEach((row: { to_user: string; prayer: PrayerKey }) => {
+      sent[row.to_user] = { ...sent[row.to_user], [row.prayer]: true };
+    });
+    return sent;
+  }
+
+  /**
+   * Nudges received in the last 30 days, newest first
+   */
+  async getInbox(): Promise<InboxNudge[]> {
+    const { data, error } = await supabase.rpc('nudge_inbox');
+    if (error) {
+      console.error('Error fetching nudge inbox:', error);
+      return [];
+    }
+    return (data || []).map(
+      (row: {
+        nudge_id: string;
+        from_user: string;
+        from_name: string | null;
+        prayer: PrayerKey;
+        message: string | null;
+        sent_at: string;
+        seen_at: string | null;
+      }) => ({
+        id: row.nudge_id,
+        fromUserId: row.from_user,
+        fromName: row.from_name || 'A buddy',
+        prayer: row.prayer,
+        message: row.message,
+        sentAt: row.sent_at,
+        seenAt: row.seen_at,
+      })
+    );
+  }
+
+  async getSettings(userId: string): Promise<NudgeSettings> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('do_not_disturb, quiet_hours_start, quiet_hours_end')
+      .eq('id', userId)
+      .single();
+    if (error) {
+      console.error('Error fetching nudge settings:', error);
+    }
+    return {
+      doNotDisturb: data?.do_not_disturb ?? false,
+      quietHours: toQuietHours(data?.quiet_hours_start ?? null, data?.quiet_hours_end ?? null),
+    };
+  }
+
+  async updateSettings(userId: string, settings: NudgeSettings): Promise<{ error: string | null }> {
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        do_not_disturb: settings.doNotDisturb,
+        quiet_hours_start: settings.quietHours?.start ?? null,
+        quiet_hours_end: settings.quietHours?.end ?? null,
+      })
+      .eq('id', userId);
+    if (error) {
+      console.error('Error updating nudge settings:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+}
+
+export const nudgeService = new NudgeService();
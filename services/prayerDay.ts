@@ -0,0 +1,83 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../lib/supabase';
+import { Coords, PrayerPrefs, computePrayerDay, deviceTimeZone, prayerDayOf, timeInTimeZone } from './prayerTimes';
+
+const CACHE_KEY = 'prayer_day_clock';
+
+interface ClockState {
+  /** The profile's timezone (profiles.tz) */
+  tz: string;
+  /** Local Fajr time (HH:MM) the prayer day starts at; null until a location is known */
+  dayStartsAt: string | null;
+}
+
+class PrayerDayClock {
+  private state: ClockState = { tz: deviceTimeZone(), dayStartsAt: null };
+  private loading: Promise<void> | null = null;
+  // Whether the profile has the current day start; retried on the next configure if not
+  private profileSynced = false;
+
+  /**
+   * The prayer day (YYYY-MM-DD) an instant belongs to; see prayerDayOf
+   */
+  today(at: Date = new Date()): string {
+    return prayerDayOf(at, this.state.tz, this.state.dayStartsAt);
+  }
+
+  getTimeZone(): string {
+    return this.state.tz;
+  }
+
+  getDayStartsAt(): string | null {
+    return this.state.dayStartsAt;
+  }
+
+  /**
+   * Restore the last known timezone and day start, for work done without a screen
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(CACHE_KEY);
+          if (raw) this.state = { ...this.state, ...JSON.parse(raw) };
+        } catch (error) {
+          console.error('Error reading prayer day clock:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Follow the user's timezone and today's Fajr at their location. The day start is
+   * saved to the profile so the database attributes check-ins to the same prayer day.
+   */
+  async configure(userId: string, coords: Coords, prefs: PrayerPrefs, tz: string = deviceTimeZone()): Promise<void> {
+    await this.load();
+    const now = new Date();
+    let dayStartsAt: string | null = null;
+    try {
+      dayStartsAt = timeInTimeZone(computePrayerDay(coords, now, prefs, tz).fajr, tz);
+    } catch (error) {
+      console.error('Error computing prayer day start:', error);
+    }
+
+    if (dayStartsAt === this.state.dayStartsAt && tz === this.state.tz && this.profileSynced) return;
+    this.state = { tz, dayStartsAt };
+    try {
+      await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Error saving prayer day clock:', error);
+    }
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ tz, day_starts_at: dayStartsAt })
+      .eq('id', userId);
+    if (error) console.error('Error saving prayer day start:', error);
+    this.profileSynced = !error;
+  }
+}
+
+export const prayerDayClock = new PrayerDayClock();
@@ -0,0 +1,182 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../lib/supabase';
+import { PRAYER_KEYS, PrayerKey, PrayerPrefs } from './prayerTimes';
+import { DEFAULT_ADHAN_SOUND, DEFAULT_FAJR_ADHAN_SOUND, getAdhanSound } from '../notifications/adhanSounds';
+
+// 'adhan' plays the adhan, 'silent' shows a banner without sound, 'off' schedules nothing
+export type NotificationMode = 'adhan' | 'silent' | 'off';
+
+export interface PrayerNotificationPref {
+  mode: NotificationMode;
+  /** Minutes before the prayer to send a reminder, or null for no reminder */
+  reminderMinutes: number | null;
+}
+
+export type NotificationPrefs = Record<PrayerKey, PrayerNotificationPref>;
+
+export interface PrayerSettings extends PrayerPrefs {
+  graceMinutes: number;
+  notifications: NotificationPrefs;
+  /** Adhan recording for Dhuhr through Isha */
+  adhanSound: string;
+  /** Adhan recording for Fajr */
+  fajrAdhanSound: string;
+}
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  fajr: { mode: 'adhan', reminderMinutes: null },
+  dhuhr: { mode: 'adhan', reminderMinutes: null },
+  asr: { mode: 'adhan', reminderMinutes: null },
+  maghrib: { mode: 'adhan', reminderMinutes: null },
+  isha: { mode: 'adhan', reminderMinutes: null },
+};
+
+export const DEFAULT_PRAYER_SETTINGS: PrayerSettings = {
+  calcMethod: 'MuslimWorldLeague',
+  madhab: 'Shafi',
+  highLat: 'MiddleOfTheNight',
+  graceMinutes: 30,
+  notifications: DEFAULT_NOTIFICATION_PREFS,
+  adhanSound: DEFAULT_ADHAN_SOUND,
+  fajrAdhanSound: DEFAULT_FAJR_ADHAN_SOUND,
+};
+
+/**
+ * Fills in any prayer missing from stored notification prefs with the defaults
+ */
+export function normalizeNotificationPrefs(raw: unknown): NotificationPrefs {
+  const result = { ...DEFAULT_NOTIFICATION_PREFS };
+  if (!raw || typeof raw !== 'object') return result;
+  for (const key of PRAYER_KEYS) {
+    const pref = (raw as Record<string, unknown>)[key];
+    if (!pref || typeof pref !== 'object') continue;
+    const { mode, reminderMinutes } = pref as { mode?: unknown; reminderMinutes?: unknown };
+    result[key] = {
+      mode: mode === 'silent' || mode === 'off' ? mode : 'adhan',
+      reminderMinutes: typeof reminderMinutes === 'number' && reminderMinutes > 0 ? reminderMinutes : null,
+    };
+  }
+  return result;
+}
+
+const CACHE_KEY = 'prayer_settings';
+
+type Listener = (settings: PrayerSettings) => void;
+
+class PrayerSettingsService {
+  private settings: PrayerSettings = DEFAULT_PRAYER_SETTINGS;
+  private listeners = new Set<Listener>();
+  private cacheLoaded = false;
+
+  /**
+   * Current settings (defaults until the cache or profile has been loaded)
+   */
+  getSettings(): PrayerSettings {
+    return this.settings;
+  }
+
+  /**
+   * Subscribe to settings changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Restore the last known settings from local storage
+   */
+  async loadCached(): Promise<PrayerSettings> {
+    if (this.cacheLoaded) return this.settings;
+    this.cacheLoaded = true;
+    try {
+      const raw = await AsyncStorage.getItem(CACHE_KEY);
+      if (raw) {
+        const cached = JSON.parse(raw);
+        this.apply(
+          { ...DEFAULT_PRAYER_SETTINGS, ...cached, notifications: normalizeNotificationPrefs(cached.notifications) },
+          false
+        );
+      }
+    } catch (error) {
+      console.error('Error reading cached prayer settings:', error);
+    }
+    return this.settings;
+  }
+
+  /**
+   * Load settings from the user's profile and refresh the local cache
+   */
+  async loadForUser(userId: string): Promise<PrayerSettings> {
+    await this.loadCached();
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('calc_method, madhab, high_lat_rule, grace_minutes, notification_prefs, adhan_sound, fajr_adhan_sound')
+        .eq('id', userId)
+        .single();
+
+      if (error) {
+        console.error('Error loading prayer settings:', error);
+        return this.settings;
+      }
+
+      this.apply({
+        calcMethod: (data.calc_method as PrayerSettings['calcMethod']) || DEFAULT_PRAYER_SETTINGS.calcMethod,
+        madhab: (data.madhab as PrayerSettings['madhab']) || DEFAULT_PRAYER_SETTINGS.madhab,
+        highLat: (data.high_lat_rule as PrayerSettings['highLat']) || DEFAULT_PRAYER_SETTINGS.highLat,
+        graceMinutes: data.grace_minutes ?? DEFAULT_PRAYER_SETTINGS.graceMinutes,
+        notifications: normalizeNotificationPrefs(data.notification_prefs),
+        // Unknown ids (e.g. a recording removed from the catalog) fall back to the default
+        adhanSound: data.adhan_sound ? getAdhanSound(data.adhan_sound).id : DEFAULT_ADHAN_SOUND,
+        fajrAdhanSound: data.fajr_adhan_sound ? getAdhanSound(data.fajr_adhan_sound).id : DEFAULT_FAJR_ADHAN_SOUND,
+      });
+    } catch (error) {
+      console.error('Error loading prayer settings:', error);
+    }
+    return this.settings;
+  }
+
+  /**
+   * Persist settings to the user's profile. Listeners are notified only when the save succeeds.
+   */
+  async saveForUser(userId: string, settings: PrayerSettings): Promise<{ error: string | null }> {
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        calc_method: settings.calcMethod,
+        madhab: settings.madhab,
+        high_lat_rule: settings.highLat,
+        grace_minutes: settings.graceMinutes,
+        notification_prefs: settings.notifications,
+        adhan_sound: settings.adhanSound,
+        fajr_adhan_sound: settings.fajrAdhanSound,
+      })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Error saving prayer settings:', error);
+      return { error: error.message };
+    }
+
+    this.apply(settings);
+    return { error: null };
+  }
+
+  private apply(next: PrayerSettings, persist = true) {
+    const prev = this.settings;
+    this.settings = next;
+    if (persist) {
+      AsyncStorage.setItem(CACHE_KEY, JSON.stringify(next)).catch((error) =>
+        console.error('Error caching prayer settings:', error)
+      );
+    }
+    if (JSON.stringify(prev) !== JSON.stringify(next)) {
+      this.listeners.forEach((listener) => listener(next));
+    }
+  }
+}
+
+export const prayerSettingsService = new PrayerSettingsService();
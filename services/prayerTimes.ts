@@ -0,0 +1,191 @@
+import {
+  Coordinates,
+  CalculationMethod,
+  Madhab as AdhanMadhab,
+  HighLatitudeRule as AdhanHighLat,
+  PrayerTimes,
+  CalculationParameters,
+} from 'adhan';
+
+export type PrayerKey = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+export const PRAYER_KEYS: PrayerKey[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+export type CalcMethodKey =
+  | 'MuslimWorldLeague'
+  | 'Egyptian'
+  | 'Karachi'
+  | 'NorthAmerica'
+  | 'Kuwait'
+  | 'Qatar'
+  | 'Singapore'
+  | 'UmmAlQura'
+  | 'Dubai'
+  | 'MoonsightingCommittee'
+  | 'Turkey'
+  | 'Tehran';
+export type MadhabKey = 'Shafi' | 'Hanafi';
+export type HighLatKey = 'MiddleOfTheNight' | 'SeventhOfTheNight' | 'TwilightAngle';
+
+export type PrayerPrefs = {
+  calcMethod: CalcMethodKey;
+  madhab: MadhabKey;
+  highLat: HighLatKey;
+};
+
+export type Coords = { latitude: number; longitude: number };
+
+export interface PrayerWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface PrayerDay {
+  /** Calendar day (YYYY-MM-DD) in the requested timezone */
+  date: string;
+  fajr: Date;
+  sunrise: Date;
+  dhuhr: Date;
+  asr: Date;
+  maghrib: Date;
+  isha: Date;
+  /** Fajr ends at sunrise, Isha at the next day's Fajr, the rest when the following prayer begins */
+  windows: Record<PrayerKey, PrayerWindow>;
+}
+
+// How a completed prayer relates to its window
+export type CheckinStatus = 'on_time' | 'late' | 'qada';
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant in the given IANA timezone
+ */
+export function dayInTimeZone(date: Date, tz: string = deviceTimeZone()): string {
+  try {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: tz,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  }
+}
+
+/**
+ * Local time of day (HH:MM, 24-hour) of an instant in the given IANA timezone
+ */
+export function timeInTimeZone(date: Date, tz: string = deviceTimeZone()): string {
+  const options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' };
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', { ...options, timeZone: tz }).formatToParts(date);
+  } catch {
+    parts = new Intl.DateTimeFormat('en-GB', options).formatToParts(date);
+  }
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '00';
+  return `${get('hour')}:${get('minute')}`;
+}
+
+/**
+ * The prayer day (YYYY-MM-DD) an instant belongs to. A prayer day runs from Fajr to the
+ * next Fajr, so Isha prayed after midnight counts for the day whose Maghrib preceded it.
+ * `dayStartsAt` is the local Fajr time (HH:MM); without it the day starts at midnight.
+ * Matches prayer_day() in database/migrations/add_prayer_day.sql.
+ */
+export function prayerDayOf(at: Date, tz: string = deviceTimeZone(), dayStartsAt: string | null = null): string {
+  const day = dayInTimeZone(at, tz);
+  if (!dayStartsAt || timeInTimeZone(at, tz) >= dayStartsAt) return day;
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d - 1)).toISOString().slice(0, 10);
+}
+
+export function buildParams(prefs: PrayerPrefs): CalculationParameters {
+  let params: CalculationParameters;
+  switch (prefs.calcMethod) {
+    case 'Egyptian': params = CalculationMethod.Egyptian(); break;
+    case 'Karachi': params = CalculationMethod.Karachi(); break;
+    case 'NorthAmerica': params = CalculationMethod.NorthAmerica(); break;
+    case 'Kuwait': params = CalculationMethod.Kuwait(); break;
+    case 'Qatar': params = CalculationMethod.Qatar(); break;
+    case 'Singapore': params = CalculationMethod.Singapore(); break;
+    case 'UmmAlQura': params = CalculationMethod.UmmAlQura(); break;
+    case 'Dubai': params = CalculationMethod.Dubai(); break;
+    case 'MoonsightingCommittee': params = CalculationMethod.MoonsightingCommittee(); break;
+    case 'Turkey': params = CalculationMethod.Turkey(); break;
+    case 'Tehran': params = CalculationMethod.Tehran(); break;
+    default: params = CalculationMethod.MuslimWorldLeague();
+  }
+  params.madhab = prefs.madhab === 'Hanafi' ? AdhanMadhab.Hanafi : AdhanMadhab.Shafi;
+  switch (prefs.highLat) {
+    case 'SeventhOfTheNight': params.highLatitudeRule = AdhanHighLat.SeventhOfTheNight; break;
+    case 'TwilightAngle': params.highLatitudeRule = AdhanHighLat.TwilightAngle; break;
+    default: params.highLatitudeRule = AdhanHighLat.MiddleOfTheNight;
+  }
+  return params;
+}
+
+function timesForDay(coords: Coords, day: string, params: CalculationParameters): PrayerTimes {
+  // adhan reads the calendar components of the date, so build it from the target day directly
+  const [y, m, d] = day.split('-').map(Number);
+  return new PrayerTimes(new Coordinates(coords.latitude, coords.longitude), new Date(y, m - 1, d), params);
+}
+
+function nextDay(day: string): string {
+  const [y, m, d] = day.split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Computes the five prayers, sunrise and each prayer's window for the calendar day
+ * that `date` falls on in `tz`. Pass a YYYY-MM-DD string to select the day directly.
+ */
+export function computePrayerDay(
+  coords: Coords,
+  date: Date | string,
+  prefs: PrayerPrefs,
+  tz: string = deviceTimeZone()
+): PrayerDay {
+  const day = typeof date === 'string' ? date : dayInTimeZone(date, tz);
+  const params = buildParams(prefs);
+  const pt = timesForDay(coords, day, params);
+  const nextFajr = timesForDay(coords, nextDay(day), params).fajr;
+
+  return {
+    date: day,
+    fajr: pt.fajr,
+    sunrise: pt.sunrise,
+    dhuhr: pt.dhuhr,
+    asr: pt.asr,
+    maghrib: pt.maghrib,
+    isha: pt.isha,
+    windows: {
+      fajr: { start: pt.fajr, end: pt.sunrise },
+      dhuhr: { start: pt.dhuhr, end: pt.asr },
+      asr: { start: pt.asr, end: pt.maghrib },
+      maghrib: { start: pt.maghrib, end: pt.isha },
+      isha: { start: pt.isha, end: nextFajr },
+    },
+  };
+}
+
+/**
+ * Classifies a check-in made at `at`: on time until the prayer's window closes (plus grace),
+ * late until the prayer day ends at the next Fajr, and qada after that.
+ */
+export function classifyCheckin(
+  times: PrayerDay,
+  prayer: PrayerKey,
+  at: Date,
+  graceMinutes = 0
+): CheckinStatus {
+  const onTimeUntil = times.windows[prayer].end.getTime() + graceMinutes * 60 * 1000;
+  if (at.getTime() <= onTimeUntil) return 'on_time';
+  if (at.getTime() < times.windows.isha.end.getTime()) return 'late';
+  return 'qada';
+}
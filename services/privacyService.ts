@@ -0,0 +1,75 @@
+import { supabase } from '../lib/supabase';
+
+/** What a buddy may see of the user's activity; buddies without a setting see everything */
+export type VisibilityLevel = 'full' | 'summary' | 'streak';
+
+/**
+ * What the signed-in user may see of another user, as returned by buddy_profiles:
+ * a visibility level, or 'hidden' when they hide their activity from everyone
+ */
+export type SharedVisibility = VisibilityLevel | 'hidden';
+
+export const VISIBILITY_LEVELS: { key: VisibilityLevel; label: string; description: string }[] = [
+  { key: 'full', label: 'Full', description: 'Each prayer you check in' },
+  { key: 'summary', label: 'Summary', description: 'How many prayers you prayed each day' },
+  { key: 'streak', label: 'Streak', description: 'Only your streak' },
+];
+
+export interface PrivacySettings {
+  hideActivity: boolean;
+  discoverable: boolean;
+}
+
+class PrivacyService {
+  async getSettings(userId: string): Promise<PrivacySettings> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('hide_activity, discoverable')
+      .eq('id', userId)
+      .single();
+    if (error) {
+      console.error('Error fetching privacy settings:', error);
+    }
+    return { hideActivity: data?.hide_activity ?? false, discoverable: data?.discoverable ?? true };
+  }
+
+  async updateSettings(userId: string, change: Partial<PrivacySettings>): Promise<{ error: string | null }> {
+    const update: Record<string, boolean> = {};
+    if (change.hideActivity !== undefined) update.hide_activity = change.hideActivity;
+    if (change.discoverable !== undefined) update.discoverable = change.discoverable;
+    const { error } = await supabase.from('profiles').update(update).eq('id', userId);
+    if (error) {
+      console.error('Error updating privacy settings:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  /**
+   * The level chosen for each buddy; buddies missing from the result see full detail
+   */
+  async getBuddyLevels(userId: string): Promise<Record<string, VisibilityLevel>> {
+    const { data, error } = await supabase
+      .from('buddy_visibility')
+      .select('viewer_id, level')
+      .eq('owner_id', userId);
+    if (error) {
+      console.error('Error fetching buddy visibility:', error);
+      return {};
+    }
+    return Object.fromEntries((data || []).map((row) => [row.viewer_id as string, row.level as VisibilityLevel]));
+  }
+
+  async setBuddyLevel(userId: string, buddyId: string, level: VisibilityLevel): Promise<{ error: string | null }> {
+    const { error } = await supabase
+      .from('buddy_visibility')
+      .upsert({ owner_id: userId, viewer_id: buddyId, level }, { onConflict: 'owner_id,viewer_id' });
+    if (error) {
+      console.error('Error updating buddy visibility:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+}
+
+export const privacyService = new PrivacyService();
@@ -0,0 +1,169 @@
+import { supabase } from '../lib/supabase';
+import { PRAYER_KEYS, PrayerKey } from './prayerTimes';
+
+export type QadaReason = 'seed' | 'manual' | 'made_up';
+
+export interface QadaBalance {
+  prayer: PrayerKey;
+  outstanding: number;
+  seededThrough: string | null;
+}
+
+export interface QadaEntry {
+  id: string;
+  prayer: PrayerKey;
+  delta: number;
+  reason: QadaReason;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface QadaProgress {
+  /** Prayers ever added to the ledger, by seeding or manual increases */
+  owed: number;
+  madeUp: number;
+  outstanding: number;
+}
+
+function emptyBalances(): Record<PrayerKey, QadaBalance> {
+  const result = {} as Record<PrayerKey, QadaBalance>;
+  PRAYER_KEYS.forEach((prayer) => {
+    result[prayer] = { prayer, outstanding: 0, seededThrough: null };
+  });
+  return result;
+}
+
+class QadaService {
+  /**
+   * Get the outstanding count for every prayer (zero for prayers with no ledger row)
+   */
+  async getBalances(userId: string): Promise<Record<PrayerKey, QadaBalance>> {
+    const result = emptyBalances();
+    try {
+      const { data, error } = await supabase
+        .from('qada_balances')
+        .select('prayer, outstanding, seeded_through')
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error fetching qada balances:', error);
+        return result;
+      }
+
+      data?.forEach((row) => {
+        const prayer = row.prayer as PrayerKey;
+        result[prayer] = { prayer, outstanding: row.outstanding || 0, seededThrough: row.seeded_through };
+      });
+    } catch (error) {
+      console.error('Error fetching qada balances:', error);
+    }
+    return result;
+  }
+
+  /**
+   * Get the most recent ledger changes, newest first
+   */
+  async getHistory(userId: string, limit = 50): Promise<QadaEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('qada_entries')
+        .select('id, prayer, delta, reason, note, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching qada history:', error);
+        return [];
+      }
+
+      return (data || []).map((row) => ({
+        id: row.id,
+        prayer: row.prayer as PrayerKey,
+        delta: row.delta,
+        reason: row.reason as QadaReason,
+        note: row.note,
+        createdAt: row.created_at,
+      }));
+    } catch (error) {
+      console.error('Error fetching qada history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Totals across the whole ledger history, for the progress view
+   */
+  async getProgress(userId: string): Promise<QadaProgress> {
+    const progress: QadaProgress = { owed: 0, madeUp: 0, outstanding: 0 };
+    try {
+      const [{ data, error }, balances] = await Promise.all([
+        supabase.from('qada_entries').select('delta, reason').eq('user_id', userId),
+        this.getBalances(userId),
+      ]);
+
+      if (error) {
+        console.error('Error fetching qada progress:', error);
+        return progress;
+      }
+
+      data?.forEach((row) => {
+        if (row.reason === 'made_up') progress.madeUp += -row.delta;
+        else if (row.delta > 0) progress.owed += row.delta;
+      });
+      progress.outstanding = PRAYER_KEYS.reduce((sum, p) => sum + balances[p].outstanding, 0);
+    } catch (error) {
+      console.error('Error fetching qada progress:', error);
+    }
+    return progress;
+  }
+
+  /**
+   * Add unchecked past days from prayer_checkins to the balances. Days already
+   * counted are skipped, so this is safe to run again. `fromDay` (YYYY-MM-DD)
+   * defaults to the first day the user checked in.
+   */
+  async seedFromCheckins(fromDay?: string): Promise<{ added: Record<PrayerKey, number> | null; error: string | null }> {
+    const { data, error } = await supabase.rpc('seed_qada_from_checkins', fromDay ? { from_param: fromDay } : {});
+    if (error) {
+      console.error('Error seeding qada from check-ins:', error);
+      return { added: null, error: error.message };
+    }
+
+    const added = {} as Record<PrayerKey, number>;
+    PRAYER_KEYS.forEach((p) => (added[p] = 0));
+    (data || []).forEach((row: { prayer_name: string; added: number }) => {
+      added[row.prayer_name as PrayerKey] = row.added;
+    });
+    return { added, error: null };
+  }
+
+  /**
+   * Manually set how many of a prayer are owed
+   */
+  async setOutstanding(prayer: PrayerKey, outstanding: number): Promise<{ error: string | null }> {
+    const { error } = await supabase.rpc('set_qada_outstanding', {
+      prayer_param: prayer,
+      outstanding_param: Math.max(0, Math.floor(outstanding)),
+    });
+    if (error) {
+      console.error('Error setting qada outstanding:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  /**
+   * Record one made-up prayer. Returns the remaining count for that prayer.
+   */
+  async makeUp(prayer: PrayerKey): Promise<{ remaining: number | null; error: string | null }> {
+    const { data, error } = await supabase.rpc('record_qada_made_up', { prayer_param: prayer });
+    if (error) {
+      console.error('Error recording made-up prayer:', error);
+      return { remaining: null, error: error.message };
+    }
+    return { remaining: data ?? 0, error: null };
+  }
+}
+
+export const qadaService = new QadaService();
@@ -0,0 +1,177 @@
+import { supabase } from '../lib/supabase';
+import { PRAYER_KEYS, PrayerKey } from './prayerTimes';
+
+export interface PrayerRate {
+  prayer: PrayerKey;
+  daysCounted: number;
+  completed: number;
+  onTime: number;
+  late: number;
+  qada: number;
+  /** Share of days in the window the prayer was checked in (0 to 1) */
+  rate: number;
+}
+
+export interface WeekdayStat {
+  /** 0 = Sunday */
+  weekday: number;
+  daysCounted: number;
+  prayers: number;
+  /** Average share of the five prayers completed on this weekday (0 to 1) */
+  rate: number;
+}
+
+export interface TrendPoint {
+  bucketStart: string;
+  daysCounted: number;
+  prayers: number;
+  onTime: number;
+  rate: number;
+}
+
+export interface PrayerStatsSummary {
+  days: number;
+  rates: Record<PrayerKey, PrayerRate>;
+  /** Overall share of prayers completed in the window (0 to 1) */
+  overallRate: number;
+  /** Share of completed prayers that were on time (0 to 1) */
+  onTimeRate: number;
+  weakestPrayer: PrayerKey | null;
+  bestWeekday: number | null;
+  weekdays: WeekdayStat[];
+  trend: TrendPoint[];
+}
+
+export interface PrayerTotals {
+  totalPrayers: number;
+  fullDays: number;
+}
+
+export const STATS_WINDOWS = [7, 30, 90] as const;
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+class StatsService {
+  /**
+   * Per-prayer completion over the last `days` prayer days, aggregated by prayer_stats()
+   */
+  async getPrayerRates(days: number): Promise<Record<PrayerKey, PrayerRate> | null> {
+    const { data, error } = await supabase.rpc('prayer_stats', { days_param: days });
+    if (error) {
+      console.error('Error fetching prayer stats:', error);
+      return null;
+    }
+
+    const result = {} as Record<PrayerKey, PrayerRate>;
+    PRAYER_KEYS.forEach((prayer) => {
+      result[prayer] = { prayer, daysCounted: 0, completed: 0, onTime: 0, late: 0, qada: 0, rate: 0 };
+    });
+    (data || []).forEach((row: {
+      prayer_name: string;
+      days_counted: number;
+      completed: number;
+      on_time: number;
+      late: number;
+      qada: number;
+    }) => {
+      const prayer = row.prayer_name as PrayerKey;
+      result[prayer] = {
+        prayer,
+        daysCounted: row.days_counted,
+        completed: row.completed,
+        onTime: row.on_time,
+        late: row.late,
+        qada: row.qada,
+        rate: ratio(row.completed, row.days_counted),
+      };
+    });
+    return result;
+  }
+
+  /**
+   * Prayers completed per weekday over the last `days` prayer days
+   */
+  async getWeekdayStats(days: number): Promise<WeekdayStat[]> {
+    const { data, error } = await supabase.rpc('prayer_weekday_stats', { days_param: days });
+    if (error) {
+      console.error('Error fetching weekday stats:', error);
+      return [];
+    }
+    return (data || []).map((row: { weekday: number; days_counted: number; prayers: number }) => ({
+      weekday: row.weekday,
+      daysCounted: row.days_counted,
+      prayers: row.prayers,
+      rate: ratio(row.prayers, row.days_counted * PRAYER_KEYS.length),
+    }));
+  }
+
+  /**
+   * Completion in buckets of `bucketDays`, oldest first, for trend lines
+   */
+  async getTrend(days: number, bucketDays = 7): Promise<TrendPoint[]> {
+    const { data, error } = await supabase.rpc('prayer_trend', { days_param: days, bucket_days: bucketDays });
+    if (error) {
+      console.error('Error fetching prayer trend:', error);
+      return [];
+    }
+    return (data || []).map((row: { bucket_start: string; days_counted: number; prayers: number; on_time: number }) => ({
+      bucketStart: row.bucket_start,
+      daysCounted: row.days_counted,
+      prayers: row.prayers,
+      onTime: row.on_time,
+      rate: ratio(row.prayers, row.days_counted * PRAYER_KEYS.length),
+    }));
+  }
+
+  /**
+   * Everything the statistics screen shows for a window of 7, 30 or 90 days
+   */
+  async getSummary(days: number): Promise<PrayerStatsSummary | null> {
+    // Short windows trend by day, longer ones by week
+    const [rates, weekdays, trend] = await Promise.all([
+      this.getPrayerRates(days),
+      this.getWeekdayStats(days),
+      this.getTrend(days, days <= 7 ? 1 : 7),
+    ]);
+    if (!rates) return null;
+
+    const all = PRAYER_KEYS.map((p) => rates[p]);
+    const completed = all.reduce((sum, r) => sum + r.completed, 0);
+    const possible = all.reduce((sum, r) => sum + r.daysCounted, 0);
+    const onTime = all.reduce((sum, r) => sum + r.onTime, 0);
+
+    const weakest = completed || possible ? [...all].sort((a, b) => a.rate - b.rate)[0] : null;
+    const best = weekdays.filter((w) => w.prayers > 0).sort((a, b) => b.rate - a.rate)[0];
+
+    return {
+      days,
+      rates,
+      overallRate: ratio(completed, possible),
+      onTimeRate: ratio(onTime, completed),
+      weakestPrayer: weakest && weakest.rate < 1 ? weakest.prayer : null,
+      bestWeekday: best ? best.weekday : null,
+      weekdays,
+      trend,
+    };
+  }
+
+  /**
+   * All-time totals for a user, aggregated by prayer_totals()
+   */
+  async getTotals(userId: string): Promise<PrayerTotals> {
+    try {
+      const { data, error } = await supabase.rpc('prayer_totals', { user_id_param: userId });
+      if (error) {
+        console.error('Error fetching prayer totals:', error);
+        return { totalPrayers: 0, fullDays: 0 };
+      }
+      const row = data?.[0];
+      return { totalPrayers: row?.total_prayers || 0, fullDays: row?.full_days || 0 };
+    } catch (error) {
+      console.error('Error fetching prayer totals:', error);
+      return { totalPrayers: 0, fullDays: 0 };
+    }
+  }
+}
+
+export const statsService = new StatsService();
@@ -0,0 +1,94 @@
+// Pure streak calculation shared by offline display and the check on calculate_user_streak.
+// Must stay in line with calculate_user_streak in database/migrations/add_prayer_day.sql.
+
+import { prayerDayOf } from './prayerTimes';
+
+/**
+ * - active: today is complete or excused
+ * - at_risk: yesterday is complete or excused but today isn't yet
+ * - broken: there are completions, but the run doesn't reach yesterday
+ * - none: no completions at all
+ */
+export type StreakStatus = 'active' | 'at_risk' | 'broken' | 'none';
+
+export type ExcusedKind = 'excused' | 'freeze';
+
+export interface ExcusedMark {
+  day: string;
+  kind: ExcusedKind;
+}
+
+export interface StreakResult {
+  currentStreak: number;
+  longestStreak: number;
+  status: StreakStatus;
+  /** Most recent completed or excused day (YYYY-MM-DD) */
+  lastDay: string | null;
+  /** Freezes earned and not yet used */
+  freezesAvailable: number;
+}
+
+// One freeze is earned for every this many completed days in a run
+export const DAYS_PER_FREEZE = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakOptions {
+  /** The profile's timezone (profiles.tz) */
+  timeZone: string;
+  /** Local Fajr time (HH:MM) the prayer day starts at; midnight when null */
+  dayStartsAt?: string | null;
+  excused?: ExcusedMark[];
+  now?: Date;
+}
+
+// Day arithmetic on calendar dates, so DST changes can't shift a day
+function dayNumber(day: string): number {
+  const [y, m, d] = day.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+}
+
+/**
+ * Streaks from the days (YYYY-MM-DD) on which all five prayers were completed.
+ * Days are prayer days in the user's timezone; order and duplicates don't matter.
+ * Excused days and freezes keep a run going without adding to it. The current streak
+ * is the run ending today or yesterday; a day still in progress doesn't break it.
+ */
+export function computeStreak(days: string[], options: StreakOptions): StreakResult {
+  const { timeZone, dayStartsAt = null, excused = [], now = new Date() } = options;
+  const today = dayNumber(prayerDayOf(now, timeZone, dayStartsAt));
+  // Excused days declared ahead of time only count once they arrive
+  const marks = excused.filter((e) => dayNumber(e.day) <= today);
+  const completed = new Set(days.map(dayNumber));
+  const numbers = Array.from(new Set([...completed, ...marks.map((e) => dayNumber(e.day))])).sort((a, b) => a - b);
+  const freezesUsed = marks.filter((e) => e.kind === 'freeze').length;
+  if (!numbers.length) {
+    return { currentStreak: 0, longestStreak: 0, status: 'none', lastDay: null, freezesAvailable: 0 };
+  }
+
+  let longest = 0;
+  let run = 0;
+  let earned = 0;
+  numbers.forEach((n, i) => {
+    if (i > 0 && n !== numbers[i - 1] + 1) {
+      earned += Math.floor(run / DAYS_PER_FREEZE);
+      run = 0;
+    }
+    if (completed.has(n)) run++;
+    longest = Math.max(longest, run);
+  });
+  earned += Math.floor(run / DAYS_PER_FREEZE);
+
+  // `run` is now the number of completed days in the latest run
+  const last = numbers[numbers.length - 1];
+  // Completions dated in the future (clock or timezone changes) count as today
+  const status: StreakStatus = last >= today ? 'active' : last === today - 1 ? 'at_risk' : 'broken';
+
+  return {
+    currentStreak: status === 'broken' ? 0 : run,
+    longestStreak: longest,
+    status,
+    lastDay: [...days, ...marks.map((e) => e.day)].sort().pop() ?? null,
+    freezesAvailable: Math.max(0, earned - freezesUsed),
+  };
+}
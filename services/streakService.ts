@@ -1,5 +1,10 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../lib/supabase';
 import dayjs from 'dayjs';
+import { computeStreak, StreakResult, ExcusedKind, ExcusedMark } from './streakEngine';
+import { syncQueue } from './syncQueue';
+import { prayerDayClock } from './prayerDay';
+import { PRAYER_KEYS, PrayerKey } from './prayerTimes';
 
 export interface StreakData {
   currentStreak: number;
@@ -7,6 +12,21 @@ export interface StreakData {
   lastActive: string | null;
 }
 
+export type ExcuseReason = 'illness' | 'travel' | 'menstruation' | 'other';
+
+export interface ExcusedDay {
+  day: string;
+  kind: ExcusedKind;
+  reason: ExcuseReason | null;
+  visibleToBuddies: boolean;
+}
+
+// Completed and excused days, cached per user for offline display
+interface StreakHistory {
+  days: string[];
+  excused: ExcusedMark[];
+}
+
 export interface UserStreakInfo {
   userId: string;
   currentStreak: number;
@@ -15,6 +35,26 @@ export interface UserStreakInfo {
   streakUpdatedAt: string | null;
 }
 
+export interface PrayerStreak {
+  currentStreak: number;
+  longestStreak: number;
+  /** Whether the prayer is checked in for the user's current prayer day */
+  doneToday: boolean;
+}
+
+export type PrayerStreaks = Record<PrayerKey, PrayerStreak>;
+
+const streakHistoryKey = (userId: string) => `streak_history_${userId}`;
+const prayerStreaksKey = (userId: string) => `prayer_streaks_${userId}`;
+
+function emptyPrayerStreaks(): PrayerStreaks {
+  const result = {} as PrayerStreaks;
+  PRAYER_KEYS.forEach((p) => {
+    result[p] = { currentStreak: 0, longestStreak: 0, doneToday: false };
+  });
+  return result;
+}
+
 class StreakService {
   /**
    * Update user's last active timestamp
@@ -34,7 +74,7 @@ class StreakService {
   }
 
   /**
-   * Calculate streak for a specific user
+   * Calculate streak for a specific user with the calculate_user_streak RPC
    */
   async calculateUserStreak(userId: string): Promise<{ currentStreak: number; longestStreak: number } | null> {
     try {
@@ -47,13 +87,205 @@ class StreakService {
         return null;
       }
       
-      return data?.[0] || { currentStreak: 0, longestStreak: 0 };
+      const row = data?.[0];
+      return {
+        currentStreak: row?.current_streak || 0,
+        longestStreak: row?.longest_streak || 0
+      };
     } catch (error) {
       console.error('Error calculating user streak:', error);
       return null;
     }
   }
 
+  /**
+   * Streak for a user computed on the device from their completed and excused days,
+   * so it also works offline. Days are prayer days in the profile's timezone. When
+   * online, calculate_user_streak is authoritative and its counts win a disagreement.
+   */
+  async getStreak(userId: string): Promise<StreakResult> {
+    await prayerDayClock.load();
+    const { history, fromServer } = await this.getHistory(userId);
+    const result = computeStreak(history.days, {
+      timeZone: prayerDayClock.getTimeZone(),
+      dayStartsAt: prayerDayClock.getDayStartsAt(),
+      excused: history.excused,
+    });
+
+    if (fromServer) {
+      const server = await this.calculateUserStreak(userId);
+      if (server && (server.currentStreak !== result.currentStreak || server.longestStreak !== result.longestStreak)) {
+        console.warn('calculate_user_streak disagrees with the client streak engine:', {
+          server,
+          client: { currentStreak: result.currentStreak, longestStreak: result.longestStreak },
+        });
+        return { ...result, currentStreak: server.currentStreak, longestStreak: server.longestStreak };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Record a day's completion made on this device before it reaches the server
+   */
+  async noteLocalCompletion(userId: string, day: string, complete: boolean): Promise<void> {
+    const history = await this.readCachedHistory(userId);
+    const days = new Set(history.days);
+    if (complete) days.add(day);
+    else days.delete(day);
+    await this.writeCachedHistory(userId, { ...history, days: [...days] });
+  }
+
+  /**
+   * Get a user's excused days and used freezes, oldest first. For buddies only
+   * the days they chose to share are returned.
+   */
+  async getExcusedDays(userId: string, fromDay?: string): Promise<ExcusedDay[]> {
+    try {
+      let query = supabase
+        .from('excused_days')
+        .select('day, kind, reason, visible_to_buddies')
+        .eq('user_id', userId)
+        .order('day', { ascending: true });
+      if (fromDay) query = query.gte('day', fromDay);
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching excused days:', error);
+        return [];
+      }
+
+      return (data || []).map((row) => ({
+        day: row.day,
+        kind: row.kind as ExcusedKind,
+        reason: row.reason as ExcuseReason | null,
+        visibleToBuddies: !!row.visible_to_buddies,
+      }));
+    } catch (error) {
+      console.error('Error fetching excused days:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Excuse a day (YYYY-MM-DD) so it doesn't break the streak. Allowed for the last few
+   * days and up to a month ahead. Hidden from buddies unless `visibleToBuddies` is set.
+   */
+  async declareExcusedDay(
+    userId: string,
+    day: string,
+    reason: ExcuseReason,
+    options: { visibleToBuddies?: boolean } = {}
+  ): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('excused_days').upsert(
+      { user_id: userId, day, kind: 'excused', reason, visible_to_buddies: !!options.visibleToBuddies },
+      { onConflict: 'user_id,day' }
+    );
+    if (error) {
+      console.error('Error declaring excused day:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  /**
+   * Remove an excused day. Used freezes can't be removed.
+   */
+  async removeExcusedDay(userId: string, day: string): Promise<{ error: string | null }> {
+    const { error } = await supabase
+      .from('excused_days')
+      .delete()
+      .eq('user_id', userId)
+      .eq('day', day)
+      .eq('kind', 'excused');
+    if (error) {
+      console.error('Error removing excused day:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  /**
+   * Number of streak freezes the user has earned and not used yet
+   */
+  async getFreezesAvailable(userId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('streak_freezes_available', {
+        user_id_param: userId
+      });
+
+      if (error) {
+        console.error('Error fetching streak freezes:', error);
+        return 0;
+      }
+
+      return data || 0;
+    } catch (error) {
+      console.error('Error fetching streak freezes:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Spend a freeze on a missed past day (YYYY-MM-DD) in the backfill window.
+   * Returns the freezes left.
+   */
+  async applyStreakFreeze(day: string): Promise<{ remaining: number | null; error: string | null }> {
+    const { data, error } = await supabase.rpc('use_streak_freeze', { day_param: day });
+    if (error) {
+      console.error('Error using streak freeze:', error);
+      return { remaining: null, error: error.message };
+    }
+    return { remaining: data ?? 0, error: null };
+  }
+
+  /**
+   * Completed and excused days from the server, or from the local cache when offline
+   * or when check-ins are still waiting to sync
+   */
+  private async getHistory(userId: string): Promise<{ history: StreakHistory; fromServer: boolean }> {
+    if (syncQueue.getState().pending === 0) {
+      try {
+        const [completions, excused] = await Promise.all([
+          supabase.from('prayer_completions').select('day').eq('user_id', userId),
+          supabase.from('excused_days').select('day, kind').eq('user_id', userId),
+        ]);
+
+        const error = completions.error || excused.error;
+        if (!error) {
+          const history: StreakHistory = {
+            days: (completions.data || []).map((row) => row.day as string),
+            excused: (excused.data || []).map((row) => ({ day: row.day as string, kind: row.kind as ExcusedKind })),
+          };
+          await this.writeCachedHistory(userId, history);
+          return { history, fromServer: true };
+        }
+        console.error('Error fetching streak history:', error);
+      } catch (error) {
+        console.error('Error fetching streak history:', error);
+      }
+    }
+    return { history: await this.readCachedHistory(userId), fromServer: false };
+  }
+
+  private async readCachedHistory(userId: string): Promise<StreakHistory> {
+    try {
+      const raw = await AsyncStorage.getItem(streakHistoryKey(userId));
+      return raw ? JSON.parse(raw) : { days: [], excused: [] };
+    } catch (error) {
+      console.error('Error reading cached streak history:', error);
+      return { days: [], excused: [] };
+    }
+  }
+
+  private async writeCachedHistory(userId: string, history: StreakHistory) {
+    try {
+      await AsyncStorage.setItem(streakHistoryKey(userId), JSON.stringify(history));
+    } catch (error) {
+      console.error('Error caching streak history:', error);
+    }
+  }
+
   /**
    * Get streak data for a user from the profiles table
    */
@@ -83,11 +315,12 @@ class StreakService {
 
   /**
    * Get streak data for multiple users (for buddy screen)
+   * Read through buddy_profiles, so users who hide their activity come back with zeros
    */
   async getMultipleUsersStreakData(userIds: string[]): Promise<Record<string, StreakData>> {
     try {
       const { data, error } = await supabase
-        .from('profiles')
+        .from('buddy_profiles')
         .select('id, current_streak, longest_streak, last_active_at')
         .in('id', userIds);
       
@@ -112,6 +345,73 @@ class StreakService {
     }
   }
 
+  /**
+   * Per-prayer streaks for a user, with the last known copy when offline
+   */
+  async getUserPrayerStreaks(userId: string): Promise<PrayerStreaks> {
+    const fetched = await this.getMultipleUsersPrayerStreaks([userId]);
+    if (fetched[userId]) {
+      try {
+        await AsyncStorage.setItem(prayerStreaksKey(userId), JSON.stringify(fetched[userId]));
+      } catch (error) {
+        console.error('Error caching prayer streaks:', error);
+      }
+      return fetched[userId];
+    }
+    try {
+      const raw = await AsyncStorage.getItem(prayerStreaksKey(userId));
+      return raw ? JSON.parse(raw) : emptyPrayerStreaks();
+    } catch (error) {
+      console.error('Error reading cached prayer streaks:', error);
+      return emptyPrayerStreaks();
+    }
+  }
+
+  /**
+   * Per-prayer streaks for the current user and their buddies (for buddy screen).
+   * Users who aren't buddies are left out.
+   */
+  async getMultipleUsersPrayerStreaks(userIds: string[]): Promise<Record<string, PrayerStreaks>> {
+    try {
+      const { data, error } = await supabase.rpc('prayer_streaks', { user_ids: userIds });
+
+      if (error) {
+        console.error('Error fetching prayer streaks:', error);
+        return {};
+      }
+
+      const result: Record<string, PrayerStreaks> = {};
+      (data || []).forEach((row: {
+        user_id: string;
+        prayer_name: string;
+        current_streak: number;
+        longest_streak: number;
+        done_today: boolean;
+      }) => {
+        if (!result[row.user_id]) result[row.user_id] = emptyPrayerStreaks();
+        result[row.user_id][row.prayer_name as PrayerKey] = {
+          currentStreak: row.current_streak || 0,
+          longestStreak: row.longest_streak || 0,
+          doneToday: !!row.done_today,
+        };
+      });
+      return result;
+    } catch (error) {
+      console.error('Error fetching prayer streaks:', error);
+      return {};
+    }
+  }
+
+  /**
+   * A prayer's streak with today's check-in as the device sees it, so ticking or
+   * unticking shows straight away before the change syncs
+   */
+  withTodayCheckin(streak: PrayerStreak, doneToday: boolean): PrayerStreak {
+    if (streak.doneToday === doneToday) return streak;
+    const currentStreak = Math.max(0, streak.currentStreak + (doneToday ? 1 : -1));
+    return { currentStreak, longestStreak: Math.max(streak.longestStreak, currentStreak), doneToday };
+  }
+
   /**
    * Update all user streaks (admin function)
    */
@@ -0,0 +1,296 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Network from 'expo-network';
+import { AppState } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { PRAYER_KEYS, PrayerKey, CheckinStatus } from './prayerTimes';
+
+interface BaseOp {
+  id: string;
+  userId: string;
+  day: string;
+  /** When the user made the change; used to resolve conflicts with the server */
+  queuedAt: string;
+}
+
+export interface CheckinOp extends BaseOp {
+  kind: 'checkin';
+  prayer: PrayerKey;
+  completed: boolean;
+  completedAt: string | null;
+  status: CheckinStatus | null;
+  backfilled: boolean;
+}
+
+// Brings prayer_completions for the day in line with the check-ins on the server
+export interface CompletionOp extends BaseOp {
+  kind: 'completion';
+}
+
+export interface NudgesSeenOp extends BaseOp {
+  kind: 'nudges_seen';
+}
+
+export type SyncOp = CheckinOp | CompletionOp | NudgesSeenOp;
+
+export interface SyncState {
+  pending: number;
+  syncing: boolean;
+}
+
+type StateListener = (state: SyncState) => void;
+// Called when the server refused an op or a newer change on the server won
+type DropListener = (op: SyncOp, reason: string) => void;
+
+type ApplyResult = { outcome: 'done' } | { outcome: 'retry' } | { outcome: 'dropped'; reason: string };
+
+const QUEUE_KEY = 'sync_queue';
+const RETRY_MS = 30 * 1000;
+
+// Only the latest change per row is kept, so replay order and the final state are deterministic
+function opKey(op: SyncOp) {
+  return op.kind === 'checkin'
+    ? `checkin|${op.userId}|${op.day}|${op.prayer}`
+    : `${op.kind}|${op.userId}|${op.day}`;
+}
+
+// PostgREST errors carry a code; fetch failures don't
+function isNetworkError(error: { code?: string; message?: string }) {
+  return !error.code || /network|fetch|timeout/i.test(error.message ?? '');
+}
+
+class SyncQueue {
+  private queue: SyncOp[] = [];
+  private loading: Promise<void> | null = null;
+  private flushing = false;
+  private flushAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private stateListeners = new Set<StateListener>();
+  private dropListeners = new Set<DropListener>();
+
+  /**
+   * Start replaying when connectivity returns or the app comes to the foreground
+   */
+  start() {
+    if (this.started) return;
+    this.started = true;
+    Network.addNetworkStateListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) this.flush();
+    });
+    AppState.addEventListener('change', (state) => {
+      if (state === 'active') this.flush();
+    });
+    this.flush();
+  }
+
+  /**
+   * Subscribe to the pending count. Returns an unsubscribe function.
+   */
+  subscribe(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    this.load().then(() => listener(this.getState()));
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to changes that were dropped instead of synced. Returns an unsubscribe function.
+   */
+  onDropped(listener: DropListener): () => void {
+    this.dropListeners.add(listener);
+    return () => {
+      this.dropListeners.delete(listener);
+    };
+  }
+
+  getState(): SyncState {
+    return { pending: this.queue.length, syncing: this.flushing };
+  }
+
+  /**
+   * Check-ins for a day that haven't reached the server yet, oldest first
+   */
+  async pendingCheckins(userId: string, day: string): Promise<CheckinOp[]> {
+    await this.load();
+    return this.queue.filter(
+      (op): op is CheckinOp => op.kind === 'checkin' && op.userId === userId && op.day === day
+    );
+  }
+
+  /**
+   * Queue a change and try to send it right away
+   */
+  async enqueue(op: Omit<CheckinOp, 'id' | 'queuedAt'> | Omit<CompletionOp, 'id' | 'queuedAt'> | Omit<NudgesSeenOp, 'id' | 'queuedAt'>) {
+    await this.load();
+    const full = {
+      ...op,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+    } as SyncOp;
+    const key = opKey(full);
+    this.queue = this.queue.filter((o) => opKey(o) !== key);
+    this.queue.push(full);
+    await this.persist();
+    this.emit();
+    this.flush();
+  }
+
+  /**
+   * Replay queued changes in order. Stops at the first network failure and retries later.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return;
+    }
+    this.flushing = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.emit();
+
+    try {
+      await this.load();
+      while (this.queue.length) {
+        const op = this.queue[0];
+        const result = await this.apply(op);
+        if (result.outcome === 'retry') {
+          this.retryTimer = setTimeout(() => this.flush(), RETRY_MS);
+          break;
+        }
+        // Match by id: a newer change for the same row may have replaced this one meanwhile
+        this.queue = this.queue.filter((o) => o.id !== op.id);
+        await this.persist();
+        if (result.outcome === 'dropped') {
+          console.warn('Dropped queued change:', op.kind, result.reason);
+          this.dropListeners.forEach((listener) => listener(op, result.reason));
+        }
+        this.emit();
+      }
+    } catch (error) {
+      console.error('Error replaying sync queue:', error);
+    } finally {
+      this.flushing = false;
+      this.emit();
+      if (this.flushAgain) {
+        this.flushAgain = false;
+        this.flush();
+      }
+    }
+  }
+
+  private async apply(op: SyncOp): Promise<ApplyResult> {
+    switch (op.kind) {
+      case 'checkin':
+        return this.applyCheckin(op);
+      case 'completion':
+        return this.applyCompletion(op);
+      case 'nudges_seen':
+        return this.applyNudgesSeen(op);
+    }
+  }
+
+  // Last write wins by the time each change was made on its device, so a newer
+  // edit from another device is kept. Ties go to the server.
+  private async applyCheckin(op: CheckinOp): Promise<ApplyResult> {
+    const { data: existing, error: readError } = await supabase
+      .from('prayer_checkins')
+      .select('client_updated_at')
+      .eq('user_id', op.userId)
+      .eq('day', op.day)
+      .eq('prayer', op.prayer)
+      .maybeSingle();
+    if (readError) return this.failure(readError);
+    if (
+      existing?.client_updated_at &&
+      new Date(existing.client_updated_at).getTime() >= new Date(op.queuedAt).getTime()
+    ) {
+      return { outcome: 'dropped', reason: 'A newer change was already saved' };
+    }
+
+    const { error } = await supabase.from('prayer_checkins').upsert(
+      {
+        user_id: op.userId,
+        day: op.day,
+        prayer: op.prayer,
+        completed: op.completed,
+        completed_at: op.completedAt,
+        status: op.status,
+        backfilled: op.backfilled,
+        client_updated_at: op.queuedAt,
+      },
+      { onConflict: 'user_id,day,prayer' }
+    );
+    return error ? this.failure(error) : { outcome: 'done' };
+  }
+
+  // A day counts towards the streak when all five were prayed in their day (qada doesn't count)
+  private async applyCompletion(op: CompletionOp): Promise<ApplyResult> {
+    const { data, error: readError } = await supabase
+      .from('prayer_checkins')
+      .select('prayer, status')
+      .eq('user_id', op.userId)
+      .eq('day', op.day)
+      .eq('completed', true);
+    if (readError) return this.failure(readError);
+
+    const done = new Set((data || []).filter((row) => row.status !== 'qada').map((row) => row.prayer));
+    const complete = PRAYER_KEYS.every((p) => done.has(p));
+
+    // The streak trigger recalculates on insert and delete
+    const { error } = complete
+      ? await supabase
+          .from('prayer_completions')
+          .upsert({ user_id: op.userId, day: op.day, completed_at: op.queuedAt }, { onConflict: 'user_id,day' })
+      : await supabase.from('prayer_completions').delete().eq('user_id', op.userId).eq('day', op.day);
+    return error ? this.failure(error) : { outcome: 'done' };
+  }
+
+  // Only nudges that had arrived when the user looked are marked seen
+  private async applyNudgesSeen(op: NudgesSeenOp): Promise<ApplyResult> {
+    const { error } = await supabase
+      .from('nudges')
+      .update({ seen_at: op.queuedAt })
+      .eq('to_user', op.userId)
+      .eq('day', op.day)
+      .lte('created_at', op.queuedAt)
+      .is('seen_at', null);
+    return error ? this.failure(error) : { outcome: 'done' };
+  }
+
+  private failure(error: { code?: string; message?: string }): ApplyResult {
+    if (isNetworkError(error)) return { outcome: 'retry' };
+    return { outcome: 'dropped', reason: error.message ?? 'Rejected by server' };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(QUEUE_KEY);
+          if (raw) this.queue = JSON.parse(raw) as SyncOp[];
+        } catch (error) {
+          console.error('Error reading sync queue:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('Error saving sync queue:', error);
+    }
+  }
+
+  private emit() {
+    const state = this.getState();
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
+
+export const syncQueue = new SyncQueue();